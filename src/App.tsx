@@ -3,12 +3,11 @@ import { init, getAlbumInfo, type AlbumResponseDto } from "@immich/sdk";
 import ConnectionForm, { type ImmichConfig } from "./components/ConnectionForm";
 import AlbumSelector from "./components/AlbumSelector";
 import PhotoGrid from "./components/PhotoGrid";
+import { albumBook, loadBooks, type Book } from "./utils/bookSource";
 
 function App() {
   const [immichConfig, setImmichConfig] = useState<ImmichConfig | null>(null);
-  const [selectedAlbum, setSelectedAlbum] = useState<AlbumResponseDto | null>(
-    null,
-  );
+  const [selectedBook, setSelectedBook] = useState<Book | null>(null);
   const [isLoadingAlbum, setIsLoadingAlbum] = useState(false);
 
   // Check for reset parameter in URL to clear localStorage
@@ -40,30 +39,42 @@ function App() {
     }
   }, []);
 
-  // Load album from URL hash if specified
+  // Load book or album from URL hash if specified
   useEffect(() => {
     if (!immichConfig) return;
 
     const loadAlbumFromHash = () => {
       const hash = window.location.hash;
 
+      // Extract book ID from hash like #/books/<id>
+      const booksMatch = hash.match(/#\/books\/([^/]+)/);
+      if (booksMatch) {
+        const book = loadBooks().find((b) => b.id === booksMatch[1]);
+        if (!book) {
+          console.error("Unknown book in URL:", booksMatch[1]);
+          window.location.hash = "";
+        }
+        setSelectedBook(book ?? null);
+        return;
+      }
+
       // Extract album ID from hash like #/albums/<id>
       const albumsMatch = hash.match(/#\/albums\/([^/]+)/);
       const albumId = albumsMatch ? albumsMatch[1] : null;
 
       if (albumId) {
         // Only load if different from current
-        if (!selectedAlbum || selectedAlbum.id !== albumId) {
+        if (!selectedBook || selectedBook.id !== albumId) {
           setIsLoadingAlbum(true);
           getAlbumInfo({ id: albumId })
             .then((album) => {
-              setSelectedAlbum(album);
+              setSelectedBook(albumBook(album));
             })
             .catch((err) => {
               console.error("Failed to load album from URL:", err);
               // Clear invalid album ID from hash - go back to album list
               window.location.hash = "";
-              setSelectedAlbum(null);
+              setSelectedBook(null);
             })
             .finally(() => {
               setIsLoadingAlbum(false);
@@ -71,8 +82,8 @@ function App() {
         }
       } else {
         // No album in hash, clear selection
-        if (selectedAlbum) {
-          setSelectedAlbum(null);
+        if (selectedBook) {
+          setSelectedBook(null);
         }
       }
     };
@@ -95,20 +106,26 @@ function App() {
 
   const handleDisconnect = () => {
     setImmichConfig(null);
-    setSelectedAlbum(null);
+    setSelectedBook(null);
     localStorage.removeItem("immich-config");
     // Clear hash
     window.location.hash = "";
   };
 
   const handleAlbumSelect = (album: AlbumResponseDto) => {
-    setSelectedAlbum(album);
+    setSelectedBook(albumBook(album));
     // Update hash to #/albums/<id>
     window.location.hash = `/albums/${album.id}`;
   };
 
+  const handleBookSelect = (book: Book) => {
+    setSelectedBook(book);
+    // Update hash to #/books/<id>
+    window.location.hash = `/books/${book.id}`;
+  };
+
   const handleBackToAlbums = () => {
-    setSelectedAlbum(null);
+    setSelectedBook(null);
     // Clear hash to go back to album list
     window.location.hash = "";
   };
@@ -122,7 +139,7 @@ function App() {
             <div>
               <h1 className="text-2xl font-bold text-gray-900">Immich Book</h1>
               <p className="text-sm text-gray-500">
-                Create photo books from your Immich albums
+                Create photo books from your Immich library
               </p>
             </div>
             <div className="flex items-center gap-3">
@@ -168,15 +185,16 @@ function App() {
             <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
             <p className="mt-4 text-gray-600">Loading album...</p>
           </div>
-        ) : !selectedAlbum ? (
+        ) : !selectedBook ? (
           <AlbumSelector
             immichConfig={immichConfig}
             onSelectAlbum={handleAlbumSelect}
+            onSelectBook={handleBookSelect}
           />
         ) : (
           <PhotoGrid
             immichConfig={immichConfig}
-            album={selectedAlbum}
+            book={selectedBook}
             onBack={handleBackToAlbums}
           />
         )}
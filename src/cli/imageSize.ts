@@ -0,0 +1,37 @@
+import type { ImageDimensions } from "../utils/aspectRatio";
+
+/**
+ * Read the size of a JPEG or PNG image from its header, without decoding it.
+ * Returns null for other formats or broken images.
+ */
+export function imageSize(bytes: Uint8Array): ImageDimensions | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // PNG: signature followed by the IHDR chunk with width and height
+  if (bytes.length >= 24 && view.getUint32(0) === 0x89504e47) {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  // JPEG: walk the segments up to the start of frame
+  if (bytes.length < 4 || view.getUint16(0) !== 0xffd8) return null;
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    // SOF0 to SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      marker !== 0xc4 &&
+      marker !== 0xc8 &&
+      marker !== 0xcc
+    ) {
+      return {
+        width: view.getUint16(offset + 7),
+        height: view.getUint16(offset + 5),
+      };
+    }
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return null;
+}
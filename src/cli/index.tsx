@@ -0,0 +1,18 @@
+import { render, USAGE } from "./render";
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  if (command !== "render") {
+    console.log(USAGE);
+    process.exitCode = command === undefined || command === "--help" ? 0 : 1;
+    return;
+  }
+  try {
+    await render(args);
+  } catch (err) {
+    console.error((err as Error).message);
+    process.exitCode = 1;
+  }
+}
+
+main();
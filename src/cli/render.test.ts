@@ -0,0 +1,118 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { PDFDocument } from "pdf-lib";
+import { fixtureAlbum } from "../utils/__fixtures__/assets";
+import { render } from "./render";
+
+// 1x1 pixel PNG served for every thumbnail
+const PNG = Buffer.from(
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==",
+  "base64",
+);
+
+const assets = fixtureAlbum(6);
+
+// Immich server with one album, answering the requests of the renderer
+function mockImmich(): Server {
+  return createServer((request, response) => {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    if (
+      request.headers["x-api-key"] !== "key" &&
+      !url.searchParams.has("apiKey")
+    ) {
+      response.writeHead(401).end();
+    } else if (url.pathname === "/api/albums/album-1") {
+      response
+        .writeHead(200, { "content-type": "application/json" })
+        .end(JSON.stringify({ id: "album-1", albumName: "Trip", assets }));
+    } else if (/^\/api\/assets\/[\w-]+\/thumbnail$/.test(url.pathname)) {
+      response.writeHead(200, { "content-type": "image/png" }).end(PNG);
+    } else {
+      response.writeHead(404).end();
+    }
+  });
+}
+
+describe("render", () => {
+  let server: Server;
+  let dir: string;
+
+  beforeAll(async () => {
+    server = mockImmich();
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    dir = await mkdtemp(join(tmpdir(), "immich-book-"));
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await rm(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  // Empty strings as children of PDF views (e.g. a date label rendering to
+  // "") make the renderer warn and leave broken text in the PDF
+  it.each([
+    ["without dates", { margin: 10, showDates: false }],
+    [
+      "with empty date labels",
+      { margin: 10, showDates: true, dateTemplate: "" },
+    ],
+  ])(
+    "writes the PDF of an album from a saved config %s",
+    async (name, settings) => {
+      const { port } = server.address() as AddressInfo;
+      const config = join(dir, `book-${name.replace(/\W+/g, "-")}.json`);
+      const out = join(dir, `book-${name.replace(/\W+/g, "-")}.pdf`);
+      await writeFile(config, JSON.stringify(settings));
+      // The spy is shared by the runs
+      const warn = vi.spyOn(console, "warn");
+      warn.mockClear();
+
+      await render([
+        "--server",
+        `http://127.0.0.1:${port}`,
+        "--key",
+        "key",
+        "--config",
+        config,
+        "--album",
+        "album-1",
+        "--out",
+        out,
+      ]);
+
+      const pdf = await readFile(out);
+      expect(pdf.subarray(0, 5).toString()).toBe("%PDF-");
+      const document = await PDFDocument.load(pdf);
+      expect(document.getPageCount()).toBeGreaterThan(0);
+      expect(warn).not.toHaveBeenCalledWith(
+        expect.stringContaining("string child outside <Text>"),
+      );
+    },
+    60_000,
+  );
+
+  it("fails without a book source", async () => {
+    const config = join(dir, "empty.json");
+    await writeFile(config, "{}");
+    await expect(
+      render([
+        "--server",
+        "http://127.0.0.1:1",
+        "--key",
+        "key",
+        "--config",
+        config,
+        "--out",
+        join(dir, "empty.pdf"),
+      ]),
+    ).rejects.toThrow("The config has no book source");
+  });
+});
@@ -0,0 +1,208 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import { parseArgs } from "node:util";
+import { init, type AssetResponseDto } from "@immich/sdk";
+import { Font, renderToBuffer } from "@react-pdf/renderer";
+import BookDocument, { type BookImageLoader } from "../components/BookDocument";
+import type { ImmichConfig } from "../components/ConnectionForm";
+import {
+  withProbedDimensions,
+  type DimensionsProbe,
+} from "../utils/aspectRatio";
+import { bookCaptions, layoutBook } from "../utils/bookLayout";
+import {
+  EMPTY_BOOK_SOURCE,
+  loadBookAssets,
+  type BookSource,
+} from "../utils/bookSource";
+import { defaultCrop } from "../utils/photoCrop";
+import { applyPrintBoxes } from "../utils/printBoxes";
+import {
+  assetImageUrl,
+  chooseImageSource,
+  requiredPixels,
+  type PrintImageSource,
+} from "../utils/printImages";
+import { parseProjectFile } from "../utils/projectFile";
+import { assetPageUrl } from "../utils/videoFrames";
+import { imageSize } from "./imageSize";
+
+export const USAGE = `Render the photo pages of a book as a print-ready PDF
+
+Usage: immich-book render --server URL --key KEY --config FILE --out FILE [--album ID...]
+
+  --server URL     Immich server URL, e.g. https://immich.example.com
+  --key KEY        Immich API key (or the IMMICH_API_KEY environment variable)
+  --config FILE    Project file or saved book config
+  --album ID       Album with the photos, repeat for a combined book; defaults
+                   to the albums and search of the book in the project file
+  --out FILE       PDF file to write
+`;
+
+// Register Roboto from the bundled font files, like the web app does
+function registerFonts() {
+  const require = createRequire(import.meta.url);
+  const font = (name: string) =>
+    require.resolve(`@fontsource/roboto/files/roboto-latin-${name}.woff`);
+  Font.register({
+    family: "Roboto",
+    fonts: [
+      { src: font("400-normal"), fontWeight: 400 },
+      { src: font("400-italic"), fontWeight: 400, fontStyle: "italic" },
+      { src: font("500-normal"), fontWeight: 500 },
+      { src: font("500-italic"), fontWeight: 500, fontStyle: "italic" },
+      { src: font("700-normal"), fontWeight: 700 },
+      { src: font("700-italic"), fontWeight: 700, fontStyle: "italic" },
+    ],
+  });
+}
+
+/**
+ * Load images from the Immich thumbnails without decoding them. There is no
+ * canvas to crop and downscale originals, so the document crops the whole
+ * thumbnail and originals are replaced by the fullsize thumbnail. Videos are
+ * printed with their thumbnail instead of the chosen frame.
+ */
+function createImageLoader(
+  immichConfig: ImmichConfig,
+  preference: PrintImageSource,
+): BookImageLoader {
+  return async (asset, box) => {
+    const chosen = chooseImageSource(requiredPixels(box), preference);
+    const source = chosen === "original" ? "fullsize" : chosen;
+    const response = await fetch(assetImageUrl(immichConfig, asset.id, source));
+    if (!response.ok) {
+      throw new Error(
+        `Failed to load ${source} image for asset ${asset.id}: ${response.status}`,
+      );
+    }
+    const type = response.headers.get("content-type") ?? "";
+    if (type !== "image/jpeg" && type !== "image/png") {
+      throw new Error(
+        `Unsupported ${source} image format for asset ${asset.id}: ${type}`,
+      );
+    }
+    return {
+      data: Buffer.from(await response.arrayBuffer()),
+      format: type === "image/png" ? "png" : "jpg",
+    };
+  };
+}
+
+// Probe the size of the preview thumbnail, which is already upright
+function previewProbe(immichConfig: ImmichConfig): DimensionsProbe {
+  return async (asset) => {
+    const response = await fetch(
+      assetImageUrl(immichConfig, asset.id, "preview"),
+    );
+    if (!response.ok) {
+      throw new Error(`Failed to load preview image: ${response.status}`);
+    }
+    const size = imageSize(new Uint8Array(await response.arrayBuffer()));
+    if (!size) {
+      throw new Error("Unsupported preview image format");
+    }
+    return size;
+  };
+}
+
+/**
+ * Render the book of a project file with the photos of an Immich server, as
+ * described in USAGE. Throws on missing arguments and failed requests.
+ */
+export async function render(args: string[]) {
+  const { values } = parseArgs({
+    args,
+    options: {
+      server: { type: "string" },
+      key: { type: "string" },
+      config: { type: "string" },
+      album: { type: "string", multiple: true },
+      out: { type: "string" },
+    },
+  });
+  const apiKey = values.key ?? process.env.IMMICH_API_KEY;
+  if (!values.server || !apiKey || !values.config || !values.out) {
+    throw new Error(`Missing arguments\n\n${USAGE}`);
+  }
+
+  const serverUrl = values.server.replace(/\/$/, "");
+  const immichConfig: ImmichConfig = {
+    serverUrl,
+    apiKey,
+    baseUrl: `${serverUrl}/api`,
+  };
+  init({ baseUrl: immichConfig.baseUrl, apiKey });
+
+  const text = await readFile(values.config, "utf-8");
+  const placeholder = {
+    id: "cli",
+    name: "",
+    description: "",
+    thumbnailAssetId: null,
+    source: EMPTY_BOOK_SOURCE,
+  };
+  const { project } = parseProjectFile(text, placeholder, []);
+
+  let source: BookSource = project.book.source;
+  if (values.album) {
+    source = { ...EMPTY_BOOK_SOURCE, albumIds: values.album };
+  }
+  if (
+    source.albumIds.length === 0 &&
+    source.personIds.length === 0 &&
+    source.queries.length === 0 &&
+    !source.takenAfter &&
+    !source.takenBefore
+  ) {
+    throw new Error("The config has no book source, pass --album");
+  }
+
+  console.log(`Loading assets of "${project.book.name || "book"}"...`);
+  const assets = await withProbedDimensions(
+    await loadBookAssets(source),
+    previewProbe(immichConfig),
+  );
+  const existing = new Set(assets.map((asset) => asset.id));
+  const missing = project.assetIds.filter((id) => !existing.has(id));
+  if (missing.length > 0) {
+    console.warn(
+      `${missing.length} photos customized in the config are not in the book, their customizations are ignored`,
+    );
+  }
+
+  const { config } = project;
+  const { pages } = layoutBook(assets, config);
+  if (pages.length === 0) {
+    throw new Error("The book has no photos to render");
+  }
+
+  const crops = new Map(Object.entries(config.crops));
+  const getCrop = (asset: AssetResponseDto) =>
+    crops.get(asset.id) ?? defaultCrop(asset);
+
+  console.log(`Rendering ${pages.length} pages...`);
+  registerFonts();
+  const buffer = await renderToBuffer(
+    <BookDocument
+      pages={pages}
+      combinePages={config.combinePages}
+      showDates={config.showDates}
+      showDescriptions={config.showDescriptions}
+      fontSize={config.fontSize}
+      descriptionPositions={
+        new Map(Object.entries(config.descriptionPositions))
+      }
+      captions={bookCaptions(config)}
+      getCrop={getCrop}
+      loadImage={createImageLoader(immichConfig, config.printImageSource)}
+      videoFrames={new Map(Object.entries(config.videoFrames))}
+      videoLink={(asset) => assetPageUrl(immichConfig, asset.id)}
+      sharedLink={config.sharedLink}
+      cropInDocument
+    />,
+  );
+  const pdf = await applyPrintBoxes(new Blob([new Uint8Array(buffer)]), pages);
+  await writeFile(values.out, new Uint8Array(await pdf.arrayBuffer()));
+  console.log(`Wrote ${values.out}`);
+}
@@ -1,14 +1,31 @@
 import { useState, useEffect } from "react";
 import { getAllAlbums, type AlbumResponseDto } from "@immich/sdk";
+import {
+  createBook,
+  deleteBook,
+  loadBooks,
+  saveBook,
+  EMPTY_BOOK_SOURCE,
+  type Book,
+} from "../utils/bookSource";
+import { isConfigAlbum } from "../utils/configStorage";
 import type { ImmichConfig } from "./ConnectionForm";
+import BookEditor from "./BookEditor";
 
 interface AlbumSelectorProps {
   immichConfig: ImmichConfig;
   onSelectAlbum: (album: AlbumResponseDto) => void;
+  onSelectBook: (book: Book) => void;
 }
 
-function AlbumSelector({ immichConfig, onSelectAlbum }: AlbumSelectorProps) {
+function AlbumSelector({
+  immichConfig,
+  onSelectAlbum,
+  onSelectBook,
+}: AlbumSelectorProps) {
   const [albums, setAlbums] = useState<AlbumResponseDto[]>([]);
+  const [books, setBooks] = useState<Book[]>(loadBooks);
+  const [editingBook, setEditingBook] = useState<Book | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -27,8 +44,11 @@ function AlbumSelector({ immichConfig, onSelectAlbum }: AlbumSelectorProps) {
         getAllAlbums({ shared: true }),
       ]);
 
-      // Combine and deduplicate by album ID using Map
-      const allAlbums = [...ownedAlbums, ...sharedAlbums];
+      // Combine and deduplicate by album ID using Map, without the album
+      // holding the synced book layouts
+      const allAlbums = [...ownedAlbums, ...sharedAlbums].filter(
+        (album) => !isConfigAlbum(album),
+      );
       const uniqueAlbums = Array.from(
         new Map(allAlbums.map((album) => [album.id, album])).values(),
       );
@@ -89,23 +109,132 @@ function AlbumSelector({ immichConfig, onSelectAlbum }: AlbumSelectorProps) {
     );
   }
 
-  if (albums.length === 0) {
-    return (
-      <div className="max-w-md mx-auto text-center py-12">
-        <p className="text-gray-600">No albums found in your Immich library.</p>
-      </div>
-    );
-  }
+  const handleSaveBook = (book: Book) => {
+    // Use the thumbnail of the first album until a cover photo is picked
+    if (!book.thumbnailAssetId) {
+      const album = albums.find((a) => book.source.albumIds.includes(a.id));
+      book = {
+        ...book,
+        thumbnailAssetId: album?.albumThumbnailAssetId ?? null,
+      };
+    }
+    saveBook(book);
+    setBooks(loadBooks());
+    setEditingBook(null);
+    onSelectBook(book);
+  };
+
+  const handleDeleteBook = (book: Book) => {
+    if (!confirm(`Delete the book "${book.name}" and its layout?`)) return;
+    deleteBook(book.id);
+    setBooks(loadBooks());
+    setEditingBook(null);
+  };
+
+  const thumbnailUrl = (assetId: string) =>
+    `${immichConfig.baseUrl}/assets/${assetId}/thumbnail?size=preview&apiKey=${immichConfig.apiKey}`;
 
   return (
     <div>
-      <div className="mb-6">
-        <h2 className="text-2xl font-semibold">Select an Album</h2>
-        <p className="text-gray-600 mt-1">
-          Choose an album to create a photo book ({albums.length} albums found)
-        </p>
+      <div className="mb-6 flex items-end justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-semibold">Books</h2>
+          <p className="text-gray-600 mt-1">
+            Combine albums, people, searches and dates into one book
+          </p>
+        </div>
+        <button
+          onClick={() =>
+            setEditingBook(createBook("", { ...EMPTY_BOOK_SOURCE }))
+          }
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm transition-colors shadow-sm font-medium"
+        >
+          New Book
+        </button>
       </div>
 
+      {editingBook && (
+        <BookEditor
+          key={editingBook.id}
+          book={editingBook}
+          albums={albums}
+          onSave={handleSaveBook}
+          onDelete={
+            books.some((b) => b.id === editingBook.id)
+              ? () => handleDeleteBook(editingBook)
+              : null
+          }
+          onCancel={() => setEditingBook(null)}
+        />
+      )}
+
+      {books.length > 0 && (
+        <div className="mb-8 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {books.map((book) => (
+            <div
+              key={book.id}
+              className="flex bg-white rounded-lg shadow-md hover:shadow-lg transition-shadow overflow-hidden"
+            >
+              <button
+                onClick={() => onSelectBook(book)}
+                className="flex-1 min-w-0 flex items-center gap-3 text-left"
+              >
+                <div className="w-20 h-20 flex-shrink-0 bg-gray-200">
+                  {book.thumbnailAssetId && (
+                    <img
+                      src={thumbnailUrl(book.thumbnailAssetId)}
+                      alt={book.name}
+                      className="w-full h-full object-cover"
+                    />
+                  )}
+                </div>
+                <div className="min-w-0 py-2">
+                  <h3 className="font-semibold text-gray-900 truncate">
+                    {book.name}
+                  </h3>
+                  <p className="text-sm text-gray-500 truncate">
+                    {[
+                      book.source.albumIds.length > 0 &&
+                        `${book.source.albumIds.length} albums`,
+                      book.source.personIds.length > 0 &&
+                        `${book.source.personIds.length} people`,
+                      book.source.queries.length > 0 &&
+                        `${book.source.queries.length} searches`,
+                      (book.source.takenAfter || book.source.takenBefore) &&
+                        `${book.source.takenAfter ?? "…"} – ${book.source.takenBefore ?? "…"}`,
+                    ]
+                      .filter(Boolean)
+                      .join(", ")}
+                  </p>
+                </div>
+              </button>
+              <button
+                onClick={() => setEditingBook(book)}
+                className="px-3 text-sm text-blue-600 hover:text-blue-800"
+              >
+                Edit
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {albums.length === 0 ? (
+        <div className="max-w-md mx-auto text-center py-12">
+          <p className="text-gray-600">
+            No albums found in your Immich library.
+          </p>
+        </div>
+      ) : (
+        <div className="mb-6">
+          <h2 className="text-2xl font-semibold">Select an Album</h2>
+          <p className="text-gray-600 mt-1">
+            Choose an album to create a photo book ({albums.length} albums
+            found)
+          </p>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
         {albums.map((album) => (
           <button
@@ -116,7 +245,7 @@ function AlbumSelector({ immichConfig, onSelectAlbum }: AlbumSelectorProps) {
             {album.albumThumbnailAssetId ? (
               <div className="h-48 bg-gray-200 relative overflow-hidden">
                 <img
-                  src={`${immichConfig.baseUrl}/assets/${album.albumThumbnailAssetId}/thumbnail?size=preview&apiKey=${immichConfig.apiKey}`}
+                  src={thumbnailUrl(album.albumThumbnailAssetId)}
                   alt={album.albumName}
                   className="w-full h-full object-cover"
                 />
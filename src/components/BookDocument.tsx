@@ -0,0 +1,587 @@
+import {
+  Document,
+  Page,
+  Image,
+  View,
+  Text,
+  StyleSheet,
+  Svg,
+  Path,
+  Circle,
+} from "@react-pdf/renderer";
+import type { AssetResponseDto } from "@immich/sdk";
+import { assetAspectRatio } from "../utils/aspectRatio";
+import type { Position } from "../utils/bookConfig";
+import type { Captions } from "../utils/captions";
+import { toPoints, type Page as PageData } from "../utils/pageLayout";
+import type { PixelSize } from "../utils/printImages";
+import { cropRect, type PhotoCrop } from "../utils/photoCrop";
+import { endsPhoto, photoBoxCrop } from "../utils/spreadPhotos";
+import {
+  SECTION_SUBTITLE_FONT_SIZE,
+  SECTION_TITLE_FONT_SIZE,
+} from "../utils/sections";
+import { parseRichText } from "../utils/textBlocks";
+import {
+  videoOverlay,
+  type VideoFrame,
+  type VideoOverlay,
+} from "../utils/videoFrames";
+import {
+  linkCard,
+  photoLinkCard,
+  type SharedLinkConfig,
+} from "../utils/sharedLinks";
+import PdfLinkCard, { PdfQrCode } from "./PdfLinkCard";
+
+// Image data for a photo in print resolution
+export type BookImage = Blob | { data: Buffer; format: "jpg" | "png" };
+
+/**
+ * Load an image for a box of the given size (in 300 DPI pixels). Loaders
+ * that can't crop images return the whole image and leave the crop to the
+ * document (see cropInDocument). Videos printed as frames pass the time of
+ * the frame, null for the Immich thumbnail.
+ */
+export type BookImageLoader = (
+  asset: AssetResponseDto,
+  box: PixelSize,
+  crop?: PhotoCrop,
+  frameTime?: number | null,
+) => Promise<BookImage>;
+
+interface BookDocumentProps {
+  pages: PageData[];
+  combinePages: boolean;
+  showDates: boolean;
+  showDescriptions: boolean;
+  fontSize: number;
+  descriptionPositions: Map<string, Position>;
+  captions: Captions; // rendered caption and date label of the photos
+  getCrop: (asset: AssetResponseDto) => PhotoCrop;
+  loadImage: BookImageLoader;
+  videoFrames: Map<string, VideoFrame>;
+  videoLink: (asset: AssetResponseDto) => string; // encoded in the QR code
+  sharedLink: SharedLinkConfig;
+  cropInDocument?: boolean; // images are loaded uncropped
+}
+
+// Static styles for the PDF
+const staticStyles = StyleSheet.create({
+  page: {
+    backgroundColor: "white",
+  },
+  photoContainer: {
+    position: "absolute",
+  },
+  photo: {
+    width: "100%",
+    height: "100%",
+    objectFit: "cover",
+  },
+});
+
+// Dynamic styles based on font size
+const createDynamicStyles = (fontSize: number) => {
+  const basePadding = fontSize * 0.67;
+
+  return {
+    // Common text style
+    text: {
+      color: "black",
+      fontSize: fontSize,
+      fontFamily: "Roboto",
+      lineHeight: 1,
+      letterSpacing: 0.2,
+    },
+    // Date overlay styles
+    dateOverlay: {
+      backgroundColor: "rgba(255, 255, 255, 0.7)",
+      paddingHorizontal: basePadding,
+      paddingVertical: basePadding * 0.5,
+      borderRadius: basePadding * 0.5,
+    },
+    // Description styles
+    descriptionOverlay: {
+      backgroundColor: "rgba(255, 255, 255, 0.7)",
+      color: "black",
+      fontSize: fontSize,
+      padding: basePadding,
+      fontFamily: "Roboto",
+      lineHeight: 1,
+      letterSpacing: 0.2,
+    },
+    descriptionSide: {
+      padding: basePadding,
+      display: "flex",
+      justifyContent: "center",
+      backgroundColor: "#F3F4F6",
+    },
+    // Text block paragraphs
+    richText: {
+      heading1: {
+        fontFamily: "Roboto",
+        fontWeight: 500,
+        fontSize: fontSize * 2,
+        lineHeight: 1.2,
+        marginBottom: fontSize,
+      },
+      heading2: {
+        fontFamily: "Roboto",
+        fontWeight: 500,
+        fontSize: fontSize * 1.5,
+        lineHeight: 1.2,
+        marginBottom: fontSize * 0.75,
+      },
+      paragraph: {
+        fontFamily: "Roboto",
+        fontSize: fontSize,
+        lineHeight: 1.4,
+        marginBottom: fontSize,
+      },
+    },
+  };
+};
+
+/**
+ * Position of a whole image in its box so that only the cropped part is
+ * visible, for images that were not cropped when loading
+ */
+function clippedImageStyle(
+  asset: AssetResponseDto,
+  box: PixelSize,
+  crop: PhotoCrop,
+) {
+  const rect = cropRect(assetAspectRatio(asset), box.width / box.height, crop);
+  const imageWidth = toPoints(box.width) / rect.width;
+  const imageHeight = toPoints(box.height) / rect.height;
+  return {
+    position: "absolute" as const,
+    left: -rect.x * imageWidth,
+    top: -rect.y * imageHeight,
+    width: imageWidth,
+    height: imageHeight,
+  };
+}
+
+// Play badge and QR code on a video printed as a frame
+function PdfVideoOverlay({
+  overlay,
+  left,
+  link,
+}: {
+  overlay: VideoOverlay;
+  left: number; // of the image in the photo box, in points
+  link: string;
+}) {
+  const { badge, qrCode } = overlay;
+  const boxStyle = (box: VideoOverlay["badge"]) => ({
+    position: "absolute" as const,
+    left: left + toPoints(box.x),
+    top: toPoints(box.y),
+    width: toPoints(box.size),
+    height: toPoints(box.size),
+  });
+
+  return (
+    <>
+      <Svg viewBox="0 0 24 24" style={boxStyle(badge)}>
+        <Circle cx="12" cy="12" r="12" fill="black" fillOpacity={0.5} />
+        <Path d="M9.5 7v10l8-5z" fill="white" />
+      </Svg>
+      <PdfQrCode text={link} style={boxStyle(qrCode)} />
+    </>
+  );
+}
+
+// The photo pages of a book, rendered in the browser and on the command line
+function BookDocument({
+  pages,
+  combinePages,
+  showDates,
+  showDescriptions,
+  fontSize,
+  descriptionPositions,
+  captions,
+  getCrop,
+  loadImage,
+  videoFrames,
+  videoLink,
+  sharedLink,
+  cropInDocument = false,
+}: BookDocumentProps) {
+  const pdfStyles = createDynamicStyles(fontSize);
+  const linkedAssetIds = new Set(sharedLink.url ? sharedLink.assetIds : []);
+
+  return (
+    <Document pageLayout={combinePages ? "singlePage" : "twoPageLeft"}>
+      {pages.map((pageData) => {
+        // FIXME: pdfkit (internal of react-pdf) uses 72dpi internally and we downscale everything here;
+        // instead we should produce a high-quality 300 dpi pdf
+
+        // Convert page dimensions from 300 DPI to 72 DPI
+        const pageWidth = toPoints(pageData.width);
+        const pageHeight = toPoints(pageData.height);
+        return (
+          <Page
+            key={pageData.pageNumber}
+            size={{
+              width: pageWidth,
+              height: pageHeight,
+            }}
+            style={staticStyles.page}
+          >
+            {/* Page break indicator for combined pages */}
+            {combinePages && (
+              <View
+                style={{
+                  position: "absolute",
+                  left: pageWidth / 2,
+                  top: 0,
+                  bottom: 0,
+                  width: 1,
+                  borderLeft: "1 dashed #D1D5DB",
+                }}
+              />
+            )}
+
+            {/* Section pages with background photo and title */}
+            {pageData.sections.map(({ assetId, section, ...box }) => {
+              const { photo } = section;
+              return (
+                <View
+                  key={assetId}
+                  style={{
+                    position: "absolute",
+                    left: toPoints(box.x),
+                    top: toPoints(box.y),
+                    width: toPoints(box.width),
+                    height: toPoints(box.height),
+                    display: "flex",
+                    justifyContent: "center",
+                  }}
+                >
+                  {photo && (
+                    <Image
+                      src={() =>
+                        loadImage(photo, {
+                          width: box.width,
+                          height: box.height,
+                        })
+                      }
+                      style={staticStyles.photo}
+                    />
+                  )}
+                  <View
+                    style={{
+                      paddingVertical: SECTION_SUBTITLE_FONT_SIZE,
+                      backgroundColor: photo
+                        ? "rgba(255, 255, 255, 0.7)"
+                        : undefined,
+                    }}
+                  >
+                    {section.title !== "" && (
+                      <Text
+                        style={{
+                          fontFamily: "Roboto",
+                          fontWeight: 500,
+                          fontSize: SECTION_TITLE_FONT_SIZE,
+                          lineHeight: 1.2,
+                          textAlign: "center",
+                        }}
+                      >
+                        {section.title}
+                      </Text>
+                    )}
+                    {section.subtitle !== "" && (
+                      <Text
+                        style={{
+                          fontFamily: "Roboto",
+                          fontSize: SECTION_SUBTITLE_FONT_SIZE,
+                          lineHeight: 1.2,
+                          textAlign: "center",
+                          marginTop: SECTION_SUBTITLE_FONT_SIZE * 0.5,
+                        }}
+                      >
+                        {section.subtitle}
+                      </Text>
+                    )}
+                  </View>
+                  {sharedLink.url && sharedLink.onSections && (
+                    <PdfLinkCard
+                      card={linkCard(box, "bottom-right")}
+                      url={sharedLink.url}
+                    />
+                  )}
+                </View>
+              );
+            })}
+
+            {/* Text blocks */}
+            {pageData.texts.map((box) => (
+              <View
+                key={box.block.id}
+                style={{
+                  position: "absolute",
+                  left: toPoints(box.x),
+                  top: toPoints(box.y),
+                  width: toPoints(box.width),
+                  height: toPoints(box.height),
+                  overflow: "hidden",
+                }}
+              >
+                {parseRichText(box.block.content).map((paragraph, index) => (
+                  <Text
+                    key={index}
+                    style={{
+                      ...pdfStyles.richText[paragraph.kind],
+                      textAlign: box.block.align,
+                    }}
+                  >
+                    {paragraph.runs.map((run, runIndex) => (
+                      <Text
+                        key={runIndex}
+                        style={{
+                          fontWeight: run.bold ? 700 : undefined,
+                          fontStyle: run.italic ? "italic" : undefined,
+                        }}
+                      >
+                        {run.text}
+                      </Text>
+                    ))}
+                  </Text>
+                ))}
+              </View>
+            ))}
+
+            {pageData.photos.map((photoBox) => {
+              // Spread photos have their caption and overlays on the right
+              // page, below or above the photo
+              const showsOverlays = endsPhoto(photoBox);
+              const position =
+                descriptionPositions.get(photoBox.asset.id) || "bottom";
+              const descPosition =
+                photoBox.spread && (position === "left" || position === "right")
+                  ? "bottom"
+                  : position;
+              const caption = captions.caption(photoBox.asset);
+              const date =
+                showDates && showsOverlays ? captions.date(photoBox.asset) : "";
+              const hasDescription =
+                showDescriptions && showsOverlays && caption !== "";
+              const isLeftRight =
+                hasDescription &&
+                (descPosition === "left" || descPosition === "right");
+
+              // When description is on left/right, photoBox.width is already doubled by the layout algorithm
+              // So we use it as-is and split it between image and description
+              const containerWidth = toPoints(photoBox.width);
+              const imageBox = {
+                width: isLeftRight ? photoBox.width / 2 : photoBox.width,
+                height: photoBox.height,
+              };
+              const crop = photoBoxCrop(photoBox, getCrop(photoBox.asset));
+              const frame = videoFrames.get(photoBox.asset.id);
+              const frameTime = frame?.time ?? null;
+              const imageWidth = isLeftRight
+                ? toPoints(photoBox.width) / 2
+                : toPoints(photoBox.width);
+
+              // Use absolute positioning for everything (no flex for left/right)
+              const containerStyle = [
+                staticStyles.photoContainer,
+                {
+                  left: toPoints(photoBox.x),
+                  top: toPoints(photoBox.y),
+                  width: containerWidth,
+                  height: toPoints(photoBox.height),
+                },
+              ];
+
+              const imageStyle = isLeftRight
+                ? {
+                    position: "absolute" as const,
+                    left: descPosition === "left" ? imageWidth : 0,
+                    top: 0,
+                    width: imageWidth,
+                    height: toPoints(photoBox.height),
+                    objectFit: "cover" as const,
+                  }
+                : staticStyles.photo;
+
+              return (
+                <View key={photoBox.asset.id} style={containerStyle}>
+                  {/* Description on left - absolutely positioned */}
+                  {hasDescription && descPosition === "left" && (
+                    <View
+                      style={[
+                        pdfStyles.descriptionSide,
+                        {
+                          position: "absolute",
+                          left: 0,
+                          top: 0,
+                          width: imageWidth,
+                          height: toPoints(photoBox.height),
+                        },
+                      ]}
+                    >
+                      <Text
+                        hyphenationCallback={(word) => [word]}
+                        style={pdfStyles.text}
+                      >
+                        {caption}
+                      </Text>
+                    </View>
+                  )}
+
+                  {/* Image - absolutely positioned, loaded in print resolution */}
+                  {cropInDocument ? (
+                    <View style={[imageStyle, { overflow: "hidden" }]}>
+                      <Image
+                        src={() =>
+                          loadImage(
+                            photoBox.asset,
+                            imageBox,
+                            undefined,
+                            frameTime,
+                          )
+                        }
+                        style={clippedImageStyle(
+                          photoBox.asset,
+                          imageBox,
+                          crop,
+                        )}
+                      />
+                    </View>
+                  ) : (
+                    <Image
+                      src={() =>
+                        loadImage(photoBox.asset, imageBox, crop, frameTime)
+                      }
+                      style={imageStyle}
+                    />
+                  )}
+
+                  {/* Play badge and QR code of videos printed as frames */}
+                  {frame && showsOverlays && (
+                    <PdfVideoOverlay
+                      overlay={videoOverlay(imageBox, descPosition)}
+                      left={
+                        isLeftRight && descPosition === "left" ? imageWidth : 0
+                      }
+                      link={videoLink(photoBox.asset)}
+                    />
+                  )}
+
+                  {/* Shared link next to the photo */}
+                  {sharedLink.url &&
+                    showsOverlays &&
+                    linkedAssetIds.has(photoBox.asset.id) && (
+                      <PdfLinkCard
+                        card={photoLinkCard(imageBox, descPosition)}
+                        url={sharedLink.url}
+                        left={
+                          isLeftRight && descPosition === "left"
+                            ? imageWidth
+                            : 0
+                        }
+                      />
+                    )}
+
+                  {/* Description on right - absolutely positioned */}
+                  {hasDescription && descPosition === "right" && (
+                    <View
+                      style={[
+                        pdfStyles.descriptionSide,
+                        {
+                          position: "absolute",
+                          right: 0,
+                          top: 0,
+                          width: imageWidth,
+                          height: toPoints(photoBox.height),
+                        },
+                      ]}
+                    >
+                      <Text
+                        hyphenationCallback={(word) => [word]}
+                        style={pdfStyles.text}
+                      >
+                        {caption}
+                      </Text>
+                    </View>
+                  )}
+
+                  {/* Date - absolutely positioned */}
+                  {date !== "" && (
+                    <View
+                      style={(() => {
+                        switch (descPosition) {
+                          case "bottom":
+                            return {
+                              ...pdfStyles.dateOverlay,
+                              position: "absolute",
+                              top: 8,
+                              right: 8,
+                            };
+                          case "top":
+                            return {
+                              ...pdfStyles.dateOverlay,
+                              position: "absolute",
+                              bottom: 8,
+                              right: 8,
+                            };
+                          case "left":
+                            return {
+                              position: "absolute",
+                              top: 16,
+                              left: 8,
+                            };
+                          case "right":
+                            return {
+                              position: "absolute",
+                              top: 16,
+                              left: imageWidth + 8,
+                            };
+                          default:
+                            return {
+                              ...pdfStyles.dateOverlay,
+                              position: "absolute",
+                              top: 8,
+                              right: 8,
+                            };
+                        }
+                      })()}
+                    >
+                      <Text style={pdfStyles.text}>{date}</Text>
+                    </View>
+                  )}
+
+                  {/* Description for top/bottom positions */}
+                  {hasDescription &&
+                    (descPosition === "top" || descPosition === "bottom") && (
+                      <Text
+                        hyphenationCallback={(word) => [word]}
+                        style={{
+                          ...pdfStyles.descriptionOverlay,
+                          position: "absolute",
+                          ...(descPosition === "top"
+                            ? { top: 0 }
+                            : { bottom: 0 }),
+                          left: 0,
+                          right: 0,
+                        }}
+                      >
+                        {caption}
+                      </Text>
+                    )}
+                </View>
+              );
+            })}
+          </Page>
+        );
+      })}
+    </Document>
+  );
+}
+
+export default BookDocument;
@@ -0,0 +1,225 @@
+import { useState, useEffect } from "react";
+import {
+  getAllPeople,
+  type AlbumResponseDto,
+  type PersonResponseDto,
+} from "@immich/sdk";
+import type { Book } from "../utils/bookSource";
+
+interface BookEditorProps {
+  book: Book;
+  albums: AlbumResponseDto[];
+  onSave: (book: Book) => void;
+  onDelete: (() => void) | null; // null for a new book
+  onCancel: () => void;
+}
+
+// Edit the name and sources of a book combining several albums, people,
+// smart searches and a date range
+function BookEditor({
+  book,
+  albums,
+  onSave,
+  onDelete,
+  onCancel,
+}: BookEditorProps) {
+  const [draft, setDraft] = useState(book);
+  const [people, setPeople] = useState<PersonResponseDto[]>([]);
+  const [queryText, setQueryText] = useState(book.source.queries.join("\n"));
+  const { source } = draft;
+
+  useEffect(() => {
+    getAllPeople({ size: 1000 })
+      .then((result) => setPeople(result.people.filter((p) => p.name)))
+      .catch((err) => console.error("Failed to load people:", err));
+  }, []);
+
+  const toggle = (ids: string[], id: string) =>
+    ids.includes(id) ? ids.filter((other) => other !== id) : [...ids, id];
+
+  const queries = queryText
+    .split("\n")
+    .map((query) => query.trim())
+    .filter((query) => query !== "");
+  const isEmpty =
+    source.albumIds.length === 0 &&
+    source.personIds.length === 0 &&
+    queries.length === 0 &&
+    !source.takenAfter &&
+    !source.takenBefore;
+
+  return (
+    <div className="mb-6 p-4 bg-white rounded-lg shadow-md space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <label htmlFor="bookName" className="text-sm font-medium text-gray-700">
+          Name:
+        </label>
+        <input
+          type="text"
+          id="bookName"
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          className="px-2 py-1 w-64 text-sm border border-gray-300 rounded"
+        />
+        <label
+          htmlFor="bookDescription"
+          className="text-sm font-medium text-gray-700"
+        >
+          Description:
+        </label>
+        <input
+          type="text"
+          id="bookDescription"
+          value={draft.description}
+          onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+          className="px-2 py-1 flex-1 min-w-40 text-sm border border-gray-300 rounded"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-1">Albums</h3>
+          <div className="max-h-48 overflow-y-auto border border-gray-200 rounded p-2 space-y-1">
+            {albums.map((album) => (
+              <label
+                key={album.id}
+                className="flex items-center gap-2 text-sm text-gray-700"
+              >
+                <input
+                  type="checkbox"
+                  checked={source.albumIds.includes(album.id)}
+                  onChange={() =>
+                    setDraft({
+                      ...draft,
+                      source: {
+                        ...source,
+                        albumIds: toggle(source.albumIds, album.id),
+                      },
+                    })
+                  }
+                />
+                <span className="truncate">{album.albumName}</span>
+                <span className="text-xs text-gray-400">
+                  {album.assetCount}
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-1">People</h3>
+          <div className="max-h-48 overflow-y-auto border border-gray-200 rounded p-2 space-y-1">
+            {people.length === 0 && (
+              <p className="text-xs text-gray-400">No named people found</p>
+            )}
+            {people.map((person) => (
+              <label
+                key={person.id}
+                className="flex items-center gap-2 text-sm text-gray-700"
+              >
+                <input
+                  type="checkbox"
+                  checked={source.personIds.includes(person.id)}
+                  onChange={() =>
+                    setDraft({
+                      ...draft,
+                      source: {
+                        ...source,
+                        personIds: toggle(source.personIds, person.id),
+                      },
+                    })
+                  }
+                />
+                <span className="truncate">{person.name}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label
+            htmlFor="bookQueries"
+            className="block text-sm font-semibold text-gray-700 mb-1"
+          >
+            Smart search (one query per line)
+          </label>
+          <textarea
+            id="bookQueries"
+            value={queryText}
+            onChange={(e) => setQueryText(e.target.value)}
+            rows={3}
+            placeholder="beach at sunset"
+            className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+          />
+        </div>
+
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-1">
+            Taken between
+          </h3>
+          <div className="flex items-center gap-2">
+            <input
+              type="date"
+              value={source.takenAfter ?? ""}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  source: { ...source, takenAfter: e.target.value || null },
+                })
+              }
+              className="px-2 py-1 text-sm border border-gray-300 rounded"
+            />
+            <span className="text-sm text-gray-500">and</span>
+            <input
+              type="date"
+              value={source.takenBefore ?? ""}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  source: { ...source, takenBefore: e.target.value || null },
+                })
+              }
+              className="px-2 py-1 text-sm border border-gray-300 rounded"
+            />
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            Limits all sources above, or selects all photos in the range.
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() =>
+            onSave({
+              ...draft,
+              name: draft.name.trim() || "Untitled book",
+              source: { ...source, queries },
+            })
+          }
+          disabled={isEmpty}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm transition-colors shadow-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save and open
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors shadow-sm"
+        >
+          Cancel
+        </button>
+        {onDelete && (
+          <button
+            onClick={onDelete}
+            className="ml-auto px-4 py-2 text-sm font-medium text-red-600 bg-white border border-red-300 rounded-lg hover:bg-red-50 transition-colors shadow-sm"
+          >
+            Delete book
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default BookEditor;
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import {
+  formatClockOffset,
+  parseClockOffset,
+  type BookCamera,
+} from "../utils/assetSort";
+
+interface CameraClockPanelProps {
+  cameras: BookCamera[];
+  offsets: Record<string, number>;
+  onChange: (offsets: Record<string, number>) => void;
+}
+
+// Offset input, applied when it can be read
+function OffsetInput({
+  offset,
+  onChange,
+}: {
+  offset: number;
+  onChange: (offset: number) => void;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const isValid = draft === null || parseClockOffset(draft) !== null;
+
+  return (
+    <input
+      type="text"
+      value={draft ?? (offset ? formatClockOffset(offset) : "")}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        const parsed = parseClockOffset(e.target.value || "0");
+        if (parsed !== null) onChange(parsed);
+      }}
+      onBlur={() => setDraft(null)}
+      placeholder="+0:00"
+      className={`px-1 py-0.5 w-20 border rounded ${
+        isValid ? "border-gray-300" : "border-red-500"
+      }`}
+      title="Hours and minutes to add to the clock of the camera, e.g. -1:00 if it was an hour ahead"
+    />
+  );
+}
+
+// Clock corrections of the cameras in a book, for photos of several cameras
+// taken at the same time
+function CameraClockPanel({
+  cameras,
+  offsets,
+  onChange,
+}: CameraClockPanelProps) {
+  const setOffset = (key: string, offset: number) => {
+    const next = { ...offsets };
+    if (offset) {
+      next[key] = offset;
+    } else {
+      delete next[key];
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="p-2 bg-gray-50 rounded border border-gray-300 space-y-1 text-xs">
+      <div className="flex flex-wrap items-center gap-2 sm:gap-3">
+        <h3 className="font-semibold text-gray-700 sm:w-28">Camera Clocks</h3>
+        <span className="text-gray-500">
+          Correct cameras with a wrong clock, used when sorting by time.
+        </span>
+        {Object.keys(offsets).length > 0 && (
+          <button
+            onClick={() => onChange({})}
+            className="px-2 py-0.5 bg-red-500 hover:bg-red-600 text-white rounded-md transition-colors font-medium"
+          >
+            Reset
+          </button>
+        )}
+      </div>
+      {cameras.map((camera) => (
+        <div
+          key={camera.key}
+          className="flex items-center gap-2 sm:pl-[7.75rem]"
+        >
+          <OffsetInput
+            offset={offsets[camera.key] ?? 0}
+            onChange={(offset) => setOffset(camera.key, offset)}
+          />
+          <span className="text-gray-700">
+            {camera.key || "Unknown camera"}
+          </span>
+          <span className="text-gray-500">
+            ({camera.count} {camera.count === 1 ? "photo" : "photos"})
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default CameraClockPanel;
@@ -0,0 +1,86 @@
+import { useState } from "react";
+import Icon from "@mdi/react";
+import { mdiCheck, mdiClose, mdiUndoVariant } from "@mdi/js";
+import { CAPTION_HELP } from "../utils/captions";
+
+interface CaptionEditorProps {
+  template: string | undefined; // undefined while the book's one is used
+  bookTemplate: string;
+  render: (template: string) => string; // caption of the photo
+  onChange: (template: string | null) => void;
+  onClose: () => void;
+}
+
+// Overlay on a photo in the live preview: edit the caption template of the
+// photo, with the rendered caption shown while typing
+function CaptionEditor({
+  template,
+  bookTemplate,
+  render,
+  onChange,
+  onClose,
+}: CaptionEditorProps) {
+  const [draft, setDraft] = useState(template ?? bookTemplate);
+  const caption = render(draft);
+
+  const apply = () => {
+    onChange(draft === bookTemplate ? null : draft);
+    onClose();
+  };
+
+  return (
+    <div
+      className="absolute inset-0 z-30 ring-2 ring-inset ring-indigo-500 cursor-default"
+      onMouseDown={(e) => e.stopPropagation()}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="absolute top-2 left-2 right-2 bg-white/90 rounded shadow px-1 py-0.5 space-y-0.5">
+        <div className="flex items-center gap-1">
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") apply();
+              if (e.key === "Escape") onClose();
+            }}
+            autoFocus
+            className="flex-1 min-w-0 px-1 text-[10px] border border-gray-300 rounded"
+            title={CAPTION_HELP}
+          />
+          {template !== undefined && (
+            <button
+              onClick={() => {
+                onChange(null);
+                onClose();
+              }}
+              className="p-0.5 rounded text-gray-700 hover:bg-gray-200"
+              title="Use the book's caption template"
+            >
+              <Icon path={mdiUndoVariant} size={0.6} />
+            </button>
+          )}
+          <button
+            onClick={apply}
+            className="p-0.5 rounded bg-indigo-500 text-white hover:bg-indigo-600"
+            title="Use this caption"
+          >
+            <Icon path={mdiCheck} size={0.6} />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-0.5 rounded text-gray-700 hover:bg-gray-200"
+            title="Close"
+          >
+            <Icon path={mdiClose} size={0.6} />
+          </button>
+        </div>
+        <p className="text-[10px] text-gray-600 truncate">
+          {caption || "No caption"}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default CaptionEditor;
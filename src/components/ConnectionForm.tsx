@@ -1,5 +1,6 @@
 import { useState } from "react";
-import { init, getAllAlbums } from "@immich/sdk";
+import { init, getAllAlbums, type Permission } from "@immich/sdk";
+import { missingSharedLinkPermissions } from "../utils/sharedLinks";
 
 export interface ImmichConfig {
   serverUrl: string;
@@ -17,10 +18,16 @@ function ConnectionForm({ onConnect }: ConnectionFormProps) {
   const [apiKey, setApiKey] = useState("");
   const [isConnecting, setIsConnecting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Connection that works, but without the permissions for shared links
+  const [limitedConnection, setLimitedConnection] = useState<{
+    config: ImmichConfig;
+    missing: Permission[];
+  } | null>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
+    setLimitedConnection(null);
     setIsConnecting(true);
 
     try {
@@ -36,6 +43,20 @@ function ConnectionForm({ onConnect }: ConnectionFormProps) {
       // Store config in state and localStorage
       const config: ImmichConfig = { serverUrl, apiKey, baseUrl };
       localStorage.setItem("immich-config", JSON.stringify(config));
+
+      // Shared links are optional, report missing permissions before going on
+      let missing: Permission[] = [];
+      try {
+        missing = await missingSharedLinkPermissions();
+      } catch (err) {
+        // Older servers can't report the permissions of a key
+        console.warn("Failed to check API key permissions:", err);
+      }
+      if (missing.length > 0) {
+        setLimitedConnection({ config, missing });
+        setIsConnecting(false);
+        return;
+      }
       onConnect(config);
     } catch (err) {
       setError((err as Error).message || "Failed to connect to Immich server");
@@ -150,6 +171,30 @@ function ConnectionForm({ onConnect }: ConnectionFormProps) {
             </div>
           )}
 
+          {limitedConnection && (
+            <div className="p-3 bg-yellow-50 border border-yellow-300 rounded-md">
+              <p className="text-sm text-yellow-900 font-semibold mb-1">
+                Shared links not available
+              </p>
+              <p className="text-xs text-yellow-800 mb-2">
+                The API key lacks the permission
+                {limitedConnection.missing.length > 1 ? "s" : ""}{" "}
+                <strong>{limitedConnection.missing.join(", ")}</strong>, so no
+                shared link can be printed as QR code in the book. Add{" "}
+                {limitedConnection.missing.length > 1 ? "them" : "it"} to the
+                key in Immich (Account Settings → API Keys), or continue without
+                shared links.
+              </p>
+              <button
+                type="button"
+                onClick={() => onConnect(limitedConnection.config)}
+                className="text-xs px-3 py-1.5 bg-yellow-600 text-white rounded-md hover:bg-yellow-700 transition-colors font-medium"
+              >
+                Continue Without Shared Links
+              </button>
+            </div>
+          )}
+
           <button
             type="submit"
             disabled={isConnecting}
@@ -0,0 +1,205 @@
+import { Document, Page, Image, View, Text } from "@react-pdf/renderer";
+import type { AssetResponseDto } from "@immich/sdk";
+import {
+  COVER_BACK_TEXT_FONT_SIZE,
+  COVER_SUBTITLE_FONT_SIZE,
+  COVER_TITLE_FONT_SIZE,
+  spineFontSize,
+  type CoverLayout,
+} from "../utils/coverLayout";
+import { toPoints } from "../utils/pageLayout";
+import { loadPrintImage, type PrintImageSource } from "../utils/printImages";
+import { linkCard } from "../utils/sharedLinks";
+import type { ImmichConfig } from "./ConnectionForm";
+import PdfLinkCard from "./PdfLinkCard";
+
+interface CoverDocumentProps {
+  immichConfig: ImmichConfig;
+  layout: CoverLayout;
+  title: string;
+  subtitle: string;
+  photo: AssetResponseDto | undefined;
+  backPhoto: AssetResponseDto | undefined;
+  backText: string;
+  printImageSource: PrintImageSource;
+  sharedLinkUrl: string | null; // printed on the back
+}
+
+// Wraparound cover as a single PDF page: back, spine and front
+function CoverDocument({
+  immichConfig,
+  layout,
+  title,
+  subtitle,
+  photo,
+  backPhoto,
+  backText,
+  printImageSource,
+  sharedLinkUrl,
+}: CoverDocumentProps) {
+  const { back, front, spine, wrap } = layout;
+  const spineTextSize = spineFontSize(toPoints(spine.width));
+
+  return (
+    <Document>
+      <Page
+        size={{
+          width: toPoints(layout.width),
+          height: toPoints(layout.height),
+        }}
+        style={{ backgroundColor: "white" }}
+      >
+        {/* Front panel photo, running into the wrap */}
+        {photo && (
+          <Image
+            src={() =>
+              loadPrintImage(
+                immichConfig,
+                photo,
+                { width: front.width, height: front.height },
+                printImageSource,
+              )
+            }
+            style={{
+              position: "absolute",
+              left: toPoints(front.x),
+              top: toPoints(front.y),
+              width: toPoints(front.width),
+              height: toPoints(front.height),
+              objectFit: "cover",
+            }}
+          />
+        )}
+
+        {/* Title and subtitle at the bottom of the front panel */}
+        {(title !== "" || subtitle !== "") && (
+          <View
+            style={{
+              position: "absolute",
+              left: toPoints(front.x),
+              right: toPoints(wrap),
+              bottom: toPoints(wrap) + COVER_TITLE_FONT_SIZE,
+              paddingVertical: COVER_SUBTITLE_FONT_SIZE,
+              backgroundColor: "rgba(255, 255, 255, 0.7)",
+            }}
+          >
+            {title !== "" && (
+              <Text
+                style={{
+                  fontFamily: "Roboto",
+                  fontWeight: 500,
+                  fontSize: COVER_TITLE_FONT_SIZE,
+                  lineHeight: 1.2,
+                  textAlign: "center",
+                }}
+              >
+                {title}
+              </Text>
+            )}
+            {subtitle !== "" && (
+              <Text
+                style={{
+                  fontFamily: "Roboto",
+                  fontSize: COVER_SUBTITLE_FONT_SIZE,
+                  lineHeight: 1.2,
+                  textAlign: "center",
+                  marginTop: COVER_SUBTITLE_FONT_SIZE * 0.5,
+                }}
+              >
+                {subtitle}
+              </Text>
+            )}
+          </View>
+        )}
+
+        {/* Spine title, reading top to bottom */}
+        {title !== "" && spineTextSize !== null && (
+          <View
+            style={{
+              position: "absolute",
+              left: toPoints(spine.x + spine.width / 2 - spine.height / 2),
+              top: toPoints(spine.height / 2 - spine.width / 2),
+              width: toPoints(spine.height),
+              height: toPoints(spine.width),
+              transform: "rotate(90deg)",
+              display: "flex",
+              justifyContent: "center",
+            }}
+          >
+            <Text
+              style={{
+                fontFamily: "Roboto",
+                fontSize: spineTextSize,
+                lineHeight: 1,
+                textAlign: "center",
+              }}
+            >
+              {title}
+            </Text>
+          </View>
+        )}
+
+        {/* Back panel photo, running into the wrap */}
+        {backPhoto && (
+          <Image
+            src={() =>
+              loadPrintImage(
+                immichConfig,
+                backPhoto,
+                { width: back.width, height: back.height },
+                printImageSource,
+              )
+            }
+            style={{
+              position: "absolute",
+              left: toPoints(back.x),
+              top: toPoints(back.y),
+              width: toPoints(back.width),
+              height: toPoints(back.height),
+              objectFit: "cover",
+            }}
+          />
+        )}
+
+        {/* Text at the top of the back panel */}
+        {backText !== "" && (
+          <View
+            style={{
+              position: "absolute",
+              left: toPoints(wrap) + COVER_TITLE_FONT_SIZE,
+              width: toPoints(back.width - wrap) - COVER_TITLE_FONT_SIZE * 2,
+              top: toPoints(wrap) + COVER_TITLE_FONT_SIZE,
+              padding: COVER_BACK_TEXT_FONT_SIZE,
+              backgroundColor: "rgba(255, 255, 255, 0.7)",
+            }}
+          >
+            <Text
+              style={{
+                fontFamily: "Roboto",
+                fontSize: COVER_BACK_TEXT_FONT_SIZE,
+                lineHeight: 1.4,
+              }}
+            >
+              {backText}
+            </Text>
+          </View>
+        )}
+
+        {/* Shared link at the bottom of the back panel */}
+        {sharedLinkUrl && (
+          <PdfLinkCard
+            card={linkCard(
+              { width: back.width - wrap, height: back.height - wrap * 2 },
+              "bottom-center",
+            )}
+            url={sharedLinkUrl}
+            left={toPoints(wrap)}
+            top={toPoints(wrap)}
+          />
+        )}
+      </Page>
+    </Document>
+  );
+}
+
+export default CoverDocument;
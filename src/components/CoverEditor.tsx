@@ -0,0 +1,385 @@
+import { useState } from "react";
+import type { AssetResponseDto } from "@immich/sdk";
+import {
+  COVER_BACK_TEXT_FONT_SIZE,
+  COVER_SUBTITLE_FONT_SIZE,
+  COVER_TITLE_FONT_SIZE,
+  spineFontSize,
+  spineWidthMm,
+  type CoverConfig,
+  type CoverLayout,
+} from "../utils/coverLayout";
+import { toPoints } from "../utils/pageLayout";
+import { linkCard } from "../utils/sharedLinks";
+import type { ImmichConfig } from "./ConnectionForm";
+import LinkCard from "./LinkCard";
+
+interface CoverEditorProps {
+  immichConfig: ImmichConfig;
+  assets: AssetResponseDto[];
+  config: CoverConfig;
+  onChange: (config: CoverConfig) => void;
+  layout: CoverLayout;
+  pageCount: number;
+  title: string;
+  subtitle: string;
+  photo: AssetResponseDto | undefined;
+  backPhoto: AssetResponseDto | undefined;
+  sharedLinkUrl: string | null; // printed on the back
+}
+
+function CoverEditor({
+  immichConfig,
+  assets,
+  config,
+  onChange,
+  layout,
+  pageCount,
+  title,
+  subtitle,
+  photo,
+  backPhoto,
+  sharedLinkUrl,
+}: CoverEditorProps) {
+  const { back, front, spine, wrap } = layout;
+  const spineTextSize = spineFontSize(toPoints(spine.width));
+  // Panel the photo picker chooses for
+  const [panel, setPanel] = useState<"front" | "back">("front");
+  const pickedPhoto = panel === "front" ? photo : backPhoto;
+
+  const pickPhoto = (assetId: string | null) =>
+    onChange(
+      panel === "front"
+        ? { ...config, photoId: assetId }
+        : { ...config, backPhotoId: assetId },
+    );
+
+  return (
+    <div className="mb-8 p-2 bg-gray-50 rounded border border-gray-300 space-y-2">
+      <div className="flex flex-wrap items-center gap-2 sm:gap-3">
+        <h3 className="text-xs font-semibold text-gray-700 sm:w-28">Cover</h3>
+        <div className="flex items-center gap-1">
+          <label htmlFor="coverTitle" className="text-gray-600 text-xs">
+            Title:
+          </label>
+          <input
+            type="text"
+            id="coverTitle"
+            value={title}
+            onChange={(e) => onChange({ ...config, title: e.target.value })}
+            className="px-1 py-0.5 w-40 text-xs border border-gray-300 rounded"
+          />
+        </div>
+        <div className="flex items-center gap-1">
+          <label htmlFor="coverSubtitle" className="text-gray-600 text-xs">
+            Subtitle:
+          </label>
+          <input
+            type="text"
+            id="coverSubtitle"
+            value={subtitle}
+            onChange={(e) => onChange({ ...config, subtitle: e.target.value })}
+            className="px-1 py-0.5 w-40 text-xs border border-gray-300 rounded"
+          />
+        </div>
+        <div className="flex items-center gap-1">
+          <label htmlFor="paperThickness" className="text-gray-600 text-xs">
+            Paper:
+          </label>
+          <input
+            type="number"
+            id="paperThickness"
+            value={config.paperThickness}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (!isNaN(value) && value >= 0) {
+                onChange({ ...config, paperThickness: value });
+              }
+            }}
+            min="0"
+            max="1"
+            step="0.01"
+            className="px-1 py-0.5 w-14 text-xs border border-gray-300 rounded"
+            title="Thickness of one sheet of paper (two pages)"
+          />
+          <span className="text-xs text-gray-500">mm/sheet</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <label htmlFor="coverWrap" className="text-gray-600 text-xs">
+            Wrap:
+          </label>
+          <input
+            type="number"
+            id="coverWrap"
+            value={config.wrap}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (!isNaN(value) && value >= 0) {
+                onChange({ ...config, wrap: value });
+              }
+            }}
+            min="0"
+            max="30"
+            step="1"
+            className="px-1 py-0.5 w-12 text-xs border border-gray-300 rounded"
+            title="Bleed or board wrap around the cover"
+          />
+          <span className="text-xs text-gray-500">mm</span>
+        </div>
+        <span className="text-xs text-gray-500">
+          Spine: {spineWidthMm(pageCount, config.paperThickness).toFixed(1)} mm
+          for {pageCount} pages
+        </span>
+        {(config.title !== null ||
+          config.subtitle !== null ||
+          config.photoId !== null ||
+          config.backPhotoId !== null ||
+          config.backText !== "") && (
+          <button
+            onClick={() =>
+              onChange({
+                ...config,
+                title: null,
+                subtitle: null,
+                photoId: null,
+                backPhotoId: null,
+                backText: "",
+              })
+            }
+            className="text-xs px-2 py-0.5 bg-red-500 hover:bg-red-600 text-white rounded-md transition-colors font-medium"
+          >
+            Reset
+          </button>
+        )}
+      </div>
+
+      <div className="flex items-start gap-2 sm:gap-3">
+        <label
+          htmlFor="coverBackText"
+          className="text-xs font-semibold text-gray-700 sm:w-28"
+        >
+          Back text
+        </label>
+        <textarea
+          id="coverBackText"
+          value={config.backText}
+          onChange={(e) => onChange({ ...config, backText: e.target.value })}
+          rows={2}
+          className="flex-1 px-1 py-0.5 text-xs border border-gray-300 rounded"
+          placeholder="Text printed at the top of the back cover"
+        />
+      </div>
+
+      {/* Photo picker for the front or back panel */}
+      <div className="flex items-center gap-1 text-xs">
+        <span className="text-gray-600">Photo for:</span>
+        {(["front", "back"] as const).map((value) => (
+          <button
+            key={value}
+            onClick={() => setPanel(value)}
+            className={`px-2 py-0.5 rounded ${
+              panel === value
+                ? "bg-blue-500 text-white"
+                : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+            }`}
+          >
+            {value === "front" ? "Front" : "Back"}
+          </button>
+        ))}
+        {panel === "back" && backPhoto && (
+          <button
+            onClick={() => pickPhoto(null)}
+            className="px-2 py-0.5 rounded bg-gray-200 text-gray-700 hover:bg-gray-300"
+          >
+            No back photo
+          </button>
+        )}
+      </div>
+      <div className="flex gap-1 overflow-x-auto pb-1">
+        {assets.map((asset) => (
+          <button
+            key={asset.id}
+            onClick={() => pickPhoto(asset.id)}
+            className={`flex-shrink-0 w-12 h-12 rounded overflow-hidden border-2 ${
+              pickedPhoto?.id === asset.id
+                ? "border-blue-500"
+                : "border-transparent"
+            }`}
+            title={`Use ${asset.originalFileName} on the ${panel} cover`}
+          >
+            <img
+              src={`${immichConfig.baseUrl}/assets/${asset.id}/thumbnail?size=thumbnail&apiKey=${immichConfig.apiKey}`}
+              alt={asset.originalFileName}
+              className="w-full h-full object-cover"
+              loading="lazy"
+            />
+          </button>
+        ))}
+      </div>
+
+      {/* Wraparound cover preview */}
+      <div className="overflow-x-auto">
+        <div
+          className="relative bg-white shadow-lg mx-auto border border-gray-200 overflow-hidden"
+          style={{
+            width: `${toPoints(layout.width)}px`,
+            height: `${toPoints(layout.height)}px`,
+          }}
+        >
+          {photo && (
+            <img
+              src={`${immichConfig.baseUrl}/assets/${photo.id}/thumbnail?size=preview&apiKey=${immichConfig.apiKey}`}
+              alt={photo.originalFileName}
+              className="absolute object-cover"
+              style={{
+                left: `${toPoints(front.x)}px`,
+                top: `${toPoints(front.y)}px`,
+                width: `${toPoints(front.width)}px`,
+                height: `${toPoints(front.height)}px`,
+              }}
+            />
+          )}
+
+          {(title || subtitle) && (
+            <div
+              className="absolute bg-white/70 text-black text-center"
+              style={{
+                left: `${toPoints(front.x)}px`,
+                right: `${toPoints(wrap)}px`,
+                bottom: `${toPoints(wrap) + COVER_TITLE_FONT_SIZE}px`,
+                padding: `${COVER_SUBTITLE_FONT_SIZE}px 0`,
+              }}
+            >
+              {title && (
+                <div
+                  className="font-medium"
+                  style={{
+                    fontSize: `${COVER_TITLE_FONT_SIZE}px`,
+                    lineHeight: 1.2,
+                  }}
+                >
+                  {title}
+                </div>
+              )}
+              {subtitle && (
+                <div
+                  style={{
+                    fontSize: `${COVER_SUBTITLE_FONT_SIZE}px`,
+                    lineHeight: 1.2,
+                    marginTop: `${COVER_SUBTITLE_FONT_SIZE * 0.5}px`,
+                  }}
+                >
+                  {subtitle}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Spine */}
+          <div
+            className="absolute bg-gray-100 border-l border-r border-dashed border-gray-300"
+            style={{
+              left: `${toPoints(spine.x)}px`,
+              top: 0,
+              width: `${toPoints(spine.width)}px`,
+              height: "100%",
+            }}
+          />
+          {title && spineTextSize && (
+            <div
+              className="absolute flex items-center justify-center text-black whitespace-nowrap"
+              style={{
+                left: `${toPoints(spine.x + spine.width / 2 - spine.height / 2)}px`,
+                top: `${toPoints(spine.height / 2 - spine.width / 2)}px`,
+                width: `${toPoints(spine.height)}px`,
+                height: `${toPoints(spine.width)}px`,
+                transform: "rotate(90deg)",
+                fontSize: `${spineTextSize}px`,
+                lineHeight: 1,
+              }}
+            >
+              {title}
+            </div>
+          )}
+
+          {/* Back panel, labeled while empty */}
+          {backPhoto ? (
+            <img
+              src={`${immichConfig.baseUrl}/assets/${backPhoto.id}/thumbnail?size=preview&apiKey=${immichConfig.apiKey}`}
+              alt={backPhoto.originalFileName}
+              className="absolute object-cover"
+              style={{
+                left: `${toPoints(back.x)}px`,
+                top: `${toPoints(back.y)}px`,
+                width: `${toPoints(back.width)}px`,
+                height: `${toPoints(back.height)}px`,
+              }}
+            />
+          ) : (
+            !config.backText && (
+              <div
+                className="absolute flex items-center justify-center text-xs text-gray-400 pointer-events-none"
+                style={{
+                  left: 0,
+                  top: 0,
+                  width: `${toPoints(back.width)}px`,
+                  height: "100%",
+                }}
+              >
+                Back
+              </div>
+            )
+          )}
+          {config.backText && (
+            <div
+              className="absolute bg-white/70 text-black whitespace-pre-wrap"
+              style={{
+                left: `${toPoints(wrap) + COVER_TITLE_FONT_SIZE}px`,
+                width: `${toPoints(back.width - wrap) - COVER_TITLE_FONT_SIZE * 2}px`,
+                top: `${toPoints(wrap) + COVER_TITLE_FONT_SIZE}px`,
+                padding: `${COVER_BACK_TEXT_FONT_SIZE}px`,
+                fontSize: `${COVER_BACK_TEXT_FONT_SIZE}px`,
+                lineHeight: 1.4,
+              }}
+            >
+              {config.backText}
+            </div>
+          )}
+          {sharedLinkUrl && (
+            <div
+              className="absolute"
+              style={{
+                left: `${toPoints(wrap)}px`,
+                top: `${toPoints(wrap)}px`,
+                width: `${toPoints(back.width - wrap)}px`,
+                height: `${toPoints(back.height - wrap * 2)}px`,
+              }}
+            >
+              <LinkCard
+                card={linkCard(
+                  { width: back.width - wrap, height: back.height - wrap * 2 },
+                  "bottom-center",
+                )}
+                url={sharedLinkUrl}
+              />
+            </div>
+          )}
+          {wrap > 0 && (
+            <div
+              className="absolute border border-dashed border-red-300 pointer-events-none"
+              style={{
+                left: `${toPoints(wrap)}px`,
+                top: `${toPoints(wrap)}px`,
+                right: `${toPoints(wrap)}px`,
+                bottom: `${toPoints(wrap)}px`,
+              }}
+              title="Trim box"
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CoverEditor;
@@ -0,0 +1,111 @@
+import { useState } from "react";
+import Icon from "@mdi/react";
+import { mdiCheck, mdiFaceRecognition } from "@mdi/js";
+import { MAX_ZOOM, type CropRect, type PhotoCrop } from "../utils/photoCrop";
+
+interface CropEditorProps {
+  crop: PhotoCrop;
+  rect: CropRect; // currently visible part of the image
+  onChange: (crop: PhotoCrop) => void;
+  onSuggest: () => void; // go back to the default focal point
+  onClose: () => void;
+}
+
+// Overlay on a photo in the live preview: drag to move the image in its box,
+// scroll or use the slider to zoom
+function CropEditor({
+  crop,
+  rect,
+  onChange,
+  onSuggest,
+  onClose,
+}: CropEditorProps) {
+  const [dragStart, setDragStart] = useState<{
+    clientX: number;
+    clientY: number;
+    crop: PhotoCrop;
+    rect: CropRect;
+    width: number;
+    height: number;
+  } | null>(null);
+
+  const setZoom = (zoom: number) =>
+    onChange({ ...crop, zoom: Math.max(1, Math.min(MAX_ZOOM, zoom)) });
+
+  return (
+    <div
+      className={`absolute inset-0 z-30 ring-2 ring-inset ring-yellow-400 ${
+        dragStart ? "cursor-grabbing" : "cursor-grab"
+      }`}
+      onMouseDown={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        const bounds = e.currentTarget.getBoundingClientRect();
+        setDragStart({
+          clientX: e.clientX,
+          clientY: e.clientY,
+          crop,
+          rect,
+          width: bounds.width,
+          height: bounds.height,
+        });
+      }}
+      onMouseMove={(e) => {
+        if (!dragStart) return;
+        // Moving the image right moves the focal point left
+        const { rect: start } = dragStart;
+        const dx =
+          ((e.clientX - dragStart.clientX) / dragStart.width) * start.width;
+        const dy =
+          ((e.clientY - dragStart.clientY) / dragStart.height) * start.height;
+        onChange({
+          ...dragStart.crop,
+          focusX: Math.max(
+            start.width / 2,
+            Math.min(1 - start.width / 2, start.x + start.width / 2 - dx),
+          ),
+          focusY: Math.max(
+            start.height / 2,
+            Math.min(1 - start.height / 2, start.y + start.height / 2 - dy),
+          ),
+        });
+      }}
+      onMouseUp={() => setDragStart(null)}
+      onMouseLeave={() => setDragStart(null)}
+      onWheel={(e) => setZoom(crop.zoom * (e.deltaY < 0 ? 1.1 : 1 / 1.1))}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div
+        className="absolute top-2 left-2 right-2 flex items-center gap-1 bg-white/90 rounded shadow px-1 py-0.5 cursor-default"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <input
+          type="range"
+          min="1"
+          max={MAX_ZOOM}
+          step="0.05"
+          value={crop.zoom}
+          onChange={(e) => setZoom(Number(e.target.value))}
+          className="flex-1 min-w-0 h-3"
+          title="Zoom"
+        />
+        <button
+          onClick={onSuggest}
+          className="p-0.5 rounded text-gray-700 hover:bg-gray-200"
+          title="Focus on faces (or centre)"
+        >
+          <Icon path={mdiFaceRecognition} size={0.6} />
+        </button>
+        <button
+          onClick={onClose}
+          className="p-0.5 rounded bg-yellow-400 text-black hover:bg-yellow-500"
+          title="Done"
+        >
+          <Icon path={mdiCheck} size={0.6} />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default CropEditor;
@@ -0,0 +1,139 @@
+import { useState } from "react";
+import type { AssetResponseDto } from "@immich/sdk";
+import type { SortStrategy } from "../utils/assetSort";
+import {
+  DEFAULT_DUPLICATE_OPTIONS,
+  duplicateGroups,
+  suggestExclusions,
+  thumbnailHashes,
+} from "../utils/curation";
+import type { ImmichConfig } from "./ConnectionForm";
+
+interface CurationPanelProps {
+  immichConfig: ImmichConfig;
+  assets: AssetResponseDto[]; // candidates, including the excluded ones
+  excludedAssetIds: string[];
+  onChange: (excludedAssetIds: string[]) => void;
+  // Clock of the photos, to find bursts taken shortly after each other
+  sortStrategy: SortStrategy;
+  cameraOffsets: Record<string, number>;
+  photosPerPage: number; // of the current layout, to estimate page counts
+}
+
+// Selection of the photos for the book: near-duplicates and a target size
+function CurationPanel({
+  immichConfig,
+  assets,
+  excludedAssetIds,
+  onChange,
+  sortStrategy,
+  cameraOffsets,
+  photosPerPage,
+}: CurationPanelProps) {
+  const [maxGapSeconds, setMaxGapSeconds] = useState(
+    DEFAULT_DUPLICATE_OPTIONS.maxGapSeconds,
+  );
+  const [targetPages, setTargetPages] = useState<number | null>(null);
+  const [hashes, setHashes] = useState<Map<string, string> | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const options = { ...DEFAULT_DUPLICATE_OPTIONS, maxGapSeconds };
+  const groups = hashes
+    ? duplicateGroups(assets, hashes, sortStrategy, cameraOffsets, options)
+    : null;
+  const excluded = new Set(excludedAssetIds);
+  const includedCount = assets.filter(
+    (asset) => !excluded.has(asset.id),
+  ).length;
+  const targetCount =
+    targetPages === null ? null : Math.round(targetPages * photosPerPage);
+
+  const handleSuggest = async () => {
+    // Hashes are cached, only new photos are loaded
+    setProgress(0);
+    const current = await thumbnailHashes(immichConfig, assets, setProgress);
+    setProgress(null);
+    setHashes(current);
+    onChange(
+      suggestExclusions(
+        assets,
+        duplicateGroups(assets, current, sortStrategy, cameraOffsets, options),
+        targetCount,
+        sortStrategy,
+        cameraOffsets,
+      ),
+    );
+  };
+
+  return (
+    <div className="p-2 bg-gray-50 rounded border border-gray-300 space-y-2 text-xs">
+      <div className="flex flex-wrap items-center gap-2 sm:gap-3">
+        <h3 className="font-semibold text-gray-700 sm:w-28">Curation</h3>
+        <label className="flex items-center gap-1 text-gray-600">
+          Bursts within
+          <input
+            type="number"
+            value={maxGapSeconds}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (!isNaN(value) && value >= 0) setMaxGapSeconds(value);
+            }}
+            min="0"
+            step="1"
+            className="px-1 py-0.5 w-12 border border-gray-300 rounded"
+            title="Similar photos taken within this many seconds of each other are near-duplicates"
+          />
+          seconds
+        </label>
+        <label className="flex items-center gap-1 text-gray-600">
+          Target:
+          <input
+            type="number"
+            value={targetPages ?? ""}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              setTargetPages(e.target.value && value > 0 ? value : null);
+            }}
+            min="1"
+            step="1"
+            placeholder="any"
+            className="px-1 py-0.5 w-14 border border-gray-300 rounded"
+            title="Leave out more photos until the book has about this many pages"
+          />
+          pages
+          {targetCount !== null && (
+            <span className="text-gray-500">(about {targetCount} photos)</span>
+          )}
+        </label>
+        <button
+          onClick={handleSuggest}
+          disabled={progress !== null}
+          className="px-2 py-0.5 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors font-medium"
+          title="Keep the best shot of each group of near-duplicates (favorites and rating first) and leave out the others"
+        >
+          {progress !== null
+            ? `Comparing ${progress}/${assets.length}...`
+            : "Suggest Selection"}
+        </button>
+        {excludedAssetIds.length > 0 && (
+          <button
+            onClick={() => onChange([])}
+            className="px-2 py-0.5 bg-red-500 hover:bg-red-600 text-white rounded-md transition-colors font-medium"
+          >
+            Include All
+          </button>
+        )}
+      </div>
+
+      {groups && (
+        <p className="text-gray-500">
+          {groups.length} groups of near-duplicates with{" "}
+          {groups.reduce((count, group) => count + group.length, 0)} photos,{" "}
+          {includedCount} of {assets.length} photos in the book.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default CurationPanel;
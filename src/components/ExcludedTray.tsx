@@ -0,0 +1,61 @@
+import { useState } from "react";
+import type { AssetResponseDto } from "@immich/sdk";
+import Icon from "@mdi/react";
+import { mdiChevronDown, mdiChevronRight, mdiPlus } from "@mdi/js";
+import type { ImmichConfig } from "./ConnectionForm";
+
+interface ExcludedTrayProps {
+  immichConfig: ImmichConfig;
+  assets: AssetResponseDto[]; // excluded assets, in book order
+  onInclude: (assetIds: string[]) => void;
+}
+
+// Collapsible tray with the photos left out of the book, to put them back
+function ExcludedTray({ immichConfig, assets, onInclude }: ExcludedTrayProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="p-2 bg-gray-50 rounded border border-gray-300 text-xs">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center gap-1 font-semibold text-gray-700"
+        >
+          <Icon path={isOpen ? mdiChevronDown : mdiChevronRight} size={0.6} />
+          Excluded ({assets.length})
+        </button>
+        <button
+          onClick={() => onInclude(assets.map((asset) => asset.id))}
+          className="px-2 py-0.5 rounded border border-gray-300 bg-white hover:bg-gray-100"
+        >
+          Include All
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {assets.map((asset) => (
+            <button
+              key={asset.id}
+              onClick={() => onInclude([asset.id])}
+              className="relative group h-16 rounded overflow-hidden border border-gray-300"
+              title={`${asset.originalFileName} (click to include)`}
+            >
+              <img
+                src={`${immichConfig.baseUrl}/assets/${asset.id}/thumbnail?size=thumbnail&apiKey=${immichConfig.apiKey}`}
+                alt={asset.originalFileName}
+                loading="lazy"
+                className="h-full w-auto opacity-60 group-hover:opacity-100 transition-opacity"
+              />
+              <span className="absolute top-0.5 right-0.5 p-0.5 rounded bg-white/80 text-gray-700 opacity-0 group-hover:opacity-100">
+                <Icon path={mdiPlus} size={0.5} />
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ExcludedTray;
@@ -0,0 +1,158 @@
+import { useState } from "react";
+import type { AssetResponseDto } from "@immich/sdk";
+import Icon from "@mdi/react";
+import { mdiClose, mdiEye } from "@mdi/js";
+import {
+  bookPeople,
+  hideMatching,
+  isArchived,
+  isRatedBelow,
+  isScreenshot,
+  showsPerson,
+} from "../utils/hiddenAssets";
+import type { ImmichConfig } from "./ConnectionForm";
+
+interface HiddenSidebarProps {
+  immichConfig: ImmichConfig;
+  assets: AssetResponseDto[]; // all assets of the book
+  hiddenAssetIds: string[];
+  onChange: (hiddenAssetIds: string[]) => void;
+  onClose: () => void;
+}
+
+// Sidebar with the photos hidden from the book, to hide photos in bulk and
+// show them again. The Immich album is not changed.
+function HiddenSidebar({
+  immichConfig,
+  assets,
+  hiddenAssetIds,
+  onChange,
+  onClose,
+}: HiddenSidebarProps) {
+  const [minRating, setMinRating] = useState(1);
+  const [personId, setPersonId] = useState("");
+
+  const hidden = new Set(hiddenAssetIds);
+  const visible = assets.filter((asset) => !hidden.has(asset.id));
+  const hiddenAssets = assets.filter((asset) => hidden.has(asset.id));
+  const people = bookPeople(assets);
+
+  // Bulk action with the number of photos it would hide
+  const bulkAction = (
+    label: string,
+    matches: (asset: AssetResponseDto) => boolean,
+  ) => {
+    const count = visible.filter(matches).length;
+    return (
+      <button
+        onClick={() => onChange(hideMatching(hiddenAssetIds, assets, matches))}
+        disabled={count === 0}
+        className="px-2 py-0.5 rounded border border-gray-300 bg-white hover:bg-gray-100 disabled:text-gray-400 disabled:hover:bg-white"
+      >
+        {label} ({count})
+      </button>
+    );
+  };
+
+  return (
+    <div className="fixed top-0 right-0 z-40 h-full w-72 bg-white border-l border-gray-300 shadow-lg flex flex-col text-xs">
+      <div className="flex items-center justify-between p-2 border-b border-gray-200">
+        <h3 className="font-semibold text-gray-700">
+          Hidden Photos ({hiddenAssets.length})
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-0.5 rounded text-gray-700 hover:bg-gray-200"
+          title="Close"
+        >
+          <Icon path={mdiClose} size={0.7} />
+        </button>
+      </div>
+
+      <div className="p-2 space-y-2 border-b border-gray-200">
+        <div className="flex flex-wrap gap-1">
+          {bulkAction("Hide Screenshots", isScreenshot)}
+          {bulkAction("Hide Archived", isArchived)}
+        </div>
+        <div className="flex items-center gap-1">
+          {bulkAction("Hide Rated Below", (asset) =>
+            isRatedBelow(asset, minRating),
+          )}
+          <select
+            value={minRating}
+            onChange={(e) => setMinRating(Number(e.target.value))}
+            className="px-1 py-0.5 border border-gray-300 rounded"
+            title="Unrated photos count as rated 0"
+          >
+            {[1, 2, 3, 4, 5].map((rating) => (
+              <option key={rating} value={rating}>
+                {"★".repeat(rating)}
+              </option>
+            ))}
+          </select>
+        </div>
+        {people.length > 0 ? (
+          <div className="flex items-center gap-1">
+            <select
+              value={personId}
+              onChange={(e) => setPersonId(e.target.value)}
+              className="flex-1 min-w-0 px-1 py-0.5 border border-gray-300 rounded"
+            >
+              <option value="">Person...</option>
+              {people.map((person) => (
+                <option key={person.id} value={person.id}>
+                  {person.name} ({person.count})
+                </option>
+              ))}
+            </select>
+            {personId &&
+              bulkAction("Hide", (asset) => showsPerson(asset, personId))}
+          </div>
+        ) : (
+          <p className="text-gray-400">No named people in the photos</p>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {hiddenAssets.length === 0 ? (
+          <p className="text-gray-500">
+            No hidden photos. Hide photos with the eye button in the preview.
+          </p>
+        ) : (
+          <>
+            <button
+              onClick={() => onChange([])}
+              className="px-2 py-0.5 bg-red-500 hover:bg-red-600 text-white rounded-md transition-colors font-medium"
+            >
+              Show All
+            </button>
+            {hiddenAssets.map((asset) => (
+              <div key={asset.id} className="flex items-center gap-2">
+                <img
+                  src={`${immichConfig.baseUrl}/assets/${asset.id}/thumbnail?size=thumbnail&apiKey=${immichConfig.apiKey}`}
+                  alt={asset.originalFileName}
+                  loading="lazy"
+                  className="w-12 h-12 object-cover rounded"
+                />
+                <span className="flex-1 min-w-0 truncate text-gray-700">
+                  {asset.originalFileName}
+                </span>
+                <button
+                  onClick={() =>
+                    onChange(hiddenAssetIds.filter((id) => id !== asset.id))
+                  }
+                  className="p-0.5 rounded text-gray-700 hover:bg-gray-200"
+                  title="Show in the book again"
+                >
+                  <Icon path={mdiEye} size={0.6} />
+                </button>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default HiddenSidebar;
@@ -0,0 +1,43 @@
+import { toPoints } from "../utils/pageLayout";
+import { urlLines, type LinkCard as LinkCardBox } from "../utils/sharedLinks";
+import QrCodeSvg from "./QrCodeSvg";
+
+interface LinkCardProps {
+  card: LinkCardBox;
+  url: string;
+}
+
+// QR code and short URL of the shared link in the live preview, positioned
+// in the area the card was placed in
+function LinkCard({ card, url }: LinkCardProps) {
+  return (
+    <div
+      className="absolute flex items-center bg-white text-black rounded-sm pointer-events-none"
+      style={{
+        left: `${toPoints(card.x)}px`,
+        top: `${toPoints(card.y)}px`,
+        width: `${toPoints(card.width)}px`,
+        height: `${toPoints(card.height)}px`,
+        padding: `${toPoints(card.padding)}px`,
+        gap: `${toPoints(card.padding)}px`,
+      }}
+    >
+      <QrCodeSvg
+        text={url}
+        className="flex-shrink-0"
+        style={{
+          width: `${toPoints(card.qrSize)}px`,
+          height: `${toPoints(card.qrSize)}px`,
+        }}
+      />
+      <span
+        className="whitespace-pre"
+        style={{ fontSize: `${card.fontSize}px`, lineHeight: 1.2 }}
+      >
+        {urlLines(url, card.lineLength).join("\n")}
+      </span>
+    </div>
+  );
+}
+
+export default LinkCard;
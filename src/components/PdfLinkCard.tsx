@@ -0,0 +1,76 @@
+import type { ComponentProps } from "react";
+import { Path, Rect, Svg, Text, View } from "@react-pdf/renderer";
+import { toPoints } from "../utils/pageLayout";
+import { qrCodePath } from "../utils/qrCode";
+import { urlLines, type LinkCard } from "../utils/sharedLinks";
+
+// QR code in the PDF, as vector graphic
+export function PdfQrCode({
+  text,
+  style,
+}: {
+  text: string;
+  style: ComponentProps<typeof Svg>["style"];
+}) {
+  const qr = qrCodePath(text);
+  return (
+    <Svg viewBox={`0 0 ${qr.size} ${qr.size}`} style={style}>
+      <Rect x="0" y="0" width={qr.size} height={qr.size} fill="white" />
+      <Path d={qr.path} fill="black" />
+    </Svg>
+  );
+}
+
+// QR code and short URL of the shared link, positioned in the area the card
+// was placed in (offset by its position in points)
+function PdfLinkCard({
+  card,
+  url,
+  left = 0,
+  top = 0,
+}: {
+  card: LinkCard;
+  url: string;
+  left?: number;
+  top?: number;
+}) {
+  return (
+    <View
+      style={{
+        position: "absolute",
+        left: left + toPoints(card.x),
+        top: top + toPoints(card.y),
+        width: toPoints(card.width),
+        height: toPoints(card.height),
+        padding: toPoints(card.padding),
+        display: "flex",
+        flexDirection: "row",
+        alignItems: "center",
+        backgroundColor: "white",
+      }}
+    >
+      <PdfQrCode
+        text={url}
+        style={{
+          width: toPoints(card.qrSize),
+          height: toPoints(card.qrSize),
+          flexShrink: 0,
+        }}
+      />
+      <Text
+        hyphenationCallback={(word) => [word]}
+        style={{
+          flex: 1,
+          marginLeft: toPoints(card.padding),
+          fontFamily: "Roboto",
+          fontSize: card.fontSize,
+          lineHeight: 1.2,
+        }}
+      >
+        {urlLines(url, card.lineLength).join("\n")}
+      </Text>
+    </View>
+  );
+}
+
+export default PdfLinkCard;
@@ -1,32 +1,129 @@
 import { useState, useEffect, useMemo } from "react";
+import type { AssetResponseDto } from "@immich/sdk";
+import { Font } from "@react-pdf/renderer";
 import {
-  getAlbumInfo,
-  type AlbumResponseDto,
-  type AssetResponseDto,
-} from "@immich/sdk";
-import {
-  PDFViewer,
-  Document,
-  Page,
-  Image,
-  View,
-  Text,
-  StyleSheet,
-  Font,
-} from "@react-pdf/renderer";
-import {
-  calculatePageLayout,
   PAGE_SIZES,
+  mmToPixels,
+  toPoints,
   type PageAlignment,
+  type PageBreak,
+  type PageStats,
+  type VerticalFill,
 } from "../utils/pageLayout";
+import {
+  clearPrintImageCache,
+  loadPrintImage,
+  type PrintImageSource,
+} from "../utils/printImages";
+import { calculateCoverLayout, type CoverConfig } from "../utils/coverLayout";
+import {
+  getPageTemplate,
+  PAGE_TEMPLATES,
+  type PageTemplateId,
+} from "../utils/pageTemplates";
+import {
+  defaultSectionMarker,
+  generateSections,
+  resolveSections,
+  type SectionMarker,
+  type SectionMode,
+} from "../utils/sections";
+import { createTextBlock, type TextBlock } from "../utils/textBlocks";
+import { cropRect, defaultCrop, type PhotoCrop } from "../utils/photoCrop";
+import {
+  GUTTER_SAFE_ZONE_MM,
+  endsPhoto,
+  gutterFaces,
+  isSpreadHalf,
+  photoBoxCrop,
+  spreadGutter,
+} from "../utils/spreadPhotos";
+import {
+  assetPageUrl,
+  videoOverlay,
+  type VideoFrame,
+} from "../utils/videoFrames";
+import { photoLinkCard, type SharedLinkConfig } from "../utils/sharedLinks";
+import {
+  CAPTION_HELP,
+  createCaptions,
+  renderCaption,
+  type DateFormat,
+} from "../utils/captions";
+import { loadBookAssets, type Book } from "../utils/bookSource";
+import { bookCameras, sortAssets, type SortStrategy } from "../utils/assetSort";
+import {
+  assetAspectRatio,
+  thumbnailProbe,
+  withProbedDimensions,
+} from "../utils/aspectRatio";
+import {
+  loadBookConfig,
+  saveBookConfig,
+  type BookConfig,
+  type Position,
+} from "../utils/bookConfig";
+import {
+  applyOrdering,
+  filterAssets,
+  withoutExcluded,
+  layoutPages,
+} from "../utils/bookLayout";
+import {
+  createProjectFile,
+  downloadProjectFile,
+  parseProjectFile,
+  PROJECT_FILE_EXTENSION,
+} from "../utils/projectFile";
+import { useConfigSync } from "../hooks/useConfigSync";
+import { useConfigHistory } from "../hooks/useConfigHistory";
+import { useVideoFrameUrls } from "../hooks/useVideoFrameUrls";
+import { usePhotoSelection } from "../hooks/usePhotoSelection";
 import type { ImmichConfig } from "./ConnectionForm";
+import PrintPdfViewer from "./PrintPdfViewer";
+import BookDocument from "./BookDocument";
+import CoverEditor from "./CoverEditor";
+import CoverDocument from "./CoverDocument";
+import SectionPagePreview from "./SectionPagePreview";
+import TextBlockPreview from "./TextBlockPreview";
+import CropEditor from "./CropEditor";
+import VideoFramePicker from "./VideoFramePicker";
+import VideoFrameOverlay from "./VideoFrameOverlay";
+import CaptionEditor from "./CaptionEditor";
+import ServerSyncStatus from "./ServerSyncStatus";
+import SnapshotPanel from "./SnapshotPanel";
+import SharedLinkPanel from "./SharedLinkPanel";
+import CurationPanel from "./CurationPanel";
+import ExcludedTray from "./ExcludedTray";
+import HiddenSidebar from "./HiddenSidebar";
+import CameraClockPanel from "./CameraClockPanel";
+import SelectionBar from "./SelectionBar";
+import PhotoSorter from "./PhotoSorter";
+import LinkCard from "./LinkCard";
 import roboto400 from "@fontsource/roboto/files/roboto-latin-400-normal.woff?url";
+import roboto400Italic from "@fontsource/roboto/files/roboto-latin-400-italic.woff?url";
 import roboto500 from "@fontsource/roboto/files/roboto-latin-500-normal.woff?url";
+import roboto500Italic from "@fontsource/roboto/files/roboto-latin-500-italic.woff?url";
+import roboto700 from "@fontsource/roboto/files/roboto-latin-700-normal.woff?url";
+import roboto700Italic from "@fontsource/roboto/files/roboto-latin-700-italic.woff?url";
 import Icon from "@mdi/react";
 import {
   mdiFormatAlignLeft,
   mdiFormatAlignCenter,
   mdiFormatAlignRight,
+  mdiAlert,
+  mdiBookmarkOutline,
+  mdiBookOpenVariant,
+  mdiCommentTextOutline,
+  mdiCrop,
+  mdiEyeOff,
+  mdiFormatPageBreak,
+  mdiLinkVariant,
+  mdiRedo,
+  mdiTextBoxPlusOutline,
+  mdiUndo,
+  mdiQrcode,
+  mdiVideoImage,
 } from "@mdi/js";
 
 // Register Roboto font for PDF using local bundled files
@@ -34,199 +131,20 @@ Font.register({
   family: "Roboto",
   fonts: [
     { src: roboto400, fontWeight: 400 },
+    { src: roboto400Italic, fontWeight: 400, fontStyle: "italic" },
     { src: roboto500, fontWeight: 500 },
+    { src: roboto500Italic, fontWeight: 500, fontStyle: "italic" },
+    { src: roboto700, fontWeight: 700 },
+    { src: roboto700Italic, fontWeight: 700, fontStyle: "italic" },
   ],
 });
 
 interface PhotoGridProps {
   immichConfig: ImmichConfig;
-  album: AlbumResponseDto;
+  book: Book;
   onBack: () => void;
 }
 
-type Position = "bottom" | "top" | "left" | "right";
-
-interface GlobalConfig {
-  // Page settings
-  pageSize: "A4" | "LETTER" | "A3" | "CUSTOM";
-  orientation: "portrait" | "landscape";
-  pageWidth: number;
-  pageHeight: number;
-  margin: number;
-  combinePages: boolean;
-
-  // Layout settings
-  rowHeight: number;
-  spacing: number;
-  filterVideos: boolean;
-
-  // Display settings
-  showDates: boolean;
-  showDescriptions: boolean;
-  fontSize: number;
-}
-
-interface AlbumConfig extends GlobalConfig {
-  // Customizations (album-specific only)
-  customAspectRatios: Record<string, number>;
-  customOrdering: string[] | null;
-  descriptionPositions: Record<string, Position>;
-  pageAlignments: Record<number, PageAlignment>;
-}
-
-const DEFAULT_GLOBAL_CONFIG: GlobalConfig = {
-  pageSize: "CUSTOM",
-  orientation: "portrait",
-  pageWidth: 2515,
-  pageHeight: 3260,
-  margin: 118,
-  combinePages: true,
-  rowHeight: 994,
-  spacing: 20,
-  filterVideos: true,
-  showDates: true,
-  showDescriptions: true,
-  fontSize: 12,
-};
-
-// Helper functions for config persistence
-function loadGlobalConfig(): GlobalConfig {
-  try {
-    const stored = localStorage.getItem("immich-book-global-config");
-    if (stored) {
-      return { ...DEFAULT_GLOBAL_CONFIG, ...JSON.parse(stored) };
-    }
-  } catch (e) {
-    console.error("Failed to load global config:", e);
-  }
-  return DEFAULT_GLOBAL_CONFIG;
-}
-
-function saveGlobalConfig(config: GlobalConfig) {
-  try {
-    localStorage.setItem("immich-book-global-config", JSON.stringify(config));
-  } catch (e) {
-    console.error("Failed to save global config:", e);
-  }
-}
-
-function loadAlbumConfig(albumId: string): AlbumConfig {
-  const globalConfig = loadGlobalConfig();
-
-  try {
-    const stored = localStorage.getItem(`immich-book-config-${albumId}`);
-    if (stored) {
-      const albumSpecific = JSON.parse(stored);
-      return {
-        ...globalConfig,
-        customAspectRatios: {},
-        customOrdering: null,
-        descriptionPositions: {},
-        pageAlignments: {},
-        ...albumSpecific,
-      };
-    }
-  } catch (e) {
-    console.error("Failed to load album config:", e);
-  }
-
-  return {
-    ...globalConfig,
-    customAspectRatios: {},
-    customOrdering: null,
-    descriptionPositions: {},
-    pageAlignments: {},
-  };
-}
-
-function saveAlbumConfig(albumId: string, config: AlbumConfig) {
-  try {
-    localStorage.setItem(
-      `immich-book-config-${albumId}`,
-      JSON.stringify(config),
-    );
-
-    // Also update global config with page and layout settings
-    const globalConfig: GlobalConfig = {
-      pageSize: config.pageSize,
-      orientation: config.orientation,
-      pageWidth: config.pageWidth,
-      pageHeight: config.pageHeight,
-      margin: config.margin,
-      combinePages: config.combinePages,
-      rowHeight: config.rowHeight,
-      spacing: config.spacing,
-      filterVideos: config.filterVideos,
-      showDates: config.showDates,
-      showDescriptions: config.showDescriptions,
-      fontSize: config.fontSize,
-    };
-    saveGlobalConfig(globalConfig);
-  } catch (e) {
-    console.error("Failed to save album config:", e);
-  }
-}
-
-// Convert 300 DPI pixels to 72 DPI points for PDF
-// At 300 DPI: 1 inch = 300 pixels
-// At 72 DPI: 1 inch = 72 points
-// Conversion: points = pixels * (72/300)
-const toPoints = (pixels: number) => pixels * (72 / 300);
-
-// Static styles for the PDF
-const staticStyles = StyleSheet.create({
-  page: {
-    backgroundColor: "white",
-  },
-  photoContainer: {
-    position: "absolute",
-  },
-  photo: {
-    width: "100%",
-    height: "100%",
-    objectFit: "cover",
-  },
-});
-
-// Dynamic styles based on font size
-const createDynamicStyles = (fontSize: number) => {
-  const basePadding = fontSize * 0.67;
-
-  return {
-    // Common text style
-    text: {
-      color: "black",
-      fontSize: fontSize,
-      fontFamily: "Roboto",
-      lineHeight: 1,
-      letterSpacing: 0.2,
-    },
-    // Date overlay styles
-    dateOverlay: {
-      backgroundColor: "rgba(255, 255, 255, 0.7)",
-      paddingHorizontal: basePadding,
-      paddingVertical: basePadding * 0.5,
-      borderRadius: basePadding * 0.5,
-    },
-    // Description styles
-    descriptionOverlay: {
-      backgroundColor: "rgba(255, 255, 255, 0.7)",
-      color: "black",
-      fontSize: fontSize,
-      padding: basePadding,
-      fontFamily: "Roboto",
-      lineHeight: 1,
-      letterSpacing: 0.2,
-    },
-    descriptionSide: {
-      padding: basePadding,
-      display: "flex",
-      justifyContent: "center",
-      backgroundColor: "#F3F4F6",
-    },
-  };
-};
-
 // Web preview styles
 const createWebStyles = (fontSize: number) => {
   const basePadding = fontSize * 0.67;
@@ -254,17 +172,186 @@ const createWebStyles = (fontSize: number) => {
       padding: `${basePadding}px`,
       lineHeight: 1,
     },
+    // Text block paragraphs, matching the PDF
+    richText: {
+      heading1: {
+        fontWeight: 500,
+        fontSize: `${fontSize * 2}px`,
+        lineHeight: 1.2,
+        marginBottom: `${fontSize}px`,
+      },
+      heading2: {
+        fontWeight: 500,
+        fontSize: `${fontSize * 1.5}px`,
+        lineHeight: 1.2,
+        marginBottom: `${fontSize * 0.75}px`,
+      },
+      paragraph: {
+        whiteSpace: "pre-wrap" as const,
+        fontSize: `${fontSize}px`,
+        lineHeight: 1.4,
+        marginBottom: `${fontSize}px`,
+      },
+    },
   };
 };
 
-function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
+// Per page choice between the justified layout and a template
+function PageTemplateSelect({
+  value,
+  onChange,
+}: {
+  value: PageTemplateId | undefined;
+  onChange: (template: PageTemplateId | undefined) => void;
+}) {
+  return (
+    <select
+      value={value || "justified"}
+      onChange={(e) =>
+        onChange(
+          e.target.value === "justified"
+            ? undefined
+            : (e.target.value as PageTemplateId),
+        )
+      }
+      className={`px-1 py-1 text-xs border rounded ${
+        value
+          ? "border-blue-500 text-blue-700"
+          : "border-gray-300 text-gray-600"
+      }`}
+      title="Page layout"
+    >
+      <option value="justified">Justified</option>
+      {PAGE_TEMPLATES.map((template) => (
+        <option key={template.id} value={template.id}>
+          {template.name}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+// Template slot holding text instead of a photo, only for template pages
+function TextSlotSelect({
+  template,
+  value,
+  onChange,
+}: {
+  template: PageTemplateId | undefined;
+  value: number | undefined;
+  onChange: (slot: number | null) => void;
+}) {
+  const slots = getPageTemplate(template)?.slots;
+  if (!slots) return null;
+  return (
+    <select
+      value={value ?? ""}
+      onChange={(e) =>
+        onChange(e.target.value === "" ? null : Number(e.target.value))
+      }
+      className={`px-1 py-1 text-xs border rounded ${
+        value !== undefined
+          ? "border-blue-500 text-blue-700"
+          : "border-gray-300 text-gray-600"
+      }`}
+      title="Slot with text instead of a photo"
+    >
+      <option value="">No text</option>
+      {slots.map((_, slot) => (
+        <option key={slot} value={slot}>
+          Text in slot {slot + 1}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+// Row height and used page height next to the page number, if it has photos
+function PageStatsLabel({ stats }: { stats: PageStats | undefined }) {
+  if (!stats || (stats.rowHeight === null && stats.fillRatio === 0)) {
+    return null;
+  }
+  return (
+    <span
+      className="text-xs text-gray-500"
+      title="Row height and used fraction of the page height"
+    >
+      {stats.rowHeight !== null && `${Math.round(stats.rowHeight)}px · `}
+      {Math.round(stats.fillRatio * 100)}%
+    </span>
+  );
+}
+
+// Crop marks outside the page and a dashed trim line, in preview (72 DPI) units
+function CropMarks({
+  bleed,
+  width,
+  height,
+}: {
+  bleed: number;
+  width: number;
+  height: number;
+}) {
+  const length = 12;
+  const gap = 2;
+  const marks = [
+    // Horizontal marks continue the top and bottom trim lines
+    { left: -length - gap, top: bleed, width: length, height: 0 },
+    { left: width + gap, top: bleed, width: length, height: 0 },
+    { left: -length - gap, top: height - bleed, width: length, height: 0 },
+    { left: width + gap, top: height - bleed, width: length, height: 0 },
+    // Vertical marks continue the left and right trim lines
+    { left: bleed, top: -length - gap, width: 0, height: length },
+    { left: width - bleed, top: -length - gap, width: 0, height: length },
+    { left: bleed, top: height + gap, width: 0, height: length },
+    { left: width - bleed, top: height + gap, width: 0, height: length },
+  ];
+
+  return (
+    <>
+      <div
+        className="absolute border border-dashed border-red-300 z-10 pointer-events-none"
+        style={{
+          left: `${bleed}px`,
+          top: `${bleed}px`,
+          width: `${width - bleed * 2}px`,
+          height: `${height - bleed * 2}px`,
+        }}
+        title="Trim box"
+      />
+      {marks.map((mark, index) => (
+        <div
+          key={index}
+          className="absolute border-black pointer-events-none"
+          style={{
+            left: `${mark.left}px`,
+            top: `${mark.top}px`,
+            width: `${mark.width}px`,
+            height: `${mark.height}px`,
+            borderTopWidth: mark.height === 0 ? 1 : 0,
+            borderLeftWidth: mark.width === 0 ? 1 : 0,
+          }}
+        />
+      ))}
+    </>
+  );
+}
+
+function PhotoGrid({ immichConfig, book, onBack }: PhotoGridProps) {
   const [assets, setAssets] = useState<AssetResponseDto[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [mode, setMode] = useState<"preview" | "pdf">("preview");
+  const [mode, setMode] = useState<"preview" | "pdf" | "cover">("preview");
+  const [showCoverEditor, setShowCoverEditor] = useState(false);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+  const [showSharedLink, setShowSharedLink] = useState(false);
+  const [showCuration, setShowCuration] = useState(false);
+  const [showHidden, setShowHidden] = useState(false);
+  const [showCameraClocks, setShowCameraClocks] = useState(false);
+  const [showSorter, setShowSorter] = useState(false);
 
   // Load config on mount
-  const initialConfig = useMemo(() => loadAlbumConfig(album.id), [album.id]);
+  const initialConfig = useMemo(() => loadBookConfig(book.id), [book.id]);
 
   // Page settings
   const [pageSize, _setPageSize] = useState<"A4" | "LETTER" | "A3" | "CUSTOM">(
@@ -276,17 +363,34 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
   const [pageWidth, setPageWidth] = useState(initialConfig.pageWidth);
   const [pageHeight, setPageHeight] = useState(initialConfig.pageHeight);
   const [margin, setMargin] = useState(initialConfig.margin);
+  const [bleed, setBleed] = useState(initialConfig.bleed);
   const [combinePages, setCombinePages] = useState(initialConfig.combinePages);
+  const [printImageSource, setPrintImageSource] = useState<PrintImageSource>(
+    initialConfig.printImageSource,
+  );
 
   // Layout settings
   const [rowHeight, setRowHeight] = useState(initialConfig.rowHeight);
   const [spacing, setSpacing] = useState(initialConfig.spacing);
+  const [sortStrategy, setSortStrategy] = useState<SortStrategy>(
+    initialConfig.sortStrategy,
+  );
+  const [verticalFill, setVerticalFill] = useState<VerticalFill>(
+    initialConfig.verticalFill,
+  );
+  const [sectionMode, setSectionMode] = useState<SectionMode>(
+    initialConfig.sectionMode,
+  );
+  const [sectionGapDays, setSectionGapDays] = useState(
+    initialConfig.sectionGapDays,
+  );
   const [filterVideos, setFilterVideos] = useState(initialConfig.filterVideos);
 
   // Validation helpers
   const isPageWidthValid = pageWidth >= 1000 && pageWidth <= 10000;
   const isPageHeightValid = pageHeight >= 1000 && pageHeight <= 10000;
   const isMarginValid = margin >= 0 && margin <= pageWidth / 2;
+  const isBleedValid = bleed >= 0 && bleed <= mmToPixels(10);
   const isRowHeightValid = rowHeight >= 300 && rowHeight <= pageHeight;
   const isSpacingValid = spacing >= 0 && spacing <= 100;
 
@@ -300,6 +404,9 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
   const validMargin = isMarginValid
     ? margin
     : Math.max(0, Math.min(validPageWidth / 2, margin));
+  const validBleed = isBleedValid
+    ? bleed
+    : Math.max(0, Math.min(mmToPixels(10), bleed));
   const validRowHeight = isRowHeightValid
     ? rowHeight
     : Math.max(300, Math.min(validPageHeight, rowHeight));
@@ -313,9 +420,18 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
     initialConfig.showDescriptions,
   );
   const [fontSize, setFontSize] = useState(initialConfig.fontSize);
+  const [captionTemplate, setCaptionTemplate] = useState(
+    initialConfig.captionTemplate,
+  );
+  const [dateTemplate, setDateTemplate] = useState(initialConfig.dateTemplate);
+  const [captionLocale, setCaptionLocale] = useState(
+    initialConfig.captionLocale,
+  );
+  const [dateFormat, setDateFormat] = useState<DateFormat>(
+    initialConfig.dateFormat,
+  );
 
   // Create dynamic styles based on current fontSize
-  const pdfStyles = useMemo(() => createDynamicStyles(fontSize), [fontSize]);
   const webStyles = useMemo(() => createWebStyles(fontSize), [fontSize]);
 
   // Customizations
@@ -339,6 +455,94 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
         ]),
       ),
   );
+  const [pageTemplates, setPageTemplates] = useState<
+    Map<number, PageTemplateId>
+  >(
+    () =>
+      new Map(
+        Object.entries(initialConfig.pageTemplates).map(([k, v]) => [
+          Number(k),
+          v,
+        ]),
+      ),
+  );
+
+  const [pageBreaks, setPageBreaks] = useState<Map<string, PageBreak>>(
+    () => new Map(Object.entries(initialConfig.pageBreaks)),
+  );
+  const [keepTogether, setKeepTogether] = useState<string[][]>(
+    initialConfig.keepTogether,
+  );
+  const [sections, setSections] = useState<Map<string, SectionMarker | null>>(
+    () => new Map(Object.entries(initialConfig.sections)),
+  );
+  const [textBlocks, setTextBlocks] = useState<TextBlock[]>(
+    initialConfig.textBlocks,
+  );
+  const [crops, setCrops] = useState<Map<string, PhotoCrop>>(
+    () => new Map(Object.entries(initialConfig.crops)),
+  );
+  const [videoFrames, setVideoFrames] = useState<Map<string, VideoFrame>>(
+    () => new Map(Object.entries(initialConfig.videoFrames)),
+  );
+  const [captionTemplates, setCaptionTemplates] = useState<Map<string, string>>(
+    () => new Map(Object.entries(initialConfig.captionTemplates)),
+  );
+  const [excludedAssetIds, setExcludedAssetIds] = useState<string[]>(
+    initialConfig.excludedAssetIds,
+  );
+  const [hiddenAssetIds, setHiddenAssetIds] = useState<string[]>(
+    initialConfig.hiddenAssetIds,
+  );
+  const [spreadPhotos, setSpreadPhotos] = useState<string[]>(
+    initialConfig.spreadPhotos,
+  );
+  const [cameraOffsets, setCameraOffsets] = useState<Record<string, number>>(
+    initialConfig.cameraOffsets,
+  );
+  const [cover, setCover] = useState<CoverConfig>(initialConfig.cover);
+  const [sharedLink, setSharedLink] = useState<SharedLinkConfig>(
+    initialConfig.sharedLink,
+  );
+
+  // Result of the last project import, if there is something to report
+  const [importReport, setImportReport] = useState<string | null>(null);
+
+  // Photo whose crop is being edited in the preview
+  const [cropEditAssetId, setCropEditAssetId] = useState<string | null>(null);
+
+  // Video whose printed frame is being picked in the preview
+  const [frameEditAssetId, setFrameEditAssetId] = useState<string | null>(null);
+
+  // Photo whose caption template is being edited in the preview
+  const [captionEditAssetId, setCaptionEditAssetId] = useState<string | null>(
+    null,
+  );
+
+  // Rendered captions and date labels, shared by the preview and the PDF
+  const captions = useMemo(
+    () =>
+      createCaptions(
+        {
+          captionTemplate,
+          dateTemplate,
+          captionLocale,
+          dateFormat,
+          sortStrategy,
+          cameraOffsets,
+        },
+        captionTemplates,
+      ),
+    [
+      captionTemplate,
+      dateTemplate,
+      captionLocale,
+      dateFormat,
+      sortStrategy,
+      cameraOffsets,
+      captionTemplates,
+    ],
+  );
 
   // Drag state for reordering
   const [reorderDragState, setReorderDragState] = useState<{
@@ -347,6 +551,18 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
   } | null>(null);
   const [dropTargetIndex, setDropTargetIndex] = useState<number | null>(null);
 
+  // Lasso for selecting photos on a page, in display pixels of the page
+  const [lasso, setLasso] = useState<{
+    pageNumber: number;
+    originX: number; // page position on screen
+    originY: number;
+    startX: number;
+    startY: number;
+    x: number;
+    y: number;
+    additive: boolean;
+  } | null>(null);
+
   // Drag state for aspect ratio adjustment
   const [aspectDragState, setAspectDragState] = useState<{
     assetId: string;
@@ -367,86 +583,228 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
   }, [pageSize, orientation]);
 
   useEffect(() => {
-    loadAlbumAssets();
+    loadAssets();
 
     // Clean up old localStorage keys (migration)
-    localStorage.removeItem(`immich-book-aspect-ratios-${album.id}`);
-    localStorage.removeItem(`immich-book-ordering-${album.id}`);
-    localStorage.removeItem(`immich-book-description-positions-${album.id}`);
-  }, [album.id]);
+    localStorage.removeItem(`immich-book-aspect-ratios-${book.id}`);
+    localStorage.removeItem(`immich-book-ordering-${book.id}`);
+    localStorage.removeItem(`immich-book-description-positions-${book.id}`);
 
-  // Save config to localStorage whenever it changes (with clamped values)
-  useEffect(() => {
-    // Only save if all values are valid
-    if (
-      !isPageWidthValid ||
-      !isPageHeightValid ||
-      !isMarginValid ||
-      !isRowHeightValid ||
-      !isSpacingValid
-    ) {
-      return;
-    }
+    // Print images are only reused within a book
+    return clearPrintImageCache;
+  }, [book.id]);
 
-    const config: AlbumConfig = {
+  // Current config of the book, as saved and exported
+  const bookConfig = useMemo<BookConfig>(
+    () => ({
       pageSize,
       orientation,
       pageWidth,
       pageHeight,
       margin,
+      bleed,
       combinePages,
+      printImageSource,
+      sortStrategy,
       rowHeight,
       spacing,
+      verticalFill,
+      sectionMode,
+      sectionGapDays,
       filterVideos,
       showDates,
       showDescriptions,
       fontSize,
+      captionTemplate,
+      dateTemplate,
+      captionLocale,
+      dateFormat,
       customAspectRatios: Object.fromEntries(customAspectRatios),
       customOrdering,
       descriptionPositions: Object.fromEntries(descriptionPositions),
       pageAlignments: Object.fromEntries(pageAlignments),
-    };
-    saveAlbumConfig(album.id, config);
-  }, [
-    album.id,
-    pageSize,
-    orientation,
-    pageWidth,
-    pageHeight,
-    margin,
-    combinePages,
-    rowHeight,
-    spacing,
-    filterVideos,
-    showDates,
-    showDescriptions,
-    fontSize,
-    customAspectRatios,
-    customOrdering,
-    descriptionPositions,
-    pageAlignments,
-    isPageWidthValid,
-    isPageHeightValid,
-    isMarginValid,
-    isRowHeightValid,
-    isSpacingValid,
-  ]);
-
-  const loadAlbumAssets = async () => {
+      pageTemplates: Object.fromEntries(pageTemplates),
+      pageBreaks: Object.fromEntries(pageBreaks),
+      keepTogether,
+      sections: Object.fromEntries(sections),
+      textBlocks,
+      crops: Object.fromEntries(crops),
+      videoFrames: Object.fromEntries(videoFrames),
+      captionTemplates: Object.fromEntries(captionTemplates),
+      excludedAssetIds,
+      hiddenAssetIds,
+      spreadPhotos,
+      cameraOffsets,
+      cover,
+      sharedLink,
+    }),
+    [
+      pageSize,
+      orientation,
+      pageWidth,
+      pageHeight,
+      margin,
+      bleed,
+      combinePages,
+      printImageSource,
+      sortStrategy,
+      rowHeight,
+      spacing,
+      verticalFill,
+      sectionMode,
+      sectionGapDays,
+      filterVideos,
+      showDates,
+      showDescriptions,
+      fontSize,
+      captionTemplate,
+      dateTemplate,
+      captionLocale,
+      dateFormat,
+      customAspectRatios,
+      customOrdering,
+      descriptionPositions,
+      pageAlignments,
+      pageTemplates,
+      pageBreaks,
+      keepTogether,
+      sections,
+      textBlocks,
+      crops,
+      videoFrames,
+      captionTemplates,
+      excludedAssetIds,
+      hiddenAssetIds,
+      spreadPhotos,
+      cameraOffsets,
+      cover,
+      sharedLink,
+    ],
+  );
+
+  const isConfigValid =
+    isPageWidthValid &&
+    isPageHeightValid &&
+    isMarginValid &&
+    isBleedValid &&
+    isRowHeightValid &&
+    isSpacingValid;
+
+  // Save config to localStorage whenever it changes (with clamped values)
+  useEffect(() => {
+    // Only save if all values are valid
+    if (!isConfigValid) {
+      return;
+    }
+
+    saveBookConfig(book.id, bookConfig);
+  }, [book.id, bookConfig, isConfigValid]);
+
+  // Replace the whole config, e.g. when importing a project file
+  const applyConfig = (config: BookConfig) => {
+    _setPageSize(config.pageSize);
+    _setOrientation(config.orientation);
+    setPageWidth(config.pageWidth);
+    setPageHeight(config.pageHeight);
+    setMargin(config.margin);
+    setBleed(config.bleed);
+    setCombinePages(config.combinePages);
+    setPrintImageSource(config.printImageSource);
+    setSortStrategy(config.sortStrategy);
+    setRowHeight(config.rowHeight);
+    setSpacing(config.spacing);
+    setVerticalFill(config.verticalFill);
+    setSectionMode(config.sectionMode);
+    setSectionGapDays(config.sectionGapDays);
+    setFilterVideos(config.filterVideos);
+    setShowDates(config.showDates);
+    setShowDescriptions(config.showDescriptions);
+    setFontSize(config.fontSize);
+    setCaptionTemplate(config.captionTemplate);
+    setDateTemplate(config.dateTemplate);
+    setCaptionLocale(config.captionLocale);
+    setDateFormat(config.dateFormat);
+    setCustomAspectRatios(new Map(Object.entries(config.customAspectRatios)));
+    setCustomOrdering(config.customOrdering);
+    setDescriptionPositions(
+      new Map(Object.entries(config.descriptionPositions)),
+    );
+    setPageAlignments(
+      new Map(
+        Object.entries(config.pageAlignments).map(([k, v]) => [Number(k), v]),
+      ),
+    );
+    setPageTemplates(
+      new Map(
+        Object.entries(config.pageTemplates).map(([k, v]) => [Number(k), v]),
+      ),
+    );
+    setPageBreaks(new Map(Object.entries(config.pageBreaks)));
+    setKeepTogether(config.keepTogether);
+    setSections(new Map(Object.entries(config.sections)));
+    setTextBlocks(config.textBlocks);
+    setCrops(new Map(Object.entries(config.crops)));
+    setVideoFrames(new Map(Object.entries(config.videoFrames)));
+    setCaptionTemplates(new Map(Object.entries(config.captionTemplates)));
+    setExcludedAssetIds(config.excludedAssetIds);
+    setHiddenAssetIds(config.hiddenAssetIds);
+    setSpreadPhotos(config.spreadPhotos);
+    setCameraOffsets(config.cameraOffsets);
+    setCover(config.cover);
+    setSharedLink(config.sharedLink);
+  };
+
+  // Undo and redo of all settings and customizations
+  const undoHistory = useConfigHistory(
+    book.id,
+    isConfigValid ? bookConfig : null,
+    applyConfig,
+  );
+
+  // Share the config via the Immich server, localStorage is the offline cache.
+  // Configs from the server replace the local one without an undo step.
+  const sync = useConfigSync(
+    book,
+    isConfigValid ? bookConfig : null,
+    undoHistory.applyWithoutUndo,
+  );
+
+  const handleExportProject = () => {
+    downloadProjectFile(createProjectFile(book, bookConfig));
+  };
+
+  const handleImportProject = async (file: File) => {
+    try {
+      const { project, missingAssetIds } = parseProjectFile(
+        await file.text(),
+        book,
+        assets,
+      );
+      applyConfig(project.config);
+      setImportReport(
+        missingAssetIds.length === 0
+          ? null
+          : `Imported "${file.name}". ${missingAssetIds.length} photos it refers to are no longer part of this book, their customizations are ignored: ${missingAssetIds.join(", ")}`,
+      );
+    } catch (err) {
+      setImportReport((err as Error).message || "Failed to import project");
+    }
+  };
+
+  const loadAssets = async () => {
     try {
       setIsLoading(true);
       setError(null);
-      const albumData = await getAlbumInfo({ id: album.id });
-      // Sort assets by creation date ascending
-      const sorted = albumData.assets.sort((a, b) => {
-        return (
-          new Date(a.fileCreatedAt).getTime() -
-          new Date(b.fileCreatedAt).getTime()
-        );
-      });
-      setAssets(sorted);
+      // Sorted by creation date ascending, sized from the thumbnail if
+      // the EXIF dimensions are missing
+      setAssets(
+        await withProbedDimensions(
+          await loadBookAssets(book.source),
+          thumbnailProbe(immichConfig),
+        ),
+      );
     } catch (err) {
-      setError((err as Error).message || "Failed to load album assets");
+      setError((err as Error).message || "Failed to load book assets");
     } finally {
       setIsLoading(false);
     }
@@ -504,23 +862,15 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
 
     if (!reorderDragState) return;
 
-    const { draggedIndex } = reorderDragState;
+    const { draggedAssetId, draggedIndex } = reorderDragState;
 
     if (draggedIndex === targetIndex) {
       handleReorderDragEnd();
       return;
     }
 
-    // Create new ordering based on current filtered assets
-    const currentOrder = filteredAssets.map((asset) => asset.id);
-    const newOrder = [...currentOrder];
-
-    // Remove from old position
-    const [removed] = newOrder.splice(draggedIndex, 1);
-    // Insert at new position
-    newOrder.splice(targetIndex, 0, removed);
-
-    setCustomOrdering(newOrder);
+    // Move the dragged photo, with the other selected photos if selected
+    photoSelection.drop(draggedAssetId, targetIndex);
     handleReorderDragEnd();
   };
 
@@ -529,6 +879,230 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
     setCustomOrdering(null);
   };
 
+  // Choose a template for a page, or the justified layout if none
+  const handlePageTemplateChange = (
+    pageNumber: number,
+    template: PageTemplateId | undefined,
+  ) => {
+    setPageTemplates((prev) => {
+      const next = new Map(prev);
+      if (template) {
+        next.set(pageNumber, template);
+      } else {
+        next.delete(pageNumber);
+      }
+      return next;
+    });
+  };
+
+  // Cycle the manual page break before a photo: none -> page -> spread
+  const handlePageBreakClick = (assetId: string, event: React.MouseEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+
+    setPageBreaks((prev) => {
+      const next = new Map(prev);
+      const current = prev.get(assetId);
+      if (!current) {
+        next.set(assetId, "page");
+      } else if (current === "page" && combinePages) {
+        next.set(assetId, "spread");
+      } else {
+        next.delete(assetId);
+      }
+      return next;
+    });
+  };
+
+  // Link a photo with the next one into a keep together group, or split the
+  // group between them if they are already linked
+  const handleKeepWithNextClick = (
+    assetId: string,
+    event: React.MouseEvent,
+  ) => {
+    event.preventDefault();
+    event.stopPropagation();
+
+    const index = filteredAssets.findIndex((a) => a.id === assetId);
+    const nextAsset = filteredAssets[index + 1];
+    if (!nextAsset) return;
+
+    setKeepTogether((prev) => {
+      const linked = prev.find(
+        (group) => group.includes(assetId) && group.includes(nextAsset.id),
+      );
+      if (linked) {
+        // Split the group in current order
+        const order = new Map(filteredAssets.map((a, i) => [a.id, i]));
+        const before = linked.filter((id) => (order.get(id) ?? -1) <= index);
+        const after = linked.filter((id) => (order.get(id) ?? -1) > index);
+        return [
+          ...prev.filter((group) => group !== linked),
+          before,
+          after,
+        ].filter((group) => group.length > 1);
+      }
+
+      // Merge any groups of the two photos
+      const merged = new Set([assetId, nextAsset.id]);
+      const others: string[][] = [];
+      for (const group of prev) {
+        if (group.includes(assetId) || group.includes(nextAsset.id)) {
+          group.forEach((id) => merged.add(id));
+        } else {
+          others.push(group);
+        }
+      }
+      return [...others, [...merged]];
+    });
+  };
+
+  // Insert a section before a photo, or remove the existing one
+  const handleSectionClick = (
+    asset: AssetResponseDto,
+    event: React.MouseEvent,
+  ) => {
+    event.preventDefault();
+    event.stopPropagation();
+
+    setSections((prev) => {
+      const next = new Map(prev);
+      if (resolvedSections.has(asset.id)) {
+        if (generatedSections.has(asset.id)) {
+          // Generated sections are removed by a null entry
+          next.set(asset.id, null);
+        } else {
+          next.delete(asset.id);
+        }
+      } else if (prev.get(asset.id) === null) {
+        // Restore the generated section
+        next.delete(asset.id);
+      } else {
+        next.set(
+          asset.id,
+          defaultSectionMarker(asset, sortStrategy, cameraOffsets),
+        );
+      }
+      return next;
+    });
+  };
+
+  const handleSectionChange = (assetId: string, marker: SectionMarker) => {
+    setSections((prev) => new Map(prev).set(assetId, marker));
+  };
+
+  // Insert a text page before a photo, or after the last photo if null
+  const handleAddTextPage = (
+    beforeAssetId: string | null,
+    event?: React.MouseEvent,
+  ) => {
+    event?.preventDefault();
+    event?.stopPropagation();
+    setTextBlocks((prev) => [
+      ...prev,
+      createTextBlock({ kind: "page", beforeAssetId }),
+    ]);
+  };
+
+  // Put the text block of a template page into a slot, or remove it
+  const handleTextSlotChange = (pageNumber: number, slot: number | null) => {
+    setTextBlocks((prev) => {
+      const existing = prev.find(
+        (block) =>
+          block.placement.kind === "slot" &&
+          block.placement.pageNumber === pageNumber,
+      );
+      const others = prev.filter((block) => block !== existing);
+      if (slot === null) return others;
+      const placement = { kind: "slot" as const, pageNumber, slot };
+      return [
+        ...others,
+        existing ? { ...existing, placement } : createTextBlock(placement),
+      ];
+    });
+  };
+
+  const handleTextBlockChange = (block: TextBlock) => {
+    setTextBlocks((prev) => prev.map((b) => (b.id === block.id ? block : b)));
+  };
+
+  const handleTextBlockDelete = (id: string) => {
+    setTextBlocks((prev) => prev.filter((block) => block.id !== id));
+  };
+
+  // Crop of a photo: customized, or centred on its faces
+  const getCrop = (asset: AssetResponseDto) =>
+    crops.get(asset.id) ?? defaultCrop(asset);
+
+  const handleCropChange = (assetId: string, crop: PhotoCrop | null) => {
+    setCrops((prev) => {
+      const next = new Map(prev);
+      if (crop) {
+        next.set(assetId, crop);
+      } else {
+        next.delete(assetId);
+      }
+      return next;
+    });
+  };
+
+  const handleVideoFrameChange = (
+    assetId: string,
+    frame: VideoFrame | null,
+  ) => {
+    setVideoFrames((prev) => {
+      const next = new Map(prev);
+      if (frame) {
+        next.set(assetId, frame);
+      } else {
+        next.delete(assetId);
+      }
+      return next;
+    });
+  };
+
+  const handleCaptionTemplateChange = (
+    assetId: string,
+    template: string | null,
+  ) => {
+    setCaptionTemplates((prev) => {
+      const next = new Map(prev);
+      if (template !== null) {
+        next.set(assetId, template);
+      } else {
+        next.delete(assetId);
+      }
+      return next;
+    });
+  };
+
+  // Hide a photo from the book, it stays in the Immich album
+  const handleHideAsset = (assetId: string) => {
+    setHiddenAssetIds((prev) => [...prev, assetId]);
+  };
+
+  // Let a photo span both pages of a spread, or lay it out normally again
+  const handleSpreadToggle = (assetId: string) => {
+    setSpreadPhotos((prev) =>
+      prev.includes(assetId)
+        ? prev.filter((id) => id !== assetId)
+        : [...prev, assetId],
+    );
+  };
+
+  // Print the shared link next to a photo, or stop printing it
+  const handleSharedLinkToggle = (assetId: string) => {
+    setSharedLink((prev) => ({
+      ...prev,
+      assetIds: prev.assetIds.includes(assetId)
+        ? prev.assetIds.filter((id) => id !== assetId)
+        : [...prev.assetIds, assetId],
+    }));
+  };
+
+  // Captured frames of videos, shown instead of their thumbnail
+  const videoFrameUrl = useVideoFrameUrls(immichConfig, videoFrames);
+
   // Reset all description position customizations
   const handleResetDescriptionPositions = () => {
     setDescriptionPositions(new Map());
@@ -539,9 +1113,9 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
     event.preventDefault();
     event.stopPropagation();
 
-    // Find the asset to check if it has a description
+    // Find the asset to check if it has a caption
     const asset = filteredAssets.find((a) => a.id === assetId);
-    const hasDescription = !!asset?.exifInfo?.description;
+    const hasDescription = !!asset && captions.caption(asset) !== "";
 
     // Build the cycle based on whether there's a description
     const positions: Position[] = hasDescription
@@ -565,95 +1139,147 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
   };
 
   // Filter assets based on user preferences (default order)
-  const defaultFilteredAssets = useMemo(() => {
-    return filterVideos
-      ? assets.filter((asset) => asset.type === "IMAGE")
-      : assets;
-  }, [assets, filterVideos]);
+  // Photos to curate (without the hidden ones) in the base order, the
+  // excluded ones are left out of the layout
+  const curationAssets = useMemo(
+    () =>
+      withoutExcluded(
+        sortAssets(
+          filterAssets(assets, filterVideos),
+          sortStrategy,
+          cameraOffsets,
+        ),
+        hiddenAssetIds,
+      ),
+    [assets, filterVideos, sortStrategy, cameraOffsets, hiddenAssetIds],
+  );
+  const defaultFilteredAssets = useMemo(
+    () => withoutExcluded(curationAssets, excludedAssetIds),
+    [curationAssets, excludedAssetIds],
+  );
+  const excludedAssets = useMemo(() => {
+    const excluded = new Set(excludedAssetIds);
+    return curationAssets.filter((asset) => excluded.has(asset.id));
+  }, [curationAssets, excludedAssetIds]);
 
   // Apply custom ordering to filtered assets
-  const filteredAssets = useMemo(() => {
-    if (!customOrdering) return defaultFilteredAssets;
+  const filteredAssets = useMemo(
+    () => applyOrdering(defaultFilteredAssets, customOrdering),
+    [defaultFilteredAssets, customOrdering],
+  );
 
-    // Create a map for quick lookup
-    const assetMap = new Map(
-      defaultFilteredAssets.map((asset) => [asset.id, asset]),
-    );
-    // Reorder based on customOrdering, filtering out any IDs that don't exist
-    const reordered = customOrdering
-      .map((id) => assetMap.get(id))
-      .filter((asset): asset is AssetResponseDto => asset !== undefined);
-
-    // Add any assets that aren't in customOrdering at the end
-    const orderedIds = new Set(customOrdering);
-    const remaining = defaultFilteredAssets.filter(
-      (asset) => !orderedIds.has(asset.id),
-    );
+  // Photos linked with their successor in a keep together group
+  const keptWithNext = useMemo(() => {
+    const linked = new Set<string>();
+    filteredAssets.forEach((asset, index) => {
+      const nextAsset = filteredAssets[index + 1];
+      if (
+        nextAsset &&
+        keepTogether.some(
+          (group) => group.includes(asset.id) && group.includes(nextAsset.id),
+        )
+      ) {
+        linked.add(asset.id);
+      }
+    });
+    return linked;
+  }, [filteredAssets, keepTogether]);
+
+  // Section pages, generated from dates or locations and edited by hand
+  const generatedSections = useMemo(
+    () =>
+      generateSections(
+        filteredAssets,
+        sectionMode,
+        sectionGapDays,
+        sortStrategy,
+        cameraOffsets,
+      ),
+    [filteredAssets, sectionMode, sectionGapDays, sortStrategy, cameraOffsets],
+  );
+  const resolvedSections = useMemo(
+    () => resolveSections(filteredAssets, generatedSections, sections),
+    [filteredAssets, generatedSections, sections],
+  );
 
-    return [...reordered, ...remaining];
-  }, [defaultFilteredAssets, customOrdering]);
+  // Template slot with text per page number
+  const textSlots = useMemo(() => {
+    const slots = new Map<number, number>();
+    for (const { placement } of textBlocks) {
+      if (placement.kind === "slot") {
+        slots.set(placement.pageNumber, placement.slot);
+      }
+    }
+    return slots;
+  }, [textBlocks]);
+
+  // Photos of each section, offered as background photos
+  const sectionPhotos = useMemo(() => {
+    const photos = new Map<string, AssetResponseDto[]>();
+    let current: AssetResponseDto[] = [];
+    for (const asset of filteredAssets) {
+      if (resolvedSections.has(asset.id)) {
+        current = [];
+        photos.set(asset.id, current);
+      }
+      current.push(asset);
+    }
+    return photos;
+  }, [filteredAssets, resolvedSections]);
 
   // Calculate content width for snapping
   const contentWidth = useMemo(() => {
     return validPageWidth - validMargin * 2;
   }, [validPageWidth, validMargin]);
 
-  // Calculate unified page layout - single source of truth!
-  const pages = useMemo(() => {
-    // Adjust aspect ratios for assets with left/right description positions
-    const adjustedAspectRatios = new Map(customAspectRatios);
-
-    filteredAssets.forEach((asset) => {
-      const descPosition = descriptionPositions.get(asset.id) || "bottom";
-      const hasDescription = showDescriptions && !!asset.exifInfo?.description;
-
-      if (
-        hasDescription &&
-        (descPosition === "left" || descPosition === "right")
-      ) {
-        // Double the aspect ratio (make it wider) to account for description space
-        const currentRatio = customAspectRatios.get(asset.id);
-
-        if (currentRatio) {
-          adjustedAspectRatios.set(asset.id, currentRatio * 2);
-        } else {
-          // Calculate natural aspect ratio and double it
-          const width = asset.exifInfo?.exifImageWidth || 1;
-          const height = asset.exifInfo?.exifImageHeight || 1;
-          let naturalRatio = width / height;
-          if (asset.exifInfo?.orientation === "6") {
-            naturalRatio = height / width;
-          }
-          adjustedAspectRatios.set(asset.id, naturalRatio * 2);
-        }
-      }
-    });
-
-    return calculatePageLayout(filteredAssets, {
-      pageSize: "CUSTOM",
-      orientation: "portrait",
-      margin: validMargin,
-      rowHeight: validRowHeight,
-      spacing: validSpacing,
-      customWidth: validPageWidth,
-      customHeight: validPageHeight,
+  // Calculate unified page layout - single source of truth, shared with
+  // rendering from the command line
+  const pages = useMemo(
+    () =>
+      layoutPages(filteredAssets, {
+        margin: validMargin,
+        bleed: validBleed,
+        rowHeight: validRowHeight,
+        spacing: validSpacing,
+        pageWidth: validPageWidth,
+        pageHeight: validPageHeight,
+        combinePages,
+        customAspectRatios,
+        descriptionPositions,
+        showDescriptions,
+        captions,
+        pageAlignments,
+        pageTemplates,
+        pageBreaks,
+        keepTogether,
+        verticalFill,
+        sections: resolvedSections,
+        textBlocks,
+        spreadPhotos,
+      }),
+    [
+      filteredAssets,
+      validMargin,
+      validBleed,
+      validRowHeight,
+      validSpacing,
+      validPageWidth,
+      validPageHeight,
       combinePages,
-      customAspectRatios: adjustedAspectRatios,
+      customAspectRatios,
+      descriptionPositions,
+      showDescriptions,
+      captions,
       pageAlignments,
-    });
-  }, [
-    filteredAssets,
-    validMargin,
-    validRowHeight,
-    validSpacing,
-    validPageWidth,
-    validPageHeight,
-    combinePages,
-    customAspectRatios,
-    descriptionPositions,
-    showDescriptions,
-    pageAlignments,
-  ]);
+      pageTemplates,
+      pageBreaks,
+      keepTogether,
+      verticalFill,
+      resolvedSections,
+      textBlocks,
+      spreadPhotos,
+    ],
+  );
 
   // Handle aspect ratio drag
   useEffect(() => {
@@ -715,12 +1341,117 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
     };
   }, [aspectDragState, contentWidth, margin]);
 
-  // Determine pageLayout based on combinePages setting
-  const pageLayout = combinePages ? "singlePage" : "twoPageLeft";
-
   // Calculate total logical pages for display purposes
   const totalLogicalPages = combinePages ? pages.length * 2 : pages.length;
 
+  // Index of the first photo on or after each logical page
+  const pageStarts = useMemo(() => {
+    const indices = new Map(filteredAssets.map((asset, i) => [asset.id, i]));
+    const starts: number[] = new Array(totalLogicalPages).fill(
+      filteredAssets.length,
+    );
+    for (const page of pages) {
+      for (const photoBox of page.photos) {
+        const pageIndex = combinePages
+          ? (page.pageNumber - 1) * 2 + (photoBox.x < page.width / 2 ? 0 : 1)
+          : page.pageNumber - 1;
+        const index = indices.get(photoBox.asset.id) ?? filteredAssets.length;
+        starts[pageIndex] = Math.min(starts[pageIndex], index);
+      }
+    }
+    for (let i = starts.length - 2; i >= 0; i--) {
+      starts[i] = Math.min(starts[i], starts[i + 1]);
+    }
+    return starts;
+  }, [pages, filteredAssets, combinePages, totalLogicalPages]);
+
+  // Selected photos, moved together by mouse and keyboard
+  const bookOrder = useMemo(
+    () => filteredAssets.map((asset) => asset.id),
+    [filteredAssets],
+  );
+  const photoSelection = usePhotoSelection({
+    order: bookOrder,
+    pageStarts,
+    startsSection: (assetId) => resolvedSections.has(assetId),
+    onReorder: setCustomOrdering,
+    onFocus: (assetId) =>
+      // After the moved photos are laid out again
+      requestAnimationFrame(() =>
+        document
+          .querySelector(`[data-asset-id="${assetId}"]`)
+          ?.scrollIntoView({ block: "nearest", behavior: "smooth" }),
+      ),
+    enabled: mode === "preview",
+  });
+
+  // Select the photos touched by the lasso when it is released
+  useEffect(() => {
+    if (!lasso) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      setLasso(
+        (prev) =>
+          prev && {
+            ...prev,
+            x: e.clientX - prev.originX,
+            y: e.clientY - prev.originY,
+          },
+      );
+    };
+
+    const handleMouseUp = () => {
+      const left = Math.min(lasso.startX, lasso.x);
+      const right = Math.max(lasso.startX, lasso.x);
+      const top = Math.min(lasso.startY, lasso.y);
+      const bottom = Math.max(lasso.startY, lasso.y);
+      const page = pages.find((p) => p.pageNumber === lasso.pageNumber);
+      const assetIds = (page?.photos ?? [])
+        .filter(
+          (photoBox) =>
+            toPoints(photoBox.x) < right &&
+            toPoints(photoBox.x + photoBox.width) > left &&
+            toPoints(photoBox.y) < bottom &&
+            toPoints(photoBox.y + photoBox.height) > top,
+        )
+        .map((photoBox) => photoBox.asset.id);
+      if (right - left < 4 && bottom - top < 4) {
+        // A click on the page
+        if (!lasso.additive) photoSelection.clear();
+      } else {
+        photoSelection.selectMany(assetIds, lasso.additive);
+      }
+      setLasso(null);
+    };
+
+    window.addEventListener("mousemove", handleMouseMove);
+    window.addEventListener("mouseup", handleMouseUp);
+
+    return () => {
+      window.removeEventListener("mousemove", handleMouseMove);
+      window.removeEventListener("mouseup", handleMouseUp);
+    };
+  }, [lasso, pages, photoSelection]);
+
+  // Wraparound cover, sized from the trimmed single page and page count
+  const coverLayout = useMemo(
+    () =>
+      calculateCoverLayout({
+        pageWidth: validPageWidth,
+        pageHeight: validPageHeight,
+        pageCount: totalLogicalPages,
+        paperThickness: cover.paperThickness,
+        wrap: cover.wrap,
+      }),
+    [validPageWidth, validPageHeight, totalLogicalPages, cover],
+  );
+  const coverTitle = cover.title ?? book.name;
+  const coverSubtitle = cover.subtitle ?? book.description;
+  const coverPhotoId =
+    cover.photoId ?? book.thumbnailAssetId ?? filteredAssets[0]?.id;
+  const coverPhoto = assets.find((asset) => asset.id === coverPhotoId);
+  const coverBackPhoto = assets.find((asset) => asset.id === cover.backPhotoId);
+
   if (isLoading) {
     return (
       <div className="text-center py-12">
@@ -737,12 +1468,12 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
           onClick={onBack}
           className="mb-4 text-blue-600 hover:text-blue-800"
         >
-          ← Back to albums
+          ← Back to books
         </button>
         <div className="p-4 bg-red-50 border border-red-200 rounded-md">
           <p className="text-sm text-red-800">{error}</p>
           <button
-            onClick={loadAlbumAssets}
+            onClick={loadAssets}
             className="mt-3 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 text-sm transition-colors shadow-sm font-medium"
           >
             Retry
@@ -761,24 +1492,143 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
             onClick={onBack}
             className="text-blue-600 hover:text-blue-800 mb-2"
           >
-            ← Back to albums
+            ← Back to books
           </button>
-          <h2 className="text-2xl font-semibold">{album.albumName}</h2>
+          <h2 className="text-2xl font-semibold">{book.name}</h2>
           <p className="text-gray-600 mt-1">
             {filteredAssets.length}{" "}
             {filteredAssets.length !== assets.length && `of ${assets.length}`}{" "}
             assets
           </p>
+          <ServerSyncStatus sync={sync} />
 
           {/* Generate PDF / Back to Edit button */}
           <div className="mt-4">
             {mode === "preview" ? (
-              <button
-                onClick={() => setMode("pdf")}
-                className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition-colors shadow-sm"
-              >
-                Generate PDF
-              </button>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => setMode("pdf")}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition-colors shadow-sm"
+                >
+                  Generate PDF
+                </button>
+                <button
+                  onClick={() => setMode("cover")}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition-colors shadow-sm"
+                >
+                  Generate Cover PDF
+                </button>
+                <button
+                  onClick={() => setShowCoverEditor(!showCoverEditor)}
+                  className={`px-4 py-2 rounded-lg font-medium transition-colors shadow-sm border ${
+                    showCoverEditor
+                      ? "bg-blue-50 text-blue-700 border-blue-300"
+                      : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+                  }`}
+                >
+                  Edit Cover
+                </button>
+                <button
+                  onClick={() => setShowSnapshots(!showSnapshots)}
+                  className={`px-4 py-2 rounded-lg font-medium transition-colors shadow-sm border ${
+                    showSnapshots
+                      ? "bg-blue-50 text-blue-700 border-blue-300"
+                      : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+                  }`}
+                >
+                  Versions
+                </button>
+                <button
+                  onClick={() => setShowSharedLink(!showSharedLink)}
+                  className={`px-4 py-2 rounded-lg font-medium transition-colors shadow-sm border ${
+                    showSharedLink
+                      ? "bg-blue-50 text-blue-700 border-blue-300"
+                      : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+                  }`}
+                  title="Print a link to the album in Immich as QR code"
+                >
+                  Shared Link
+                </button>
+                <button
+                  onClick={() => setShowCuration(!showCuration)}
+                  className={`px-4 py-2 rounded-lg font-medium transition-colors shadow-sm border ${
+                    showCuration
+                      ? "bg-blue-50 text-blue-700 border-blue-300"
+                      : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+                  }`}
+                  title="Leave out near-duplicates and pick photos for a target page count"
+                >
+                  Curate
+                </button>
+                <button
+                  onClick={() => setShowHidden(!showHidden)}
+                  className={`px-4 py-2 rounded-lg font-medium transition-colors shadow-sm border ${
+                    showHidden
+                      ? "bg-blue-50 text-blue-700 border-blue-300"
+                      : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+                  }`}
+                  title="Photos hidden from the book, they stay in the Immich album"
+                >
+                  Hidden ({hiddenAssetIds.length})
+                </button>
+                <button
+                  onClick={() => setShowSorter(!showSorter)}
+                  className={`px-4 py-2 rounded-lg font-medium transition-colors shadow-sm border ${
+                    showSorter
+                      ? "bg-blue-50 text-blue-700 border-blue-300"
+                      : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+                  }`}
+                  title="Rearrange the whole book as small thumbnails"
+                >
+                  Sorter
+                </button>
+                <button
+                  onClick={() => handleAddTextPage(null)}
+                  className="px-4 py-2 rounded-lg font-medium transition-colors shadow-sm border bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+                  title="Add a text page after the last photo"
+                >
+                  Add Text Page
+                </button>
+                <button
+                  onClick={handleExportProject}
+                  className="px-4 py-2 rounded-lg font-medium transition-colors shadow-sm border bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+                  title={`Save all settings and customizations as ${PROJECT_FILE_EXTENSION} file`}
+                >
+                  Export Project
+                </button>
+                <label
+                  className="px-4 py-2 rounded-lg font-medium transition-colors shadow-sm border bg-white text-gray-700 border-gray-300 hover:bg-gray-50 cursor-pointer"
+                  title="Replace all settings and customizations with a project file"
+                >
+                  Import Project
+                  <input
+                    type="file"
+                    accept={`${PROJECT_FILE_EXTENSION},application/json`}
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleImportProject(file);
+                      e.target.value = "";
+                    }}
+                  />
+                </label>
+                <button
+                  onClick={undoHistory.undo}
+                  disabled={!undoHistory.canUndo}
+                  className="px-3 py-2 rounded-lg transition-colors shadow-sm border bg-white text-gray-700 border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Undo (Ctrl+Z)"
+                >
+                  <Icon path={mdiUndo} size={0.8} />
+                </button>
+                <button
+                  onClick={undoHistory.redo}
+                  disabled={!undoHistory.canRedo}
+                  className="px-3 py-2 rounded-lg transition-colors shadow-sm border bg-white text-gray-700 border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Redo (Ctrl+Shift+Z)"
+                >
+                  <Icon path={mdiRedo} size={0.8} />
+                </button>
+              </div>
             ) : (
               <button
                 onClick={() => setMode("preview")}
@@ -788,6 +1638,20 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
               </button>
             )}
           </div>
+          {importReport && (
+            <div className="mt-2 max-w-xl p-2 flex items-start gap-2 bg-yellow-50 border border-yellow-200 rounded-md">
+              <p className="flex-1 text-xs text-yellow-800 break-all">
+                {importReport}
+              </p>
+              <button
+                onClick={() => setImportReport(null)}
+                className="text-xs text-yellow-800 hover:text-yellow-900"
+                title="Dismiss"
+              >
+                ✕
+              </button>
+            </div>
+          )}
         </div>
 
         <div className="space-y-2 w-full lg:w-auto">
@@ -861,6 +1725,28 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
                     Combine Pages
                   </label>
                 </div>
+                <div className="flex items-center gap-1">
+                  <label
+                    htmlFor="printImageSource"
+                    className="text-gray-600 text-xs"
+                  >
+                    Print Images:
+                  </label>
+                  <select
+                    id="printImageSource"
+                    value={printImageSource}
+                    onChange={(e) =>
+                      setPrintImageSource(e.target.value as PrintImageSource)
+                    }
+                    className="px-1 py-0.5 text-xs border border-gray-300 rounded"
+                    title="Source used for images in the PDF, cropped and resized to 300 DPI"
+                  >
+                    <option value="auto">Auto</option>
+                    <option value="preview">Preview</option>
+                    <option value="fullsize">Full size</option>
+                    <option value="original">Original</option>
+                  </select>
+                </div>
               </div>
             </div>
           </div>
@@ -897,6 +1783,32 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
                   />
                   <span className="text-xs text-gray-500">px</span>
                 </div>
+                <div className="flex items-center gap-1">
+                  <label htmlFor="bleed" className="text-gray-600 text-xs">
+                    Bleed:
+                  </label>
+                  <input
+                    type="number"
+                    id="bleed"
+                    value={bleed}
+                    onChange={(e) => {
+                      const value = Number(e.target.value);
+                      if (!isNaN(value)) {
+                        setBleed(value);
+                      }
+                    }}
+                    min="0"
+                    max={mmToPixels(10)}
+                    step="5"
+                    title={`Added around each page for trimming (3 mm = ${mmToPixels(3)} px)`}
+                    className={`px-1 py-0.5 w-12 text-xs border rounded ${
+                      isBleedValid
+                        ? "border-gray-300"
+                        : "border-red-500 bg-red-50"
+                    }`}
+                  />
+                  <span className="text-xs text-gray-500">px</span>
+                </div>
                 <div className="flex items-center gap-1">
                   <label htmlFor="rowHeight" className="text-gray-600 text-xs">
                     Row Height:
@@ -946,6 +1858,106 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
                   />
                   <span className="text-xs text-gray-500">px</span>
                 </div>
+                <div className="flex items-center gap-1">
+                  <label
+                    htmlFor="verticalFill"
+                    className="text-gray-600 text-xs"
+                  >
+                    Fill:
+                  </label>
+                  <select
+                    id="verticalFill"
+                    value={verticalFill}
+                    onChange={(e) =>
+                      setVerticalFill(e.target.value as VerticalFill)
+                    }
+                    className="px-1 py-0.5 text-xs border border-gray-300 rounded"
+                    title="Scale rows to fill the page height, or also spread photos evenly over the pages"
+                  >
+                    <option value="none">None</option>
+                    <option value="fill">Fill page</option>
+                    <option value="balance">Balance pages</option>
+                  </select>
+                </div>
+                <div className="flex items-center gap-1">
+                  <label
+                    htmlFor="sortStrategy"
+                    className="text-gray-600 text-xs"
+                  >
+                    Sort:
+                  </label>
+                  <select
+                    id="sortStrategy"
+                    value={sortStrategy}
+                    onChange={(e) =>
+                      setSortStrategy(e.target.value as SortStrategy)
+                    }
+                    className="px-1 py-0.5 text-xs border border-gray-300 rounded"
+                    title="Base order of the photos, reordered photos keep their place"
+                  >
+                    <option value="fileCreatedAt">Date taken (UTC)</option>
+                    <option value="localDateTime">
+                      Date taken (local time)
+                    </option>
+                    <option value="dateTimeOriginal">Date taken (EXIF)</option>
+                    <option value="filename">File name</option>
+                    <option value="rating">Rating</option>
+                    <option value="album">Album order</option>
+                  </select>
+                  <button
+                    onClick={() => setShowCameraClocks(!showCameraClocks)}
+                    className={`px-1 py-0.5 text-xs border rounded ${
+                      showCameraClocks || Object.keys(cameraOffsets).length > 0
+                        ? "bg-blue-50 text-blue-700 border-blue-300"
+                        : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+                    }`}
+                    title="Correct the clocks of cameras"
+                  >
+                    Clocks
+                  </button>
+                </div>
+                <div className="flex items-center gap-1">
+                  <label
+                    htmlFor="sectionMode"
+                    className="text-gray-600 text-xs"
+                  >
+                    Sections:
+                  </label>
+                  <select
+                    id="sectionMode"
+                    value={sectionMode}
+                    onChange={(e) =>
+                      setSectionMode(e.target.value as SectionMode)
+                    }
+                    className="px-1 py-0.5 text-xs border border-gray-300 rounded"
+                    title="Generate section pages automatically, in addition to the ones inserted by hand"
+                  >
+                    <option value="none">Manual</option>
+                    <option value="gap">Date gaps</option>
+                    <option value="month">Months</option>
+                    <option value="location">Locations</option>
+                  </select>
+                  {sectionMode === "gap" && (
+                    <>
+                      <input
+                        type="number"
+                        id="sectionGapDays"
+                        value={sectionGapDays}
+                        onChange={(e) => {
+                          const value = Number(e.target.value);
+                          if (!isNaN(value) && value >= 0) {
+                            setSectionGapDays(value);
+                          }
+                        }}
+                        min="0"
+                        step="1"
+                        className="px-1 py-0.5 w-12 text-xs border border-gray-300 rounded"
+                        title="Start a new section after this many days without photos"
+                      />
+                      <span className="text-xs text-gray-500">days</span>
+                    </>
+                  )}
+                </div>
               </div>
             </div>
           </div>
@@ -996,9 +2008,73 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
                     htmlFor="showDescriptions"
                     className="text-xs text-gray-700"
                   >
-                    Show Descriptions
+                    Show Captions
                   </label>
                 </div>
+                <div className="flex items-center gap-1">
+                  <label
+                    htmlFor="captionTemplate"
+                    className="text-gray-600 text-xs"
+                  >
+                    Caption:
+                  </label>
+                  <input
+                    type="text"
+                    id="captionTemplate"
+                    value={captionTemplate}
+                    onChange={(e) => setCaptionTemplate(e.target.value)}
+                    className="px-1 py-0.5 w-40 text-xs border border-gray-300 rounded"
+                    title={CAPTION_HELP}
+                  />
+                </div>
+                <div className="flex items-center gap-1">
+                  <label
+                    htmlFor="dateTemplate"
+                    className="text-gray-600 text-xs"
+                  >
+                    Date:
+                  </label>
+                  <input
+                    type="text"
+                    id="dateTemplate"
+                    value={dateTemplate}
+                    onChange={(e) => setDateTemplate(e.target.value)}
+                    className="px-1 py-0.5 w-28 text-xs border border-gray-300 rounded"
+                    title={CAPTION_HELP}
+                  />
+                  <select
+                    id="dateFormat"
+                    value={dateFormat}
+                    onChange={(e) =>
+                      setDateFormat(e.target.value as DateFormat)
+                    }
+                    className="px-1 py-0.5 text-xs border border-gray-300 rounded"
+                    title="Format of {date}"
+                  >
+                    <option value="short">Short</option>
+                    <option value="medium">Medium</option>
+                    <option value="long">Long</option>
+                    <option value="full">Full</option>
+                    <option value="iso">ISO</option>
+                  </select>
+                </div>
+                <div className="flex items-center gap-1">
+                  <label
+                    htmlFor="captionLocale"
+                    className="text-gray-600 text-xs"
+                  >
+                    Language:
+                  </label>
+                  <input
+                    type="text"
+                    id="captionLocale"
+                    value={captionLocale}
+                    onChange={(e) => setCaptionLocale(e.target.value.trim())}
+                    placeholder="auto"
+                    className="px-1 py-0.5 w-14 text-xs border border-gray-300 rounded"
+                    title="Language of month and weekday names, e.g. en-GB or de"
+                  />
+                </div>
                 <div className="flex items-center gap-1">
                   <label htmlFor="fontSize" className="text-gray-600 text-xs">
                     Font Size:
@@ -1029,7 +2105,15 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
           {/* 4. Customizations (only shown when there are any) */}
           {(customAspectRatios.size > 0 ||
             customOrdering !== null ||
-            descriptionPositions.size > 0) && (
+            descriptionPositions.size > 0 ||
+            pageBreaks.size > 0 ||
+            keepTogether.length > 0 ||
+            sections.size > 0 ||
+            textBlocks.length > 0 ||
+            crops.size > 0 ||
+            videoFrames.size > 0 ||
+            captionTemplates.size > 0 ||
+            spreadPhotos.length > 0) && (
             <div className="p-2 bg-gray-50 rounded border border-gray-300">
               <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
                 <h3 className="text-xs font-semibold text-gray-700 sm:w-28">
@@ -1039,39 +2123,151 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
                   {customOrdering !== null && (
                     <div className="flex items-center gap-2">
                       <span className="flex items-center gap-1 text-xs text-gray-600">
-                        <span className="w-2 h-2 bg-green-500 rounded-full" />
-                        Custom order
+                        <span className="w-2 h-2 bg-green-500 rounded-full" />
+                        Custom order
+                      </span>
+                      <button
+                        onClick={handleResetOrdering}
+                        className="text-xs px-2 py-0.5 bg-red-500 hover:bg-red-600 text-white rounded-md transition-colors font-medium"
+                      >
+                        Reset
+                      </button>
+                    </div>
+                  )}
+                  {customAspectRatios.size > 0 && (
+                    <div className="flex items-center gap-2">
+                      <span className="flex items-center gap-1 text-xs text-gray-600">
+                        <span className="w-2 h-2 bg-blue-500 rounded-full" />
+                        {customAspectRatios.size} aspect ratio
+                      </span>
+                      <button
+                        onClick={handleResetAllCustomizations}
+                        className="text-xs px-2 py-0.5 bg-red-500 hover:bg-red-600 text-white rounded-md transition-colors font-medium"
+                      >
+                        Reset
+                      </button>
+                    </div>
+                  )}
+                  {descriptionPositions.size > 0 && (
+                    <div className="flex items-center gap-2">
+                      <span className="flex items-center gap-1 text-xs text-gray-600">
+                        <span className="w-2 h-2 bg-purple-500 rounded-full" />
+                        {descriptionPositions.size} label position
+                      </span>
+                      <button
+                        onClick={handleResetDescriptionPositions}
+                        className="text-xs px-2 py-0.5 bg-red-500 hover:bg-red-600 text-white rounded-md transition-colors font-medium"
+                      >
+                        Reset
+                      </button>
+                    </div>
+                  )}
+                  {pageBreaks.size > 0 && (
+                    <div className="flex items-center gap-2">
+                      <span className="flex items-center gap-1 text-xs text-gray-600">
+                        <span className="w-2 h-2 bg-red-500 rounded-full" />
+                        {pageBreaks.size} page break
+                      </span>
+                      <button
+                        onClick={() => setPageBreaks(new Map())}
+                        className="text-xs px-2 py-0.5 bg-red-500 hover:bg-red-600 text-white rounded-md transition-colors font-medium"
+                      >
+                        Reset
+                      </button>
+                    </div>
+                  )}
+                  {keepTogether.length > 0 && (
+                    <div className="flex items-center gap-2">
+                      <span className="flex items-center gap-1 text-xs text-gray-600">
+                        <span className="w-2 h-2 bg-orange-500 rounded-full" />
+                        {keepTogether.length} keep together
                       </span>
                       <button
-                        onClick={handleResetOrdering}
+                        onClick={() => setKeepTogether([])}
                         className="text-xs px-2 py-0.5 bg-red-500 hover:bg-red-600 text-white rounded-md transition-colors font-medium"
                       >
                         Reset
                       </button>
                     </div>
                   )}
-                  {customAspectRatios.size > 0 && (
+                  {sections.size > 0 && (
                     <div className="flex items-center gap-2">
                       <span className="flex items-center gap-1 text-xs text-gray-600">
-                        <span className="w-2 h-2 bg-blue-500 rounded-full" />
-                        {customAspectRatios.size} aspect ratio
+                        <span className="w-2 h-2 bg-teal-500 rounded-full" />
+                        {sections.size} section
                       </span>
                       <button
-                        onClick={handleResetAllCustomizations}
+                        onClick={() => setSections(new Map())}
                         className="text-xs px-2 py-0.5 bg-red-500 hover:bg-red-600 text-white rounded-md transition-colors font-medium"
                       >
                         Reset
                       </button>
                     </div>
                   )}
-                  {descriptionPositions.size > 0 && (
+                  {textBlocks.length > 0 && (
                     <div className="flex items-center gap-2">
                       <span className="flex items-center gap-1 text-xs text-gray-600">
-                        <span className="w-2 h-2 bg-purple-500 rounded-full" />
-                        {descriptionPositions.size} label position
+                        <span className="w-2 h-2 bg-gray-700 rounded-full" />
+                        {textBlocks.length} text
                       </span>
                       <button
-                        onClick={handleResetDescriptionPositions}
+                        onClick={() => setTextBlocks([])}
+                        className="text-xs px-2 py-0.5 bg-red-500 hover:bg-red-600 text-white rounded-md transition-colors font-medium"
+                      >
+                        Reset
+                      </button>
+                    </div>
+                  )}
+                  {crops.size > 0 && (
+                    <div className="flex items-center gap-2">
+                      <span className="flex items-center gap-1 text-xs text-gray-600">
+                        <span className="w-2 h-2 bg-yellow-400 rounded-full" />
+                        {crops.size} crop
+                      </span>
+                      <button
+                        onClick={() => setCrops(new Map())}
+                        className="text-xs px-2 py-0.5 bg-red-500 hover:bg-red-600 text-white rounded-md transition-colors font-medium"
+                      >
+                        Reset
+                      </button>
+                    </div>
+                  )}
+                  {videoFrames.size > 0 && (
+                    <div className="flex items-center gap-2">
+                      <span className="flex items-center gap-1 text-xs text-gray-600">
+                        <span className="w-2 h-2 bg-pink-500 rounded-full" />
+                        {videoFrames.size} video frame
+                      </span>
+                      <button
+                        onClick={() => setVideoFrames(new Map())}
+                        className="text-xs px-2 py-0.5 bg-red-500 hover:bg-red-600 text-white rounded-md transition-colors font-medium"
+                      >
+                        Reset
+                      </button>
+                    </div>
+                  )}
+                  {captionTemplates.size > 0 && (
+                    <div className="flex items-center gap-2">
+                      <span className="flex items-center gap-1 text-xs text-gray-600">
+                        <span className="w-2 h-2 bg-indigo-500 rounded-full" />
+                        {captionTemplates.size} caption
+                      </span>
+                      <button
+                        onClick={() => setCaptionTemplates(new Map())}
+                        className="text-xs px-2 py-0.5 bg-red-500 hover:bg-red-600 text-white rounded-md transition-colors font-medium"
+                      >
+                        Reset
+                      </button>
+                    </div>
+                  )}
+                  {spreadPhotos.length > 0 && (
+                    <div className="flex items-center gap-2">
+                      <span className="flex items-center gap-1 text-xs text-gray-600">
+                        <span className="w-2 h-2 bg-cyan-500 rounded-full" />
+                        {spreadPhotos.length} spread photo
+                      </span>
+                      <button
+                        onClick={() => setSpreadPhotos([])}
                         className="text-xs px-2 py-0.5 bg-red-500 hover:bg-red-600 text-white rounded-md transition-colors font-medium"
                       >
                         Reset
@@ -1085,223 +2281,147 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
         </div>
       </div>
 
-      {mode === "pdf" ? (
+      {mode === "cover" ? (
+        /* Cover PDF Viewer */
+        <div
+          className="w-full"
+          style={{ height: "calc(100vh - 200px)", minHeight: "400px" }}
+        >
+          <PrintPdfViewer
+            pages={[
+              {
+                pageNumber: 1,
+                photos: [],
+                width: coverLayout.width,
+                height: coverLayout.height,
+                bleed: coverLayout.wrap,
+                stats: [],
+                sections: [],
+                texts: [],
+              },
+            ]}
+          >
+            <CoverDocument
+              immichConfig={immichConfig}
+              layout={coverLayout}
+              title={coverTitle}
+              subtitle={coverSubtitle}
+              photo={coverPhoto}
+              backPhoto={coverBackPhoto}
+              backText={cover.backText}
+              printImageSource={printImageSource}
+              sharedLinkUrl={sharedLink.onCover ? sharedLink.url : null}
+            />
+          </PrintPdfViewer>
+        </div>
+      ) : mode === "pdf" ? (
         /* PDF Viewer */
         <div
           className="w-full"
           style={{ height: "calc(100vh - 200px)", minHeight: "400px" }}
         >
-          <PDFViewer width="100%" height="100%" showToolbar={true}>
-            <Document pageLayout={pageLayout}>
-              {pages.map((pageData) => {
-                // FIXME: pdfkit (internal of react-pdf) uses 72dpi internally and we downscale everything here;
-                // instead we should produce a high-quality 300 dpi pdf
-
-                // Convert page dimensions from 300 DPI to 72 DPI
-                const pageWidth = toPoints(pageData.width);
-                const pageHeight = toPoints(pageData.height);
-                return (
-                  <Page
-                    key={pageData.pageNumber}
-                    size={{
-                      width: pageWidth,
-                      height: pageHeight,
-                    }}
-                    style={staticStyles.page}
-                  >
-                    {/* Page break indicator for combined pages */}
-                    {combinePages && (
-                      <View
-                        style={{
-                          position: "absolute",
-                          left: pageWidth / 2,
-                          top: 0,
-                          bottom: 0,
-                          width: 1,
-                          borderLeft: "1 dashed #D1D5DB",
-                        }}
-                      />
-                    )}
-
-                    {pageData.photos.map((photoBox) => {
-                      const imageUrl = `${immichConfig.baseUrl}/assets/${photoBox.asset.id}/thumbnail?size=preview&apiKey=${immichConfig.apiKey}`;
-                      const descPosition =
-                        descriptionPositions.get(photoBox.asset.id) || "bottom";
-                      const hasDescription =
-                        showDescriptions &&
-                        !!photoBox.asset.exifInfo?.description;
-                      const isLeftRight =
-                        hasDescription &&
-                        (descPosition === "left" || descPosition === "right");
-
-                      // When description is on left/right, photoBox.width is already doubled by the layout algorithm
-                      // So we use it as-is and split it between image and description
-                      const containerWidth = toPoints(photoBox.width);
-                      const imageWidth = isLeftRight
-                        ? toPoints(photoBox.width) / 2
-                        : toPoints(photoBox.width);
-
-                      // Use absolute positioning for everything (no flex for left/right)
-                      const containerStyle = [
-                        staticStyles.photoContainer,
-                        {
-                          left: toPoints(photoBox.x),
-                          top: toPoints(photoBox.y),
-                          width: containerWidth,
-                          height: toPoints(photoBox.height),
-                        },
-                      ];
-
-                      return (
-                        <View key={photoBox.asset.id} style={containerStyle}>
-                          {/* Description on left - absolutely positioned */}
-                          {hasDescription && descPosition === "left" && (
-                            <View
-                              style={[
-                                pdfStyles.descriptionSide,
-                                {
-                                  position: "absolute",
-                                  left: 0,
-                                  top: 0,
-                                  width: imageWidth,
-                                  height: toPoints(photoBox.height),
-                                },
-                              ]}
-                            >
-                              <Text
-                                hyphenationCallback={(word) => [word]}
-                                style={pdfStyles.text}
-                              >
-                                {photoBox.asset.exifInfo?.description}
-                              </Text>
-                            </View>
-                          )}
-
-                          {/* Image - absolutely positioned */}
-                          <Image
-                            src={imageUrl}
-                            style={
-                              isLeftRight
-                                ? {
-                                    position: "absolute",
-                                    left:
-                                      descPosition === "left" ? imageWidth : 0,
-                                    top: 0,
-                                    width: imageWidth,
-                                    height: toPoints(photoBox.height),
-                                    objectFit: "cover",
-                                  }
-                                : staticStyles.photo
-                            }
-                          />
-
-                          {/* Description on right - absolutely positioned */}
-                          {hasDescription && descPosition === "right" && (
-                            <View
-                              style={[
-                                pdfStyles.descriptionSide,
-                                {
-                                  position: "absolute",
-                                  right: 0,
-                                  top: 0,
-                                  width: imageWidth,
-                                  height: toPoints(photoBox.height),
-                                },
-                              ]}
-                            >
-                              <Text
-                                hyphenationCallback={(word) => [word]}
-                                style={pdfStyles.text}
-                              >
-                                {photoBox.asset.exifInfo?.description}
-                              </Text>
-                            </View>
-                          )}
-
-                          {/* Date - absolutely positioned */}
-                          {showDates && photoBox.asset.fileCreatedAt && (
-                            <View
-                              style={(() => {
-                                switch (descPosition) {
-                                  case "bottom":
-                                    return {
-                                      ...pdfStyles.dateOverlay,
-                                      position: "absolute",
-                                      top: 8,
-                                      right: 8,
-                                    };
-                                  case "top":
-                                    return {
-                                      ...pdfStyles.dateOverlay,
-                                      position: "absolute",
-                                      bottom: 8,
-                                      right: 8,
-                                    };
-                                  case "left":
-                                    return {
-                                      position: "absolute",
-                                      top: 16,
-                                      left: 8,
-                                    };
-                                  case "right":
-                                    return {
-                                      position: "absolute",
-                                      top: 16,
-                                      left: imageWidth + 8,
-                                    };
-                                  default:
-                                    return {
-                                      ...pdfStyles.dateOverlay,
-                                      position: "absolute",
-                                      top: 8,
-                                      right: 8,
-                                    };
-                                }
-                              })()}
-                            >
-                              <Text style={pdfStyles.text}>
-                                {new Date(
-                                  photoBox.asset.fileCreatedAt,
-                                ).toLocaleDateString(undefined, {
-                                  year: "numeric",
-                                  month: "short",
-                                  day: "numeric",
-                                })}
-                              </Text>
-                            </View>
-                          )}
-
-                          {/* Description for top/bottom positions */}
-                          {hasDescription &&
-                            (descPosition === "top" ||
-                              descPosition === "bottom") && (
-                              <Text
-                                hyphenationCallback={(word) => [word]}
-                                style={{
-                                  ...pdfStyles.descriptionOverlay,
-                                  position: "absolute",
-                                  ...(descPosition === "top"
-                                    ? { top: 0 }
-                                    : { bottom: 0 }),
-                                  left: 0,
-                                  right: 0,
-                                }}
-                              >
-                                {photoBox.asset.exifInfo?.description}
-                              </Text>
-                            )}
-                        </View>
-                      );
-                    })}
-                  </Page>
-                );
-              })}
-            </Document>
-          </PDFViewer>
+          <PrintPdfViewer pages={pages}>
+            <BookDocument
+              pages={pages}
+              combinePages={combinePages}
+              showDates={showDates}
+              showDescriptions={showDescriptions}
+              fontSize={fontSize}
+              descriptionPositions={descriptionPositions}
+              captions={captions}
+              getCrop={getCrop}
+              loadImage={(asset, box, crop, frameTime) =>
+                loadPrintImage(
+                  immichConfig,
+                  asset,
+                  box,
+                  printImageSource,
+                  crop,
+                  frameTime,
+                )
+              }
+              videoFrames={videoFrames}
+              videoLink={(asset) => assetPageUrl(immichConfig, asset.id)}
+              sharedLink={sharedLink}
+            />
+          </PrintPdfViewer>
         </div>
       ) : (
         /* Live Preview */
         <div className="space-y-8 pb-8 overflow-x-auto px-4 sm:px-0">
+          {showCoverEditor && (
+            <CoverEditor
+              immichConfig={immichConfig}
+              assets={filteredAssets}
+              config={cover}
+              onChange={setCover}
+              layout={coverLayout}
+              pageCount={totalLogicalPages}
+              title={coverTitle}
+              subtitle={coverSubtitle}
+              photo={coverPhoto}
+              backPhoto={coverBackPhoto}
+              sharedLinkUrl={sharedLink.onCover ? sharedLink.url : null}
+            />
+          )}
+          {showSharedLink && (
+            <SharedLinkPanel
+              immichConfig={immichConfig}
+              book={book}
+              config={sharedLink}
+              onChange={setSharedLink}
+            />
+          )}
+          {showCameraClocks && (
+            <CameraClockPanel
+              cameras={bookCameras(filterAssets(assets, filterVideos))}
+              offsets={cameraOffsets}
+              onChange={setCameraOffsets}
+            />
+          )}
+          {showCuration && (
+            <CurationPanel
+              immichConfig={immichConfig}
+              assets={curationAssets}
+              excludedAssetIds={excludedAssetIds}
+              onChange={setExcludedAssetIds}
+              sortStrategy={sortStrategy}
+              cameraOffsets={cameraOffsets}
+              photosPerPage={
+                filteredAssets.length / Math.max(1, totalLogicalPages)
+              }
+            />
+          )}
+          {excludedAssets.length > 0 && (
+            <ExcludedTray
+              immichConfig={immichConfig}
+              assets={excludedAssets}
+              onInclude={(assetIds) =>
+                setExcludedAssetIds((prev) =>
+                  prev.filter((id) => !assetIds.includes(id)),
+                )
+              }
+            />
+          )}
+          {showSorter && (
+            <PhotoSorter
+              immichConfig={immichConfig}
+              assets={filteredAssets}
+              pageStarts={pageStarts}
+              selected={photoSelection.selected}
+              cut={photoSelection.cut}
+              onSelect={photoSelection.select}
+              onDrop={photoSelection.drop}
+            />
+          )}
+          {showSnapshots && (
+            <SnapshotPanel
+              book={book}
+              config={bookConfig}
+              defaultOrder={defaultFilteredAssets.map((asset) => asset.id)}
+              onApply={applyConfig}
+            />
+          )}
           {pages.map((page) => {
             // Scale down to match PDF dimensions (72 DPI from 300 DPI)
             const displayWidth = toPoints(page.width);
@@ -1328,6 +2448,7 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
                       <span className="inline-block px-3 py-1 bg-gray-100 text-gray-600 text-sm rounded">
                         Page {page.pageNumber * 2 - 1} of {totalLogicalPages}
                       </span>
+                      <PageStatsLabel stats={page.stats[0]} />
                       <div className="flex gap-1">
                         <button
                           onClick={() => {
@@ -1381,6 +2502,22 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
                           <Icon path={mdiFormatAlignRight} size={0.6} />
                         </button>
                       </div>
+                      <PageTemplateSelect
+                        value={pageTemplates.get(page.pageNumber * 2 - 1)}
+                        onChange={(template) =>
+                          handlePageTemplateChange(
+                            page.pageNumber * 2 - 1,
+                            template,
+                          )
+                        }
+                      />
+                      <TextSlotSelect
+                        template={pageTemplates.get(page.pageNumber * 2 - 1)}
+                        value={textSlots.get(page.pageNumber * 2 - 1)}
+                        onChange={(slot) =>
+                          handleTextSlotChange(page.pageNumber * 2 - 1, slot)
+                        }
+                      />
                     </div>
 
                     {/* Right page controls (only if it exists) */}
@@ -1392,6 +2529,7 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
                         <span className="inline-block px-3 py-1 bg-gray-100 text-gray-600 text-sm rounded">
                           Page {page.pageNumber * 2} of {totalLogicalPages}
                         </span>
+                        <PageStatsLabel stats={page.stats[1]} />
                         <div className="flex gap-1">
                           <button
                             onClick={() => {
@@ -1445,6 +2583,22 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
                             <Icon path={mdiFormatAlignRight} size={0.6} />
                           </button>
                         </div>
+                        <PageTemplateSelect
+                          value={pageTemplates.get(page.pageNumber * 2)}
+                          onChange={(template) =>
+                            handlePageTemplateChange(
+                              page.pageNumber * 2,
+                              template,
+                            )
+                          }
+                        />
+                        <TextSlotSelect
+                          template={pageTemplates.get(page.pageNumber * 2)}
+                          value={textSlots.get(page.pageNumber * 2)}
+                          onChange={(slot) =>
+                            handleTextSlotChange(page.pageNumber * 2, slot)
+                          }
+                        />
                       </div>
                     )}
                   </div>
@@ -1454,6 +2608,7 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
                     <span className="inline-block px-3 py-1 bg-gray-100 text-gray-600 text-sm rounded">
                       Page {page.pageNumber} of {totalLogicalPages}
                     </span>
+                    <PageStatsLabel stats={page.stats[0]} />
                     <div className="flex gap-1">
                       <button
                         onClick={() => {
@@ -1504,6 +2659,19 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
                         <Icon path={mdiFormatAlignRight} size={0.6} />
                       </button>
                     </div>
+                    <PageTemplateSelect
+                      value={pageTemplates.get(page.pageNumber)}
+                      onChange={(template) =>
+                        handlePageTemplateChange(page.pageNumber, template)
+                      }
+                    />
+                    <TextSlotSelect
+                      template={pageTemplates.get(page.pageNumber)}
+                      value={textSlots.get(page.pageNumber)}
+                      onChange={(slot) =>
+                        handleTextSlotChange(page.pageNumber, slot)
+                      }
+                    />
                   </div>
                 )}
 
@@ -1514,7 +2682,37 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
                     width: `${displayWidth}px`,
                     height: `${displayHeight}px`,
                   }}
+                  onMouseDown={(e) => {
+                    // Lasso from the empty page around photos
+                    if (e.target !== e.currentTarget || e.button !== 0) return;
+                    e.preventDefault();
+                    const bounds = e.currentTarget.getBoundingClientRect();
+                    const x = e.clientX - bounds.left;
+                    const y = e.clientY - bounds.top;
+                    setLasso({
+                      pageNumber: page.pageNumber,
+                      originX: bounds.left,
+                      originY: bounds.top,
+                      startX: x,
+                      startY: y,
+                      x,
+                      y,
+                      additive: e.shiftKey || e.ctrlKey || e.metaKey,
+                    });
+                  }}
                 >
+                  {lasso?.pageNumber === page.pageNumber && (
+                    <div
+                      className="absolute z-30 border border-blue-500 bg-blue-500/10 pointer-events-none"
+                      style={{
+                        left: `${Math.min(lasso.startX, lasso.x)}px`,
+                        top: `${Math.min(lasso.startY, lasso.y)}px`,
+                        width: `${Math.abs(lasso.x - lasso.startX)}px`,
+                        height: `${Math.abs(lasso.y - lasso.startY)}px`,
+                      }}
+                    />
+                  )}
+
                   {/* Page break indicator for combined pages */}
                   {combinePages && (
                     <div
@@ -1523,21 +2721,52 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
                     />
                   )}
 
+                  {/* Trim box and crop marks when printing with bleed */}
+                  {page.bleed > 0 && (
+                    <CropMarks
+                      bleed={toPoints(page.bleed)}
+                      width={displayWidth}
+                      height={displayHeight}
+                    />
+                  )}
+
+                  {/* Section pages */}
+                  {page.sections.map((box) => (
+                    <SectionPagePreview
+                      key={box.assetId}
+                      immichConfig={immichConfig}
+                      box={box}
+                      photos={sectionPhotos.get(box.assetId) ?? []}
+                      onChange={(marker) =>
+                        handleSectionChange(box.assetId, marker)
+                      }
+                      sharedLinkUrl={
+                        sharedLink.onSections ? sharedLink.url : null
+                      }
+                    />
+                  ))}
+
+                  {/* Text blocks */}
+                  {page.texts.map((box) => (
+                    <TextBlockPreview
+                      key={box.block.id}
+                      box={box}
+                      styles={webStyles.richText}
+                      onChange={handleTextBlockChange}
+                      onDelete={() => handleTextBlockDelete(box.block.id)}
+                    />
+                  ))}
+
                   {/* Photos */}
                   {page.photos.map((photoBox) => {
-                    const imageUrl = `${immichConfig.baseUrl}/assets/${photoBox.asset.id}/thumbnail?size=preview&apiKey=${immichConfig.apiKey}`;
+                    const imageUrl =
+                      videoFrameUrl(photoBox.asset.id) ??
+                      `${immichConfig.baseUrl}/assets/${photoBox.asset.id}/thumbnail?size=preview&apiKey=${immichConfig.apiKey}`;
                     const isDragging =
                       aspectDragState?.assetId === photoBox.asset.id;
 
                     // Calculate current aspect ratio
-                    const naturalWidth =
-                      photoBox.asset.exifInfo?.exifImageWidth || 1;
-                    const naturalHeight =
-                      photoBox.asset.exifInfo?.exifImageHeight || 1;
-                    let currentAspectRatio = naturalWidth / naturalHeight;
-                    if (photoBox.asset.exifInfo?.orientation == "6") {
-                      currentAspectRatio = naturalHeight / naturalWidth;
-                    }
+                    const currentAspectRatio = assetAspectRatio(photoBox.asset);
                     // Use custom aspect ratio if set
                     const aspectRatio =
                       customAspectRatios.get(photoBox.asset.id) ||
@@ -1547,9 +2776,20 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
                     );
                     const hasDescriptionPositionCustomization =
                       descriptionPositions.has(photoBox.asset.id);
+                    const hasCropCustomization = crops.has(photoBox.asset.id);
+                    const videoFrame = videoFrames.get(photoBox.asset.id);
+                    const hasSharedLink =
+                      sharedLink.url !== null &&
+                      sharedLink.assetIds.includes(photoBox.asset.id);
+                    const photoCaptionTemplate = captionTemplates.get(
+                      photoBox.asset.id,
+                    );
                     const isCustomized =
                       hasAspectRatioCustomization ||
-                      hasDescriptionPositionCustomization;
+                      hasDescriptionPositionCustomization ||
+                      hasCropCustomization ||
+                      !!videoFrame ||
+                      photoCaptionTemplate !== undefined;
 
                     // Find global index in filtered assets for drag & drop
                     const globalIndex = filteredAssets.findIndex(
@@ -1557,6 +2797,10 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
                     );
                     const isBeingDragged =
                       reorderDragState?.draggedAssetId === photoBox.asset.id;
+                    const isCut = photoSelection.cut.has(photoBox.asset.id);
+                    const isSelected = photoSelection.selected.has(
+                      photoBox.asset.id,
+                    );
                     const isDropTarget = dropTargetIndex === globalIndex;
 
                     // Check if this asset has been reordered (compare to default filtered order)
@@ -1566,11 +2810,28 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
                     const isReordered =
                       customOrdering !== null && globalIndex !== defaultIndex;
 
-                    const descPosition =
+                    const pageBreak = pageBreaks.get(photoBox.asset.id);
+                    const hasSection = resolvedSections.has(photoBox.asset.id);
+                    const isKeptWithNext = keptWithNext.has(photoBox.asset.id);
+
+                    // Spread photos have their caption and overlays on the
+                    // right page, below or above the photo
+                    const isSpread = spreadPhotos.includes(photoBox.asset.id);
+                    const showsOverlays = endsPhoto(photoBox);
+                    const position =
                       descriptionPositions.get(photoBox.asset.id) || "bottom";
+                    const descPosition =
+                      photoBox.spread &&
+                      (position === "left" || position === "right")
+                        ? "bottom"
+                        : position;
+                    const caption = captions.caption(photoBox.asset);
+                    const date =
+                      showDates && showsOverlays
+                        ? captions.date(photoBox.asset)
+                        : "";
                     const hasDescription =
-                      showDescriptions &&
-                      !!photoBox.asset.exifInfo?.description;
+                      showDescriptions && showsOverlays && caption !== "";
                     const isLeftRight =
                       hasDescription &&
                       (descPosition === "left" || descPosition === "right");
@@ -1582,10 +2843,35 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
                       ? toPoints(photoBox.width) / 2
                       : toPoints(photoBox.width);
 
+                    // Visible part of the image, same as in the PDF
+                    const isCropping = cropEditAssetId === photoBox.asset.id;
+                    const isPickingFrame =
+                      frameEditAssetId === photoBox.asset.id;
+                    const isEditingCaption =
+                      captionEditAssetId === photoBox.asset.id;
+                    // Image part of the photo box, in 300 DPI pixels
+                    const imageBox = {
+                      width: isLeftRight ? photoBox.width / 2 : photoBox.width,
+                      height: photoBox.height,
+                    };
+                    const crop = getCrop(photoBox.asset);
+                    const rect = cropRect(
+                      currentAspectRatio,
+                      imageWidth / toPoints(photoBox.height),
+                      photoBoxCrop(photoBox, crop),
+                    );
+                    // Faces the binding may swallow
+                    const gutterX = spreadGutter(page, photoBox);
+                    const safeZone = mmToPixels(GUTTER_SAFE_ZONE_MM);
+                    const facesInGutter =
+                      gutterX === null
+                        ? 0
+                        : gutterFaces(photoBox, crop, gutterX, safeZone);
+
                     return (
                       <div
                         key={photoBox.asset.id}
-                        className={`absolute overflow-hidden group cursor-move ${isBeingDragged ? "opacity-50" : ""} ${isLeftRight ? "flex" : ""}`}
+                        className={`absolute overflow-hidden group cursor-move ${isBeingDragged || isCut ? "opacity-50" : ""} ${isLeftRight ? "flex" : ""}`}
                         style={{
                           left: `${toPoints(photoBox.x)}px`,
                           top: `${toPoints(photoBox.y)}px`,
@@ -1593,7 +2879,9 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
                           height: `${toPoints(photoBox.height)}px`,
                           flexDirection: "row",
                         }}
-                        draggable
+                        draggable={
+                          !isCropping && !isPickingFrame && !isEditingCaption
+                        }
                         onDragStart={(e) =>
                           handleReorderDragStart(
                             photoBox.asset.id,
@@ -1606,12 +2894,40 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
                         }
                         onDragEnd={handleReorderDragEnd}
                         onDrop={(e) => handleReorderDrop(globalIndex, e)}
+                        onClick={(e) => {
+                          if (isCropping || isPickingFrame || isEditingCaption)
+                            return;
+                          photoSelection.select(photoBox.asset.id, {
+                            range: e.shiftKey,
+                            toggle: e.ctrlKey || e.metaKey,
+                          });
+                        }}
+                        data-asset-id={photoBox.asset.id}
                       >
+                        {/* Selection outline */}
+                        {isSelected && (
+                          <div className="absolute inset-0 ring-4 ring-inset ring-blue-500 z-20 pointer-events-none" />
+                        )}
+
                         {/* Drop indicator - shown on left edge when hovering during drag */}
                         {isDropTarget && reorderDragState && (
                           <div className="absolute left-0 top-0 bottom-0 w-1 bg-green-500 shadow-lg z-10" />
                         )}
 
+                        {/* Manual page break marker before this photo */}
+                        {pageBreak && (
+                          <div
+                            className={`absolute left-0 top-0 bottom-0 bg-red-500 z-10 pointer-events-none ${
+                              pageBreak === "spread" ? "w-2" : "w-1"
+                            }`}
+                            title={
+                              pageBreak === "spread"
+                                ? "Starts a new spread"
+                                : "Starts a new page"
+                            }
+                          />
+                        )}
+
                         {/* Description on left (when position is 'left') */}
                         {hasDescription && descPosition === "left" && (
                           <div
@@ -1626,23 +2942,116 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
                             }
                             title="Click to change position"
                           >
-                            {photoBox.asset.exifInfo?.description}
+                            {caption}
                           </div>
                         )}
 
-                        <img
-                          src={imageUrl}
-                          alt={photoBox.asset.originalFileName}
-                          className="object-cover w-full h-full"
+                        {/* Image, cropped around its focal point */}
+                        <div
+                          className="relative overflow-hidden w-full h-full"
                           style={
                             isLeftRight
                               ? { width: `${imageWidth}px`, flexShrink: 0 }
                               : undefined
                           }
-                          loading="lazy"
-                        />
-                        {showDates &&
-                          photoBox.asset.fileCreatedAt &&
+                        >
+                          <img
+                            src={imageUrl}
+                            alt={photoBox.asset.originalFileName}
+                            className="absolute max-w-none"
+                            style={{
+                              left: `${(-rect.x / rect.width) * 100}%`,
+                              top: `${(-rect.y / rect.height) * 100}%`,
+                              width: `${100 / rect.width}%`,
+                              height: `${100 / rect.height}%`,
+                            }}
+                            loading="lazy"
+                          />
+                          {gutterX !== null && (
+                            <div
+                              className={`absolute top-0 bottom-0 z-10 pointer-events-none border-x border-dashed ${
+                                facesInGutter > 0
+                                  ? "bg-red-500/25 border-red-500"
+                                  : "bg-yellow-300/20 border-yellow-500 opacity-0 group-hover:opacity-100"
+                              }`}
+                              style={{
+                                left: `${toPoints(gutterX - safeZone - photoBox.x)}px`,
+                                width: `${toPoints(safeZone * 2)}px`,
+                              }}
+                              title={`Gutter: keep faces ${GUTTER_SAFE_ZONE_MM} mm away from the binding`}
+                            />
+                          )}
+                          {facesInGutter > 0 && showsOverlays && (
+                            <div className="absolute top-2 right-2 z-20 flex items-center gap-1 px-1.5 py-0.5 bg-red-600 text-white text-xs rounded shadow pointer-events-none">
+                              <Icon path={mdiAlert} size={0.5} />
+                              {facesInGutter === 1
+                                ? "Face in the gutter"
+                                : `${facesInGutter} faces in the gutter`}
+                            </div>
+                          )}
+                          {isCropping && (
+                            <CropEditor
+                              crop={crop}
+                              rect={rect}
+                              onChange={(next) =>
+                                handleCropChange(photoBox.asset.id, next)
+                              }
+                              onSuggest={() =>
+                                handleCropChange(photoBox.asset.id, null)
+                              }
+                              onClose={() => setCropEditAssetId(null)}
+                            />
+                          )}
+                          {videoFrame && showsOverlays && (
+                            <VideoFrameOverlay
+                              overlay={videoOverlay(imageBox, descPosition)}
+                              image={imageBox}
+                              link={assetPageUrl(
+                                immichConfig,
+                                photoBox.asset.id,
+                              )}
+                            />
+                          )}
+                          {hasSharedLink && showsOverlays && (
+                            <LinkCard
+                              card={photoLinkCard(imageBox, descPosition)}
+                              url={sharedLink.url!}
+                            />
+                          )}
+                          {isPickingFrame && (
+                            <VideoFramePicker
+                              immichConfig={immichConfig}
+                              asset={photoBox.asset}
+                              frame={videoFrame}
+                              onChange={(frame) =>
+                                handleVideoFrameChange(photoBox.asset.id, frame)
+                              }
+                              onClose={() => setFrameEditAssetId(null)}
+                            />
+                          )}
+                          {isEditingCaption && (
+                            <CaptionEditor
+                              template={photoCaptionTemplate}
+                              bookTemplate={captionTemplate}
+                              render={(template) =>
+                                renderCaption(template, photoBox.asset, {
+                                  captionLocale,
+                                  dateFormat,
+                                  sortStrategy,
+                                  cameraOffsets,
+                                })
+                              }
+                              onChange={(template) =>
+                                handleCaptionTemplateChange(
+                                  photoBox.asset.id,
+                                  template,
+                                )
+                              }
+                              onClose={() => setCaptionEditAssetId(null)}
+                            />
+                          )}
+                        </div>
+                        {date &&
                           (() => {
                             const getDateConfig = () => {
                               switch (descPosition) {
@@ -1691,25 +3100,12 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
                                 }
                                 title="Click to change position"
                               >
-                                {new Date(
-                                  photoBox.asset.fileCreatedAt,
-                                ).toLocaleDateString(undefined, {
-                                  year: "numeric",
-                                  month: "short",
-                                  day: "numeric",
-                                })}
+                                {date}
                               </div>
                             );
                           })()}
-                        {showDescriptions &&
-                          photoBox.asset.exifInfo?.description &&
+                        {hasDescription &&
                           (() => {
-                            const descPosition =
-                              descriptionPositions.get(photoBox.asset.id) ||
-                              "bottom";
-                            const description =
-                              photoBox.asset.exifInfo?.description;
-
                             if (
                               descPosition === "left" ||
                               descPosition === "right"
@@ -1747,7 +3143,7 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
                                 }
                                 title="Click to change position"
                               >
-                                {description}
+                                {caption}
                               </div>
                             );
                           })()}
@@ -1766,7 +3162,7 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
                             }
                             title="Click to change position"
                           >
-                            {photoBox.asset.exifInfo?.description}
+                            {caption}
                           </div>
                         )}
 
@@ -1789,6 +3185,30 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
                             title="Image reordered"
                           />
                         )}
+                        {hasCropCustomization && (
+                          <div
+                            className="absolute top-2 left-11 w-2 h-2 bg-yellow-400 rounded-full shadow-lg"
+                            title="Crop customized"
+                          />
+                        )}
+                        {videoFrame && (
+                          <div
+                            className="absolute top-2 left-14 w-2 h-2 bg-pink-500 rounded-full shadow-lg"
+                            title="Printed as video frame"
+                          />
+                        )}
+                        {photoCaptionTemplate !== undefined && (
+                          <div
+                            className="absolute top-2 left-[4.25rem] w-2 h-2 bg-indigo-500 rounded-full shadow-lg"
+                            title="Caption customized"
+                          />
+                        )}
+                        {isSpread && (
+                          <div
+                            className="absolute top-2 left-[5rem] w-2 h-2 bg-cyan-500 rounded-full shadow-lg"
+                            title="Spans the spread"
+                          />
+                        )}
 
                         {/* Reset button - shown on hover for customized images */}
                         {(isCustomized || isReordered) && (
@@ -1813,6 +3233,17 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
                                   return next;
                                 });
                               }
+                              // Reset crop
+                              if (hasCropCustomization) {
+                                handleCropChange(photoBox.asset.id, null);
+                              }
+                              // Reset caption template
+                              if (photoCaptionTemplate !== undefined) {
+                                handleCaptionTemplateChange(
+                                  photoBox.asset.id,
+                                  null,
+                                );
+                              }
                               // Reset custom ordering by rebuilding the array without this asset
                               // This moves the asset back to its default position
                               if (isReordered && customOrdering) {
@@ -1838,43 +3269,239 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
                           </div>
                         )}
 
-                        {/* Left drag handle */}
-                        <div
-                          className={`absolute left-0 top-0 bottom-0 w-2 cursor-ew-resize transition-colors ${
-                            isDragging && aspectDragState.edge === "left"
-                              ? "bg-blue-500"
-                              : "bg-transparent group-hover:bg-blue-400/50"
+                        {/* Page break toggle */}
+                        <button
+                          className={`absolute bottom-2 left-3 z-20 p-0.5 rounded shadow transition-opacity ${
+                            pageBreak
+                              ? "bg-red-500 text-white opacity-100"
+                              : "bg-white/80 text-gray-700 opacity-0 group-hover:opacity-100"
                           }`}
-                          onMouseDown={(e) =>
-                            handleAspectDragStart(
-                              photoBox.asset.id,
-                              "left",
-                              aspectRatio,
-                              photoBox.x,
-                              photoBox.width,
-                              e,
-                            )
+                          onClick={(e) =>
+                            handlePageBreakClick(photoBox.asset.id, e)
                           }
-                        />
+                          title={
+                            pageBreak === "spread"
+                              ? "New spread before this photo (click to remove)"
+                              : pageBreak === "page"
+                                ? combinePages
+                                  ? "New page before this photo (click for new spread)"
+                                  : "New page before this photo (click to remove)"
+                                : "Start a new page before this photo"
+                          }
+                        >
+                          <Icon path={mdiFormatPageBreak} size={0.6} />
+                        </button>
 
-                        {/* Right drag handle */}
-                        <div
-                          className={`absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize transition-colors ${
-                            isDragging && aspectDragState.edge === "right"
-                              ? "bg-blue-500"
-                              : "bg-transparent group-hover:bg-blue-400/50"
+                        {/* Section before this photo toggle */}
+                        <button
+                          className={`absolute bottom-2 left-10 z-20 p-0.5 rounded shadow transition-opacity ${
+                            hasSection
+                              ? "bg-teal-500 text-white opacity-100"
+                              : "bg-white/80 text-gray-700 opacity-0 group-hover:opacity-100"
                           }`}
-                          onMouseDown={(e) =>
-                            handleAspectDragStart(
-                              photoBox.asset.id,
-                              "right",
-                              aspectRatio,
-                              photoBox.x,
-                              photoBox.width,
-                              e,
-                            )
+                          onClick={(e) => handleSectionClick(photoBox.asset, e)}
+                          title={
+                            hasSection
+                              ? "Section page before this photo (click to remove)"
+                              : "Insert a section page before this photo"
                           }
-                        />
+                        >
+                          <Icon path={mdiBookmarkOutline} size={0.6} />
+                        </button>
+
+                        {/* Insert text page before this photo */}
+                        <button
+                          className="absolute bottom-2 left-16 z-20 p-0.5 rounded shadow transition-opacity bg-white/80 text-gray-700 opacity-0 group-hover:opacity-100"
+                          onClick={(e) =>
+                            handleAddTextPage(photoBox.asset.id, e)
+                          }
+                          title="Insert a text page before this photo"
+                        >
+                          <Icon path={mdiTextBoxPlusOutline} size={0.6} />
+                        </button>
+
+                        {/* Crop editor toggle, not on halves of spread photos */}
+                        {!isSpreadHalf(photoBox) && (
+                          <button
+                            className={`absolute bottom-2 left-[5.5rem] z-20 p-0.5 rounded shadow transition-opacity ${
+                              isCropping
+                                ? "bg-yellow-400 text-black opacity-100"
+                                : "bg-white/80 text-gray-700 opacity-0 group-hover:opacity-100"
+                            }`}
+                            onClick={(e) => {
+                              e.preventDefault();
+                              e.stopPropagation();
+                              setCropEditAssetId(
+                                isCropping ? null : photoBox.asset.id,
+                              );
+                            }}
+                            title="Crop: move the image and zoom in its box"
+                          >
+                            <Icon path={mdiCrop} size={0.6} />
+                          </button>
+                        )}
+
+                        {/* Video frame picker toggle */}
+                        {photoBox.asset.type === "VIDEO" && (
+                          <button
+                            className={`absolute bottom-2 left-[7rem] z-20 p-0.5 rounded shadow transition-opacity ${
+                              isPickingFrame || videoFrame
+                                ? "bg-pink-500 text-white opacity-100"
+                                : "bg-white/80 text-gray-700 opacity-0 group-hover:opacity-100"
+                            }`}
+                            onClick={(e) => {
+                              e.preventDefault();
+                              e.stopPropagation();
+                              setFrameEditAssetId(
+                                isPickingFrame ? null : photoBox.asset.id,
+                              );
+                            }}
+                            title="Print as video frame with play badge and QR code"
+                          >
+                            <Icon path={mdiVideoImage} size={0.6} />
+                          </button>
+                        )}
+
+                        {/* Shared link next to this photo toggle */}
+                        {sharedLink.url && (
+                          <button
+                            className={`absolute bottom-2 left-[8.5rem] z-20 p-0.5 rounded shadow transition-opacity ${
+                              hasSharedLink
+                                ? "bg-teal-500 text-white opacity-100"
+                                : "bg-white/80 text-gray-700 opacity-0 group-hover:opacity-100"
+                            }`}
+                            onClick={(e) => {
+                              e.preventDefault();
+                              e.stopPropagation();
+                              handleSharedLinkToggle(photoBox.asset.id);
+                            }}
+                            title={
+                              hasSharedLink
+                                ? "Shared link printed next to this photo (click to remove)"
+                                : "Print the shared link next to this photo"
+                            }
+                          >
+                            <Icon path={mdiQrcode} size={0.6} />
+                          </button>
+                        )}
+
+                        {/* Caption editor toggle */}
+                        <button
+                          className={`absolute bottom-2 left-[10rem] z-20 p-0.5 rounded shadow transition-opacity ${
+                            isEditingCaption ||
+                            photoCaptionTemplate !== undefined
+                              ? "bg-indigo-500 text-white opacity-100"
+                              : "bg-white/80 text-gray-700 opacity-0 group-hover:opacity-100"
+                          }`}
+                          onClick={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            setCaptionEditAssetId(
+                              isEditingCaption ? null : photoBox.asset.id,
+                            );
+                          }}
+                          title="Caption template of this photo"
+                        >
+                          <Icon path={mdiCommentTextOutline} size={0.6} />
+                        </button>
+
+                        {/* Span the whole spread toggle */}
+                        <button
+                          className={`absolute bottom-2 right-[4.25rem] z-20 p-0.5 rounded shadow transition-opacity ${
+                            isSpread
+                              ? "bg-cyan-500 text-white opacity-100"
+                              : "bg-white/80 text-gray-700 opacity-0 group-hover:opacity-100"
+                          }`}
+                          onClick={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            handleSpreadToggle(photoBox.asset.id);
+                          }}
+                          title={
+                            isSpread
+                              ? "Spans both pages of a spread (click to lay out normally)"
+                              : "Span both pages of a spread, across the gutter"
+                          }
+                        >
+                          <Icon path={mdiBookOpenVariant} size={0.6} />
+                        </button>
+
+                        {/* Hide this photo from the book */}
+                        <button
+                          className="absolute bottom-2 right-10 z-20 p-0.5 rounded shadow transition-opacity bg-white/80 text-gray-700 opacity-0 group-hover:opacity-100"
+                          onClick={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            handleHideAsset(photoBox.asset.id);
+                          }}
+                          title="Hide this photo from the book (it stays in Immich)"
+                        >
+                          <Icon path={mdiEyeOff} size={0.6} />
+                        </button>
+
+                        {/* Keep together with next photo toggle */}
+                        {globalIndex < filteredAssets.length - 1 && (
+                          <button
+                            className={`absolute bottom-2 right-3 z-20 p-0.5 rounded shadow transition-opacity ${
+                              isKeptWithNext
+                                ? "bg-orange-500 text-white opacity-100"
+                                : "bg-white/80 text-gray-700 opacity-0 group-hover:opacity-100"
+                            }`}
+                            onClick={(e) =>
+                              handleKeepWithNextClick(photoBox.asset.id, e)
+                            }
+                            title={
+                              isKeptWithNext
+                                ? "Kept on the same page as the next photo (click to unlink)"
+                                : "Keep on the same page as the next photo"
+                            }
+                          >
+                            <Icon path={mdiLinkVariant} size={0.6} />
+                          </button>
+                        )}
+
+                        {/* Aspect ratio drag handles, spread photos fill the spread */}
+                        {!photoBox.spread && (
+                          <>
+                            {/* Left drag handle */}
+                            <div
+                              className={`absolute left-0 top-0 bottom-0 w-2 cursor-ew-resize transition-colors ${
+                                isDragging && aspectDragState.edge === "left"
+                                  ? "bg-blue-500"
+                                  : "bg-transparent group-hover:bg-blue-400/50"
+                              }`}
+                              onMouseDown={(e) =>
+                                handleAspectDragStart(
+                                  photoBox.asset.id,
+                                  "left",
+                                  aspectRatio,
+                                  photoBox.x - page.bleed,
+                                  photoBox.width,
+                                  e,
+                                )
+                              }
+                            />
+
+                            {/* Right drag handle */}
+                            <div
+                              className={`absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize transition-colors ${
+                                isDragging && aspectDragState.edge === "right"
+                                  ? "bg-blue-500"
+                                  : "bg-transparent group-hover:bg-blue-400/50"
+                              }`}
+                              onMouseDown={(e) =>
+                                handleAspectDragStart(
+                                  photoBox.asset.id,
+                                  "right",
+                                  aspectRatio,
+                                  photoBox.x - page.bleed,
+                                  photoBox.width,
+                                  e,
+                                )
+                              }
+                            />
+                          </>
+                        )}
                       </div>
                     );
                   })}
@@ -1884,6 +3511,30 @@ function PhotoGrid({ immichConfig, album, onBack }: PhotoGridProps) {
           })}
         </div>
       )}
+
+      {showHidden && (
+        <HiddenSidebar
+          immichConfig={immichConfig}
+          assets={assets}
+          hiddenAssetIds={hiddenAssetIds}
+          onChange={setHiddenAssetIds}
+          onClose={() => setShowHidden(false)}
+        />
+      )}
+
+      {mode === "preview" &&
+        (photoSelection.selection.length > 0 || photoSelection.canPaste) && (
+          <SelectionBar
+            count={photoSelection.selection.length}
+            cutCount={photoSelection.cut.size}
+            pageCount={totalLogicalPages}
+            onMoveToPage={photoSelection.moveToPage}
+            onMoveToSection={photoSelection.moveToSection}
+            onCut={photoSelection.cutSelection}
+            onPaste={photoSelection.paste}
+            onClear={photoSelection.cancel}
+          />
+        )}
     </div>
   );
 }
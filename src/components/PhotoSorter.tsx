@@ -0,0 +1,114 @@
+import { useState } from "react";
+import type { AssetResponseDto } from "@immich/sdk";
+import type { ImmichConfig } from "./ConnectionForm";
+
+interface PhotoSorterProps {
+  immichConfig: ImmichConfig;
+  assets: AssetResponseDto[]; // photos in the order of the book
+  pageStarts: number[]; // index of the first photo on or after each page
+  selected: Set<string>;
+  cut: Set<string>;
+  onSelect: (
+    assetId: string,
+    options: { range: boolean; toggle: boolean },
+  ) => void;
+  onDrop: (draggedId: string, targetIndex: number) => void;
+}
+
+// Compact view of the whole book as small thumbnails, marked with the page
+// they start, to see and rearrange the order at once
+function PhotoSorter({
+  immichConfig,
+  assets,
+  pageStarts,
+  selected,
+  cut,
+  onSelect,
+  onDrop,
+}: PhotoSorterProps) {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  // Page number shown in front of the first photo of each page
+  const pageLabels = new Map<number, number>();
+  pageStarts.forEach((start, pageIndex) => {
+    if (start < assets.length) pageLabels.set(start, pageIndex + 1);
+  });
+
+  const handleDrop = (index: number, e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (draggedId) onDrop(draggedId, index);
+    setDraggedId(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div
+      className="p-2 bg-gray-50 rounded border border-gray-300 flex flex-wrap gap-1"
+      onDragOver={(e) => {
+        e.preventDefault();
+        setDropIndex(assets.length);
+      }}
+      onDrop={(e) => handleDrop(assets.length, e)}
+    >
+      {assets.map((asset, index) => {
+        const pageNumber = pageLabels.get(index);
+        return (
+          <div key={asset.id} className="flex items-stretch gap-1">
+            {pageNumber !== undefined && (
+              <span className="w-5 flex items-center justify-center text-[10px] text-gray-500 border-l-2 border-gray-400">
+                {pageNumber}
+              </span>
+            )}
+            <div
+              className={`relative w-16 h-16 cursor-move ${
+                cut.has(asset.id) || draggedId === asset.id ? "opacity-40" : ""
+              }`}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = "move";
+                setDraggedId(asset.id);
+              }}
+              onDragOver={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                setDropIndex(index);
+              }}
+              onDragEnd={() => {
+                setDraggedId(null);
+                setDropIndex(null);
+              }}
+              onDrop={(e) => handleDrop(index, e)}
+              onClick={(e) =>
+                onSelect(asset.id, {
+                  range: e.shiftKey,
+                  toggle: e.ctrlKey || e.metaKey,
+                })
+              }
+              title={asset.originalFileName}
+            >
+              <img
+                src={`${immichConfig.baseUrl}/assets/${asset.id}/thumbnail?size=thumbnail&apiKey=${immichConfig.apiKey}`}
+                alt={asset.originalFileName}
+                loading="lazy"
+                draggable={false}
+                className={`w-full h-full object-cover rounded ${
+                  selected.has(asset.id) ? "ring-2 ring-blue-500" : ""
+                }`}
+              />
+              {draggedId && dropIndex === index && (
+                <div className="absolute -left-1 top-0 bottom-0 w-1 bg-green-500" />
+              )}
+            </div>
+          </div>
+        );
+      })}
+      {draggedId && dropIndex === assets.length && (
+        <div className="w-1 h-16 bg-green-500" />
+      )}
+    </div>
+  );
+}
+
+export default PhotoSorter;
@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react";
+import { usePDF, type DocumentProps } from "@react-pdf/renderer";
+import { applyPrintBoxes } from "../utils/printBoxes";
+import type { Page } from "../utils/pageLayout";
+
+interface PrintPdfViewerProps {
+  children: React.ReactElement<DocumentProps>;
+  pages: Page[];
+}
+
+// Like react-pdf's PDFViewer, but post-processes the rendered PDF to add the
+// print boxes (TrimBox/BleedBox) before showing it
+function PrintPdfViewer({ children, pages }: PrintPdfViewerProps) {
+  const [instance, updateInstance] = usePDF();
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => updateInstance(children), [children]);
+
+  useEffect(() => {
+    if (!instance.blob) return;
+
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    applyPrintBoxes(instance.blob, pages)
+      .then((blob) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+        setError(null);
+      })
+      .catch((err) => {
+        console.error("Failed to set print boxes:", err);
+        if (!cancelled) {
+          setError((err as Error).message || "Failed to set print boxes");
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [instance.blob]);
+
+  const renderError = instance.error || error;
+  if (renderError) {
+    return (
+      <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+        <p className="text-sm text-red-800">{renderError}</p>
+      </div>
+    );
+  }
+
+  if (!url) {
+    return (
+      <div className="text-center py-12">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
+        <p className="mt-4 text-gray-600">Generating PDF...</p>
+      </div>
+    );
+  }
+
+  return (
+    <iframe src={`${url}#toolbar=1`} width="100%" height="100%" title="PDF" />
+  );
+}
+
+export default PrintPdfViewer;
@@ -0,0 +1,28 @@
+import { useMemo, type CSSProperties } from "react";
+import { qrCodePath } from "../utils/qrCode";
+
+interface QrCodeSvgProps {
+  text: string;
+  className?: string;
+  style?: CSSProperties;
+}
+
+// QR code in the live preview, generated locally like in the PDF
+function QrCodeSvg({ text, className, style }: QrCodeSvgProps) {
+  const qrCode = useMemo(() => qrCodePath(text), [text]);
+
+  return (
+    <svg
+      className={className}
+      style={style}
+      viewBox={`0 0 ${qrCode.size} ${qrCode.size}`}
+      shapeRendering="crispEdges"
+    >
+      <title>{text}</title>
+      <rect width={qrCode.size} height={qrCode.size} fill="white" />
+      <path d={qrCode.path} fill="black" />
+    </svg>
+  );
+}
+
+export default QrCodeSvg;
@@ -0,0 +1,105 @@
+import type { AssetResponseDto } from "@immich/sdk";
+import { toPoints, type SectionBox } from "../utils/pageLayout";
+import {
+  SECTION_SUBTITLE_FONT_SIZE,
+  SECTION_TITLE_FONT_SIZE,
+  type SectionMarker,
+} from "../utils/sections";
+import { linkCard } from "../utils/sharedLinks";
+import type { ImmichConfig } from "./ConnectionForm";
+import LinkCard from "./LinkCard";
+
+interface SectionPagePreviewProps {
+  immichConfig: ImmichConfig;
+  box: SectionBox;
+  photos: AssetResponseDto[]; // candidates for the background photo
+  onChange: (marker: SectionMarker) => void;
+  sharedLinkUrl: string | null; // printed in the corner
+}
+
+// Section page in the live preview, with title and subtitle editable in place
+function SectionPagePreview({
+  immichConfig,
+  box,
+  photos,
+  onChange,
+  sharedLinkUrl,
+}: SectionPagePreviewProps) {
+  const { section } = box;
+  const marker: SectionMarker = {
+    title: section.title,
+    subtitle: section.subtitle,
+    photoId: section.photo?.id ?? null,
+  };
+
+  return (
+    <div
+      className="absolute overflow-hidden group flex items-center justify-center"
+      style={{
+        left: `${toPoints(box.x)}px`,
+        top: `${toPoints(box.y)}px`,
+        width: `${toPoints(box.width)}px`,
+        height: `${toPoints(box.height)}px`,
+      }}
+    >
+      {section.photo && (
+        <img
+          src={`${immichConfig.baseUrl}/assets/${section.photo.id}/thumbnail?size=preview&apiKey=${immichConfig.apiKey}`}
+          alt={section.photo.originalFileName}
+          className="absolute inset-0 w-full h-full object-cover"
+        />
+      )}
+
+      <div
+        className={`relative w-full text-black text-center ${
+          section.photo ? "bg-white/70" : ""
+        }`}
+        style={{ padding: `${SECTION_SUBTITLE_FONT_SIZE}px 0` }}
+      >
+        <input
+          type="text"
+          value={section.title}
+          onChange={(e) => onChange({ ...marker, title: e.target.value })}
+          placeholder="Section title"
+          className="w-full bg-transparent text-center font-medium focus:outline-none"
+          style={{ fontSize: `${SECTION_TITLE_FONT_SIZE}px`, lineHeight: 1.2 }}
+        />
+        <input
+          type="text"
+          value={section.subtitle}
+          onChange={(e) => onChange({ ...marker, subtitle: e.target.value })}
+          placeholder="Subtitle"
+          className="w-full bg-transparent text-center focus:outline-none"
+          style={{
+            fontSize: `${SECTION_SUBTITLE_FONT_SIZE}px`,
+            lineHeight: 1.2,
+            marginTop: `${SECTION_SUBTITLE_FONT_SIZE * 0.5}px`,
+          }}
+        />
+      </div>
+
+      {sharedLinkUrl && (
+        <LinkCard card={linkCard(box, "bottom-right")} url={sharedLinkUrl} />
+      )}
+
+      {/* Background photo picker */}
+      <select
+        value={marker.photoId ?? ""}
+        onChange={(e) =>
+          onChange({ ...marker, photoId: e.target.value || null })
+        }
+        className="absolute bottom-2 left-1/2 -translate-x-1/2 px-1 py-0.5 text-xs border border-gray-300 rounded bg-white opacity-0 group-hover:opacity-100 transition-opacity"
+        title="Background photo"
+      >
+        <option value="">No background</option>
+        {photos.map((photo) => (
+          <option key={photo.id} value={photo.id}>
+            {photo.originalFileName}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+export default SectionPagePreview;
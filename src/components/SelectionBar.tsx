@@ -0,0 +1,89 @@
+import { useState } from "react";
+import Icon from "@mdi/react";
+import { mdiClose, mdiContentCut, mdiContentPaste } from "@mdi/js";
+
+interface SelectionBarProps {
+  count: number; // selected photos
+  cutCount: number; // photos waiting to be pasted
+  pageCount: number;
+  onMoveToPage: (pageNumber: number) => void;
+  onMoveToSection: (edge: "start" | "end") => void;
+  onCut: () => void;
+  onPaste: () => void;
+  onClear: () => void;
+}
+
+// Floating bar with the actions for the selected photos
+function SelectionBar({
+  count,
+  cutCount,
+  pageCount,
+  onMoveToPage,
+  onMoveToSection,
+  onCut,
+  onPaste,
+  onClear,
+}: SelectionBarProps) {
+  const [pageNumber, setPageNumber] = useState(1);
+
+  const button =
+    "px-2 py-0.5 rounded border border-gray-300 bg-white hover:bg-gray-100 disabled:text-gray-400 disabled:hover:bg-white";
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 flex flex-wrap items-center gap-2 px-3 py-2 bg-white border border-gray-300 rounded-lg shadow-lg text-xs">
+      <span className="font-semibold text-gray-700">
+        {count} {count === 1 ? "photo" : "photos"} selected
+      </span>
+      {count > 0 && (
+        <>
+          <span className="flex items-center gap-1">
+            <button onClick={() => onMoveToPage(pageNumber)} className={button}>
+              Move to Page
+            </button>
+            <input
+              type="number"
+              min={1}
+              max={pageCount}
+              value={pageNumber}
+              onChange={(e) => setPageNumber(Number(e.target.value) || 1)}
+              className="px-1 py-0.5 w-14 border border-gray-300 rounded"
+            />
+          </span>
+          <button onClick={() => onMoveToSection("start")} className={button}>
+            Section Start
+          </button>
+          <button onClick={() => onMoveToSection("end")} className={button}>
+            Section End
+          </button>
+          <button
+            onClick={onCut}
+            className={`${button} flex items-center gap-1`}
+            title="Cut (Ctrl+X), then select a photo and paste in front of it"
+          >
+            <Icon path={mdiContentCut} size={0.5} />
+            Cut
+          </button>
+        </>
+      )}
+      {cutCount > 0 && (
+        <button
+          onClick={onPaste}
+          className={`${button} flex items-center gap-1`}
+          title="Paste in front of the selected photo, or at the end (Ctrl+V)"
+        >
+          <Icon path={mdiContentPaste} size={0.5} />
+          Paste {cutCount}
+        </button>
+      )}
+      <button
+        onClick={onClear}
+        className="p-0.5 rounded text-gray-700 hover:bg-gray-200"
+        title="Clear the selection and the cut photos (Escape)"
+      >
+        <Icon path={mdiClose} size={0.7} />
+      </button>
+    </div>
+  );
+}
+
+export default SelectionBar;
@@ -0,0 +1,79 @@
+import type { ConfigSync } from "../hooks/useConfigSync";
+
+const STATUS_LABELS = {
+  loading: "Checking Immich server…",
+  saving: "Saving to Immich…",
+  synced: "Saved on Immich",
+  offline: "Server not reachable, saved in this browser",
+} as const;
+
+// Where the book config is stored and conflicts with saves from elsewhere
+function ServerSyncStatus({ sync }: { sync: ConfigSync }) {
+  const { status, conflict } = sync;
+
+  if (status === "unavailable") {
+    return null;
+  }
+
+  if (status === "off") {
+    return (
+      <p className="mt-1 text-xs text-gray-500">
+        Saved in this browser.{" "}
+        <button
+          onClick={sync.enable}
+          className="text-blue-600 hover:text-blue-800"
+          title="Store the book layout in a private album of yours, to edit it from other computers (requires album.create and album.update permissions)"
+        >
+          Share via Immich
+        </button>
+      </p>
+    );
+  }
+
+  if (status === "conflict" && conflict) {
+    return (
+      <div className="mt-2 max-w-xl p-2 bg-yellow-50 border border-yellow-200 rounded-md text-xs text-yellow-800">
+        <p>
+          This book was changed elsewhere (saved{" "}
+          {new Date(conflict.savedAt).toLocaleString()}) while you made changes
+          here.
+        </p>
+        <div className="mt-2 flex gap-2">
+          <button
+            onClick={sync.takeRemote}
+            className="px-2 py-1 bg-white border border-yellow-300 rounded hover:bg-yellow-100"
+          >
+            Use their version
+          </button>
+          <button
+            onClick={sync.keepLocal}
+            className="px-2 py-1 bg-white border border-yellow-300 rounded hover:bg-yellow-100"
+          >
+            Keep mine
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <p
+      className={`mt-1 text-xs ${status === "offline" ? "text-yellow-700" : "text-gray-500"}`}
+    >
+      {STATUS_LABELS[status as keyof typeof STATUS_LABELS]}
+      {status === "offline" && (
+        <>
+          {" "}
+          <button
+            onClick={sync.retry}
+            className="text-blue-600 hover:text-blue-800"
+          >
+            Retry
+          </button>
+        </>
+      )}
+    </p>
+  );
+}
+
+export default ServerSyncStatus;
@@ -0,0 +1,141 @@
+import { useState } from "react";
+import type { Book } from "../utils/bookSource";
+import { configAlbumId } from "../utils/configStorage";
+import {
+  albumSharedLinkUrl,
+  shortUrl,
+  type SharedLinkConfig,
+} from "../utils/sharedLinks";
+import type { ImmichConfig } from "./ConnectionForm";
+
+interface SharedLinkPanelProps {
+  immichConfig: ImmichConfig;
+  book: Book;
+  config: SharedLinkConfig;
+  onChange: (config: SharedLinkConfig) => void;
+}
+
+// Immich shared link of the book album and where it is printed
+function SharedLinkPanel({
+  immichConfig,
+  book,
+  config,
+  onChange,
+}: SharedLinkPanelProps) {
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const albumId = configAlbumId(book);
+
+  const handleCreate = async () => {
+    if (!albumId) return;
+    setError(null);
+    setIsCreating(true);
+    try {
+      const url = await albumSharedLinkUrl(immichConfig, albumId, book.name);
+      onChange({ ...config, url });
+    } catch (err) {
+      setError(
+        `Failed to create shared link: ${(err as Error).message}. The API key needs the shared link permissions.`,
+      );
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="p-2 bg-gray-50 rounded border border-gray-300 space-y-2 text-xs">
+      <div className="flex flex-wrap items-center gap-2 sm:gap-3">
+        <h3 className="font-semibold text-gray-700 sm:w-28">Shared Link</h3>
+        {!albumId ? (
+          <span className="text-gray-500">
+            Shared links need a book with an album.
+          </span>
+        ) : config.url ? (
+          <>
+            <a
+              href={config.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-blue-600 hover:text-blue-800 break-all"
+            >
+              {shortUrl(config.url)}
+            </a>
+            <button
+              onClick={() => navigator.clipboard.writeText(config.url!)}
+              className="px-2 py-0.5 rounded border border-gray-300 bg-white hover:bg-gray-100"
+            >
+              Copy
+            </button>
+            <button
+              onClick={() => onChange({ ...config, url: null })}
+              className="px-2 py-0.5 bg-red-500 hover:bg-red-600 text-white rounded-md transition-colors font-medium"
+              title="Stop printing the link, it stays on the Immich server"
+            >
+              Remove
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={handleCreate}
+            disabled={isCreating}
+            className="px-2 py-0.5 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 transition-colors font-medium"
+            title={
+              book.source.albumIds.length > 1
+                ? "Links the first album of the book"
+                : undefined
+            }
+          >
+            {isCreating ? "Creating..." : "Create Link"}
+          </button>
+        )}
+      </div>
+
+      {config.url && (
+        <div className="flex flex-wrap items-center gap-2 sm:gap-3">
+          <span className="text-gray-600 sm:w-28">Print as QR code:</span>
+          <label className="flex items-center gap-1 text-gray-700">
+            <input
+              type="checkbox"
+              checked={config.onCover}
+              onChange={(e) =>
+                onChange({ ...config, onCover: e.target.checked })
+              }
+            />
+            On the cover
+          </label>
+          <label className="flex items-center gap-1 text-gray-700">
+            <input
+              type="checkbox"
+              checked={config.onSections}
+              onChange={(e) =>
+                onChange({ ...config, onSections: e.target.checked })
+              }
+            />
+            On section pages
+          </label>
+          <span className="text-gray-500">
+            Next to {config.assetIds.length}{" "}
+            {config.assetIds.length === 1 ? "photo" : "photos"} (toggle on each
+            photo)
+          </span>
+          {config.assetIds.length > 0 && (
+            <button
+              onClick={() => onChange({ ...config, assetIds: [] })}
+              className="px-2 py-0.5 bg-red-500 hover:bg-red-600 text-white rounded-md transition-colors font-medium"
+            >
+              Reset
+            </button>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="p-2 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SharedLinkPanel;
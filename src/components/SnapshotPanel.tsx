@@ -0,0 +1,259 @@
+import { useState, useEffect } from "react";
+import type { BookConfig } from "../utils/bookConfig";
+import type { Book } from "../utils/bookSource";
+import { createProjectFile, downloadProjectFile } from "../utils/projectFile";
+import {
+  createSnapshot,
+  diffConfigs,
+  loadSnapshots,
+  saveSnapshots,
+  type ConfigDiff,
+  type CustomizationField,
+  type Snapshot,
+} from "../utils/snapshots";
+
+interface SnapshotPanelProps {
+  book: Book;
+  config: BookConfig; // current config
+  defaultOrder: string[]; // asset IDs without custom ordering
+  onApply: (config: BookConfig) => void;
+}
+
+const CUSTOMIZATION_LABELS: Record<CustomizationField, string> = {
+  customAspectRatios: "aspect ratios",
+  customOrdering: "ordering",
+  descriptionPositions: "description positions",
+  pageAlignments: "page alignments",
+  pageTemplates: "page templates",
+  pageBreaks: "page breaks",
+  keepTogether: "keep together groups",
+  sections: "sections",
+  textBlocks: "text blocks",
+  crops: "crops",
+  videoFrames: "video frames",
+  captionTemplates: "captions",
+  excludedAssetIds: "excluded photos",
+  hiddenAssetIds: "hidden photos",
+  spreadPhotos: "spread photos",
+  cameraOffsets: "camera clock offsets",
+  cover: "cover settings",
+  sharedLink: "shared link settings",
+};
+
+function DiffSummary({ diff }: { diff: ConfigDiff }) {
+  if (
+    diff.settings.length === 0 &&
+    diff.movedPhotos === 0 &&
+    diff.customizations.length === 0
+  ) {
+    return <p className="text-gray-500">Same as the current book.</p>;
+  }
+  return (
+    <ul className="list-disc list-inside text-gray-700">
+      {diff.settings.map(({ field, from, to }) => (
+        <li key={field}>
+          {field}: {String(from)} → {String(to)}
+        </li>
+      ))}
+      {diff.movedPhotos > 0 && (
+        <li>
+          {diff.movedPhotos} {diff.movedPhotos === 1 ? "photo" : "photos"} at a
+          different position
+        </li>
+      )}
+      {diff.customizations.map(({ field, changed }) => (
+        <li key={field}>
+          {changed} {CUSTOMIZATION_LABELS[field]} changed
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Named versions of the book config to save, switch, compare and export
+function SnapshotPanel({
+  book,
+  config,
+  defaultOrder,
+  onApply,
+}: SnapshotPanelProps) {
+  const [store, setStore] = useState(() => loadSnapshots(book.id));
+  const [name, setName] = useState("");
+  const [diffId, setDiffId] = useState<string | null>(null);
+
+  useEffect(() => {
+    saveSnapshots(book.id, store);
+  }, [book.id, store]);
+
+  const updateSnapshot = (snapshots: Snapshot[], id: string | null) =>
+    snapshots.map((snapshot) =>
+      snapshot.id === id ? { ...snapshot, config } : snapshot,
+    );
+
+  const handleSave = () => {
+    const snapshot = createSnapshot(
+      name.trim() || `Version ${store.snapshots.length + 1}`,
+      config,
+    );
+    setStore({
+      snapshots: [...store.snapshots, snapshot],
+      activeId: snapshot.id,
+    });
+    setName("");
+  };
+
+  // Keep the changes made in the active snapshot before switching
+  const handleSwitch = (snapshot: Snapshot) => {
+    setStore({
+      snapshots: updateSnapshot(store.snapshots, store.activeId),
+      activeId: snapshot.id,
+    });
+    onApply(snapshot.config);
+  };
+
+  const handleDuplicate = (snapshot: Snapshot) => {
+    const index = store.snapshots.indexOf(snapshot);
+    const copy = createSnapshot(`${snapshot.name} (copy)`, snapshot.config);
+    setStore({
+      ...store,
+      snapshots: [
+        ...store.snapshots.slice(0, index + 1),
+        copy,
+        ...store.snapshots.slice(index + 1),
+      ],
+    });
+  };
+
+  const handleDelete = (snapshot: Snapshot) => {
+    if (!confirm(`Delete the version "${snapshot.name}"?`)) return;
+    setStore({
+      snapshots: store.snapshots.filter((s) => s.id !== snapshot.id),
+      activeId: store.activeId === snapshot.id ? null : store.activeId,
+    });
+  };
+
+  const handleExport = (snapshot: Snapshot) => {
+    downloadProjectFile(
+      createProjectFile(
+        { ...book, name: `${book.name} ${snapshot.name}` },
+        snapshot.config,
+      ),
+    );
+  };
+
+  const buttonClass =
+    "px-1.5 py-0.5 text-xs rounded border border-gray-300 bg-white text-gray-700 hover:bg-gray-100";
+
+  return (
+    <div className="mb-8 p-2 bg-gray-50 rounded border border-gray-300 space-y-2 text-xs">
+      <div className="flex flex-wrap items-center gap-2 sm:gap-3">
+        <h3 className="font-semibold text-gray-700 sm:w-28">Versions</h3>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleSave()}
+          placeholder={`Version ${store.snapshots.length + 1}`}
+          className="px-1 py-0.5 w-48 border border-gray-300 rounded"
+        />
+        <button onClick={handleSave} className={buttonClass}>
+          Save current as version
+        </button>
+      </div>
+
+      {store.snapshots.length === 0 ? (
+        <p className="text-gray-500 sm:pl-[7.75rem]">
+          Save versions to try different formats and layouts of this book side
+          by side.
+        </p>
+      ) : (
+        <ul className="space-y-1 sm:pl-[7.75rem]">
+          {store.snapshots.map((snapshot) => {
+            const isActive = snapshot.id === store.activeId;
+            return (
+              <li key={snapshot.id}>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span
+                    className={`w-2 h-2 rounded-full ${isActive ? "bg-blue-500" : "bg-gray-300"}`}
+                    title={isActive ? "Current version" : undefined}
+                  />
+                  <span
+                    className={`font-medium ${isActive ? "text-blue-700" : "text-gray-700"}`}
+                  >
+                    {snapshot.name}
+                  </span>
+                  <span className="text-gray-400">
+                    {new Date(snapshot.createdAt).toLocaleString()}
+                  </span>
+                  {isActive ? (
+                    <button
+                      onClick={() =>
+                        setStore({
+                          ...store,
+                          snapshots: updateSnapshot(
+                            store.snapshots,
+                            snapshot.id,
+                          ),
+                        })
+                      }
+                      className={buttonClass}
+                      title="Save the current changes in this version"
+                    >
+                      Update
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => handleSwitch(snapshot)}
+                      className={buttonClass}
+                      title="Continue with this version (changes are kept in the current one)"
+                    >
+                      Switch
+                    </button>
+                  )}
+                  <button
+                    onClick={() =>
+                      setDiffId(diffId === snapshot.id ? null : snapshot.id)
+                    }
+                    className={buttonClass}
+                  >
+                    {diffId === snapshot.id ? "Hide changes" : "Compare"}
+                  </button>
+                  <button
+                    onClick={() => handleDuplicate(snapshot)}
+                    className={buttonClass}
+                  >
+                    Duplicate
+                  </button>
+                  <button
+                    onClick={() => handleExport(snapshot)}
+                    className={buttonClass}
+                  >
+                    Export
+                  </button>
+                  <button
+                    onClick={() => handleDelete(snapshot)}
+                    className="px-1.5 py-0.5 text-xs rounded border border-red-300 bg-white text-red-600 hover:bg-red-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+                {diffId === snapshot.id && (
+                  <div className="mt-1 ml-4 p-1 bg-white rounded border border-gray-200">
+                    <p className="text-gray-500 mb-0.5">
+                      From "{snapshot.name}" to the current book:
+                    </p>
+                    <DiffSummary
+                      diff={diffConfigs(snapshot.config, config, defaultOrder)}
+                    />
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default SnapshotPanel;
@@ -0,0 +1,189 @@
+import { useRef, useState, type CSSProperties } from "react";
+import Icon from "@mdi/react";
+import {
+  mdiCheck,
+  mdiDeleteOutline,
+  mdiFormatAlignCenter,
+  mdiFormatAlignJustify,
+  mdiFormatAlignLeft,
+  mdiFormatAlignRight,
+  mdiFormatBold,
+  mdiFormatHeader1,
+  mdiFormatHeader2,
+  mdiFormatItalic,
+} from "@mdi/js";
+import { toPoints, type TextBox } from "../utils/pageLayout";
+import {
+  parseRichText,
+  type RichTextParagraph,
+  type TextAlign,
+  type TextBlock,
+} from "../utils/textBlocks";
+
+export type RichTextStyles = Record<RichTextParagraph["kind"], CSSProperties>;
+
+interface TextBlockPreviewProps {
+  box: TextBox;
+  styles: RichTextStyles;
+  onChange: (block: TextBlock) => void;
+  onDelete: () => void;
+}
+
+const ALIGNMENTS: { align: TextAlign; icon: string; title: string }[] = [
+  { align: "left", icon: mdiFormatAlignLeft, title: "Align left" },
+  { align: "center", icon: mdiFormatAlignCenter, title: "Align center" },
+  { align: "right", icon: mdiFormatAlignRight, title: "Align right" },
+  { align: "justify", icon: mdiFormatAlignJustify, title: "Justify" },
+];
+
+// Text block in the live preview, click to edit its content and alignment
+function TextBlockPreview({
+  box,
+  styles,
+  onChange,
+  onDelete,
+}: TextBlockPreviewProps) {
+  const { block } = box;
+  const [editing, setEditing] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Wrap the selection in a bold or italic marker
+  const wrapSelection = (marker: string) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const { selectionStart, selectionEnd } = textarea;
+    const content = block.content;
+    onChange({
+      ...block,
+      content:
+        content.slice(0, selectionStart) +
+        marker +
+        content.slice(selectionStart, selectionEnd) +
+        marker +
+        content.slice(selectionEnd),
+    });
+  };
+
+  // Turn the line with the cursor into a heading, or back into text
+  const toggleHeading = (prefix: string) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const content = block.content;
+    const lineStart =
+      content.lastIndexOf("\n", textarea.selectionStart - 1) + 1;
+    const rest = content.slice(lineStart);
+    const current = /^#{1,2}\s+/.exec(rest)?.[0];
+    const line = current ? rest.slice(current.length) : rest;
+    onChange({
+      ...block,
+      content:
+        content.slice(0, lineStart) +
+        (current?.trim() === prefix.trim() ? "" : prefix) +
+        line,
+    });
+  };
+
+  const toolButton = (icon: string, title: string, onClick: () => void) => (
+    <button
+      key={title}
+      onMouseDown={(e) => e.preventDefault()}
+      onClick={onClick}
+      className="p-0.5 rounded text-gray-700 hover:bg-gray-200"
+      title={title}
+    >
+      <Icon path={icon} size={0.6} />
+    </button>
+  );
+
+  return (
+    <div
+      className={`absolute group ${editing ? "z-30" : "cursor-text"}`}
+      style={{
+        left: `${toPoints(box.x)}px`,
+        top: `${toPoints(box.y)}px`,
+        width: `${toPoints(box.width)}px`,
+        height: `${toPoints(box.height)}px`,
+      }}
+      onClick={() => setEditing(true)}
+    >
+      {editing ? (
+        <div className="w-full h-full flex flex-col bg-white border border-blue-400 rounded">
+          <div className="flex items-center gap-0.5 p-0.5 border-b border-gray-200">
+            {toolButton(mdiFormatBold, "Bold", () => wrapSelection("**"))}
+            {toolButton(mdiFormatItalic, "Italic", () => wrapSelection("*"))}
+            {toolButton(mdiFormatHeader1, "Heading", () => toggleHeading("# "))}
+            {toolButton(mdiFormatHeader2, "Subheading", () =>
+              toggleHeading("## "),
+            )}
+            <span className="w-px h-4 bg-gray-300 mx-1" />
+            {ALIGNMENTS.map(({ align, icon, title }) => (
+              <button
+                key={align}
+                onClick={() => onChange({ ...block, align })}
+                className={`p-0.5 rounded ${
+                  block.align === align
+                    ? "bg-blue-500 text-white"
+                    : "text-gray-700 hover:bg-gray-200"
+                }`}
+                title={title}
+              >
+                <Icon path={icon} size={0.6} />
+              </button>
+            ))}
+            <span className="flex-1" />
+            {toolButton(mdiDeleteOutline, "Delete text", onDelete)}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setEditing(false);
+              }}
+              className="p-0.5 rounded bg-blue-500 text-white hover:bg-blue-600"
+              title="Done"
+            >
+              <Icon path={mdiCheck} size={0.6} />
+            </button>
+          </div>
+          <textarea
+            ref={textareaRef}
+            value={block.content}
+            onChange={(e) => onChange({ ...block, content: e.target.value })}
+            placeholder={
+              "# Heading\n## Subheading\n\nText with **bold** and *italic*"
+            }
+            className="flex-1 p-1 text-xs font-mono resize-none focus:outline-none"
+            autoFocus
+          />
+        </div>
+      ) : (
+        <div
+          className="w-full h-full overflow-hidden text-black group-hover:outline group-hover:outline-1 group-hover:outline-blue-400"
+          style={{ textAlign: block.align }}
+        >
+          {block.content.trim() === "" ? (
+            <div className="w-full h-full flex items-center justify-center text-xs text-gray-400 border border-dashed border-gray-300">
+              Click to add text
+            </div>
+          ) : (
+            parseRichText(block.content).map((paragraph, index) => (
+              <p key={index} style={styles[paragraph.kind]}>
+                {paragraph.runs.map((run, runIndex) => (
+                  <span
+                    key={runIndex}
+                    style={{
+                      fontWeight: run.bold ? 700 : undefined,
+                      fontStyle: run.italic ? "italic" : undefined,
+                    }}
+                  >
+                    {run.text}
+                  </span>
+                ))}
+              </p>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TextBlockPreview;
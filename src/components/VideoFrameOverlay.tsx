@@ -0,0 +1,40 @@
+import type { PixelSize } from "../utils/printImages";
+import type { OverlayBox, VideoOverlay } from "../utils/videoFrames";
+import QrCodeSvg from "./QrCodeSvg";
+
+interface VideoFrameOverlayProps {
+  overlay: VideoOverlay;
+  image: PixelSize; // size of the image the overlay is placed on
+  link: string;
+}
+
+// Play badge and QR code on a video frame in the live preview, same as in
+// the PDF
+function VideoFrameOverlay({ overlay, image, link }: VideoFrameOverlayProps) {
+  const boxStyle = (box: OverlayBox) => ({
+    left: `${(box.x / image.width) * 100}%`,
+    top: `${(box.y / image.height) * 100}%`,
+    width: `${(box.size / image.width) * 100}%`,
+    height: `${(box.size / image.height) * 100}%`,
+  });
+
+  return (
+    <>
+      <svg
+        className="absolute pointer-events-none"
+        style={boxStyle(overlay.badge)}
+        viewBox="0 0 24 24"
+      >
+        <circle cx="12" cy="12" r="12" fill="black" fillOpacity="0.5" />
+        <path d="M9.5 7v10l8-5z" fill="white" />
+      </svg>
+      <QrCodeSvg
+        text={link}
+        className="absolute pointer-events-none"
+        style={boxStyle(overlay.qrCode)}
+      />
+    </>
+  );
+}
+
+export default VideoFrameOverlay;
@@ -0,0 +1,114 @@
+import { useRef, useState } from "react";
+import Icon from "@mdi/react";
+import { mdiCheck, mdiClose, mdiImageOutline, mdiVideoOff } from "@mdi/js";
+import type { AssetResponseDto } from "@immich/sdk";
+import type { ImmichConfig } from "./ConnectionForm";
+import {
+  videoDuration,
+  videoPlaybackUrl,
+  type VideoFrame,
+} from "../utils/videoFrames";
+
+interface VideoFramePickerProps {
+  immichConfig: ImmichConfig;
+  asset: AssetResponseDto;
+  frame: VideoFrame | undefined; // undefined while printed as plain thumbnail
+  onChange: (frame: VideoFrame | null) => void;
+  onClose: () => void;
+}
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, "0")}`;
+
+// Overlay on a video in the live preview: scrub through the video and pick
+// the frame to print, or print the Immich thumbnail instead
+function VideoFramePicker({
+  immichConfig,
+  asset,
+  frame,
+  onChange,
+  onClose,
+}: VideoFramePickerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [time, setTime] = useState(frame?.time ?? 0);
+  const [duration, setDuration] = useState(videoDuration(asset));
+
+  const seek = (next: number) => {
+    setTime(next);
+    if (videoRef.current) videoRef.current.currentTime = next;
+  };
+
+  return (
+    <div
+      className="absolute inset-0 z-30 ring-2 ring-inset ring-pink-500 bg-black cursor-default"
+      onMouseDown={(e) => e.stopPropagation()}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <video
+        ref={videoRef}
+        src={videoPlaybackUrl(immichConfig, asset.id)}
+        className="w-full h-full object-contain"
+        muted
+        preload="auto"
+        onLoadedMetadata={(e) => {
+          if (Number.isFinite(e.currentTarget.duration)) {
+            setDuration(e.currentTarget.duration);
+          }
+          e.currentTarget.currentTime = time;
+        }}
+      />
+      <div className="absolute top-2 left-2 right-2 flex items-center gap-1 bg-white/90 rounded shadow px-1 py-0.5">
+        <input
+          type="range"
+          min="0"
+          max={duration}
+          step="0.04"
+          value={time}
+          onChange={(e) => seek(Number(e.target.value))}
+          className="flex-1 min-w-0 h-3"
+          title="Frame"
+        />
+        <span className="text-[10px] text-gray-700 tabular-nums">
+          {formatTime(time)}
+        </span>
+        <button
+          onClick={() => onChange({ time: null })}
+          className={`p-0.5 rounded hover:bg-gray-200 ${
+            frame?.time === null ? "text-pink-600" : "text-gray-700"
+          }`}
+          title="Print the Immich thumbnail with play badge and QR code"
+        >
+          <Icon path={mdiImageOutline} size={0.6} />
+        </button>
+        {frame && (
+          <button
+            onClick={() => onChange(null)}
+            className="p-0.5 rounded text-gray-700 hover:bg-gray-200"
+            title="Print as plain photo, without play badge and QR code"
+          >
+            <Icon path={mdiVideoOff} size={0.6} />
+          </button>
+        )}
+        <button
+          onClick={() => {
+            onChange({ time });
+            onClose();
+          }}
+          className="p-0.5 rounded bg-pink-500 text-white hover:bg-pink-600"
+          title="Use this frame"
+        >
+          <Icon path={mdiCheck} size={0.6} />
+        </button>
+        <button
+          onClick={onClose}
+          className="p-0.5 rounded text-gray-700 hover:bg-gray-200"
+          title="Close"
+        >
+          <Icon path={mdiClose} size={0.6} />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default VideoFramePicker;
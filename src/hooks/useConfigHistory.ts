@@ -0,0 +1,145 @@
+import { useState, useEffect, useRef } from "react";
+import type { BookConfig } from "../utils/bookConfig";
+
+interface History {
+  past: BookConfig[];
+  future: BookConfig[];
+}
+
+// Undo steps kept per book, older ones are dropped
+const HISTORY_LIMIT = 50;
+
+// Changes in quick succession (dragging a border, typing a number) are
+// recorded as one undo step once they settle
+const SETTLE_DELAY_MS = 500;
+
+// The history is kept in sessionStorage to survive a reload of the tab
+function loadHistory(bookId: string): History {
+  try {
+    const stored = sessionStorage.getItem(`immich-book-history-${bookId}`);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (e) {
+    console.error("Failed to load undo history:", e);
+  }
+  return { past: [], future: [] };
+}
+
+function saveHistory(bookId: string, history: History) {
+  try {
+    sessionStorage.setItem(
+      `immich-book-history-${bookId}`,
+      JSON.stringify(history),
+    );
+  } catch (e) {
+    console.error("Failed to save undo history:", e);
+  }
+}
+
+/**
+ * Undo and redo changes of a book config, also with Ctrl+Z and Ctrl+Shift+Z
+ * (or Ctrl+Y) outside of text fields
+ */
+export function useConfigHistory(
+  bookId: string,
+  config: BookConfig | null, // null while the settings are invalid
+  applyConfig: (config: BookConfig) => void,
+) {
+  const [history, setHistory] = useState<History>(() => loadHistory(bookId));
+  // Config at the end of the recorded history
+  const committed = useRef<BookConfig | null>(null);
+  const latest = useRef(config);
+  latest.current = config;
+
+  useEffect(() => {
+    saveHistory(bookId, history);
+  }, [bookId, history]);
+
+  // Record changes once they settle
+  useEffect(() => {
+    if (!config) return;
+    const previous = committed.current;
+    if (previous === null) {
+      committed.current = config;
+      return;
+    }
+    if (JSON.stringify(config) === JSON.stringify(previous)) return;
+
+    const timeout = setTimeout(() => {
+      committed.current = config;
+      setHistory((h) => ({
+        past: [...h.past, previous].slice(-HISTORY_LIMIT),
+        future: [],
+      }));
+    }, SETTLE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [config]);
+
+  const restore = (target: BookConfig) => {
+    committed.current = target;
+    applyConfig(target);
+  };
+
+  // Changes not recorded yet are undone first
+  const hasUnsettled = () =>
+    latest.current !== null &&
+    committed.current !== null &&
+    JSON.stringify(latest.current) !== JSON.stringify(committed.current);
+
+  const canUndo = history.past.length > 0 || hasUnsettled();
+  const canRedo = history.future.length > 0;
+
+  const undo = () => {
+    const current = latest.current;
+    const base = committed.current;
+    if (!current) return;
+    const past =
+      base && hasUnsettled() ? [...history.past, base] : history.past;
+    if (past.length === 0) return;
+    setHistory({
+      past: past.slice(0, -1),
+      future: [current, ...history.future],
+    });
+    restore(past[past.length - 1]);
+  };
+
+  const redo = () => {
+    const current = latest.current;
+    if (!current || history.future.length === 0) return;
+    setHistory({
+      past: [...history.past, current].slice(-HISTORY_LIMIT),
+      future: history.future.slice(1),
+    });
+    restore(history.future[0]);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key !== "z" && key !== "y") return;
+      // Keep the native undo of text fields
+      const target = e.target as HTMLElement;
+      if (target.closest("input, textarea, select, [contenteditable]")) return;
+
+      e.preventDefault();
+      if (key === "y" || e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  return {
+    canUndo,
+    canRedo,
+    undo,
+    redo,
+    // Apply a config that is no undo step of its own, like the server copy
+    applyWithoutUndo: restore,
+  };
+}
@@ -0,0 +1,163 @@
+import { useState, useEffect, useRef } from "react";
+import type { BookConfig } from "../utils/bookConfig";
+import type { Book } from "../utils/bookSource";
+import {
+  configAlbumId,
+  createConfigAlbumBackend,
+  loadSyncState,
+  saveSyncState,
+  type ConfigBackend,
+  type RemoteConfig,
+  type SyncState,
+} from "../utils/configStorage";
+
+export type SyncStatus =
+  | "unavailable" // book has no album to store the config in
+  | "off"
+  | "loading"
+  | "saving"
+  | "synced"
+  | "offline" // server not reachable, changes are kept locally
+  | "conflict";
+
+// Wait for edits to settle before saving on the server
+const SAVE_DELAY_MS = 2000;
+
+const defaultBackend = createConfigAlbumBackend();
+
+/**
+ * Keep the config of a book in sync with the server. Loads the server copy
+ * on mount and applies it if there are no local changes, saves local changes
+ * after a short delay and reports conflicting saves from elsewhere.
+ */
+export function useConfigSync(
+  book: Book,
+  config: BookConfig | null, // null while the settings are invalid
+  applyConfig: (config: BookConfig) => void,
+  backend: ConfigBackend = defaultBackend,
+) {
+  const hasAlbum = configAlbumId(book) !== null;
+  const syncState = useRef<SyncState>(loadSyncState(book.id));
+  // Books synced before keep tracking local changes while offline
+  const [enabled, setEnabled] = useState(syncState.current.revision !== null);
+  const [status, setStatus] = useState<SyncStatus>("loading");
+  const [conflict, setConflict] = useState<RemoteConfig | null>(null);
+  const lastSynced = useRef<string | null>(null);
+
+  const updateSyncState = (state: Partial<SyncState>) => {
+    syncState.current = { ...syncState.current, ...state };
+    saveSyncState(book.id, syncState.current);
+  };
+
+  const applyRemote = (remote: RemoteConfig) => {
+    lastSynced.current = JSON.stringify(remote.config);
+    updateSyncState({ revision: remote.revision, pending: false });
+    applyConfig(remote.config);
+    setConflict(null);
+    setStatus("synced");
+  };
+
+  const save = async (config: BookConfig) => {
+    setStatus("saving");
+    try {
+      const result = await backend.save(
+        book,
+        config,
+        syncState.current.revision,
+      );
+      if (result.status === "conflict") {
+        setConflict(result.remote);
+        setStatus("conflict");
+        return;
+      }
+      lastSynced.current = JSON.stringify(config);
+      updateSyncState({ revision: result.remote.revision, pending: false });
+      setStatus("synced");
+    } catch (err) {
+      console.error("Failed to save config on server:", err);
+      setStatus("offline");
+    }
+  };
+
+  // Load the server copy
+  useEffect(() => {
+    syncState.current = loadSyncState(book.id);
+    lastSynced.current = null;
+    setEnabled(syncState.current.revision !== null);
+    setConflict(null);
+    if (!hasAlbum) {
+      setStatus("unavailable");
+      return;
+    }
+
+    setStatus("loading");
+    let cancelled = false;
+    backend
+      .load(book)
+      .then((remote) => {
+        if (cancelled) return;
+        if (!remote) {
+          setEnabled(false);
+          setStatus("off");
+          return;
+        }
+        setEnabled(true);
+        if (remote.revision === syncState.current.revision) {
+          // Local changes (if any) are saved by the effect below
+          if (!syncState.current.pending) {
+            lastSynced.current = JSON.stringify(remote.config);
+          }
+          setStatus("synced");
+        } else if (syncState.current.pending) {
+          setConflict(remote);
+          setStatus("conflict");
+        } else {
+          applyRemote(remote);
+        }
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error("Failed to load config from server:", err);
+        setStatus("offline");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [book.id]);
+
+  // Save local changes
+  const isBlocked = status === "loading" || status === "conflict";
+  useEffect(() => {
+    if (!enabled || !config || isBlocked) return;
+    if (JSON.stringify(config) === lastSynced.current) return;
+
+    updateSyncState({ pending: true });
+    const timeout = setTimeout(() => save(config), SAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [enabled, config, isBlocked]);
+
+  return {
+    status,
+    conflict,
+    // Start storing the config on the server
+    enable: () => {
+      setEnabled(true);
+      if (config) save(config);
+    },
+    retry: () => {
+      if (config) save(config);
+    },
+    // Resolve a conflict by taking the server copy or overwriting it
+    takeRemote: () => {
+      if (conflict) applyRemote(conflict);
+    },
+    keepLocal: () => {
+      if (!conflict || !config) return;
+      updateSyncState({ revision: conflict.revision });
+      setConflict(null);
+      save(config);
+    },
+  };
+}
+
+export type ConfigSync = ReturnType<typeof useConfigSync>;
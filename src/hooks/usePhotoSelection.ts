@@ -0,0 +1,237 @@
+import { useState, useEffect, useMemo } from "react";
+import {
+  assetRange,
+  moveAssets,
+  moveAssetsBy,
+  pageOfIndex,
+  sectionBounds,
+} from "../utils/reordering";
+
+interface PhotoSelectionOptions {
+  order: string[]; // asset IDs in the order of the book
+  pageStarts: number[]; // index of the first photo on or after each page
+  startsSection: (assetId: string) => boolean;
+  onReorder: (order: string[]) => void;
+  onFocus: (assetId: string) => void; // bring a photo into view
+  enabled: boolean; // listen to the keyboard
+}
+
+/**
+ * Selection of photos in the preview, to move several photos at once with
+ * the mouse or the keyboard and to cut and paste them:
+ * - Alt+Left/Right: one photo earlier or later
+ * - Alt+Up/Down: over the photos of the previous or next page
+ * - Alt+Home/End: to the start or end of the book
+ * - Left/Right: select the photo before or after, with Shift to extend
+ * - Ctrl+X, Ctrl+V: cut the selection, paste it in front of the selection
+ * - Ctrl+A, Escape: select all, clear the selection
+ */
+export function usePhotoSelection({
+  order,
+  pageStarts,
+  startsSection,
+  onReorder,
+  onFocus,
+  enabled,
+}: PhotoSelectionOptions) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [anchorId, setAnchorId] = useState<string | null>(null);
+  const [cutIds, setCutIds] = useState<string[]>([]);
+
+  // Selected photos still in the book, in book order
+  const selection = useMemo(() => {
+    const ids = new Set(selectedIds);
+    return order.filter((id) => ids.has(id));
+  }, [order, selectedIds]);
+  const selected = useMemo(() => new Set(selection), [selection]);
+  const cut = useMemo(() => new Set(cutIds), [cutIds]);
+
+  // Select a photo, a range from the last selected photo or toggle it
+  const select = (
+    assetId: string,
+    { range = false, toggle = false }: { range?: boolean; toggle?: boolean },
+  ) => {
+    if (range && anchorId) {
+      const ids = assetRange(order, anchorId, assetId);
+      setSelectedIds(toggle ? [...new Set([...selection, ...ids])] : ids);
+      return;
+    }
+    if (toggle) {
+      setSelectedIds(
+        selected.has(assetId)
+          ? selection.filter((id) => id !== assetId)
+          : [...selection, assetId],
+      );
+    } else {
+      setSelectedIds([assetId]);
+    }
+    setAnchorId(assetId);
+  };
+
+  // Select the photos inside a lasso, added to the selection if additive
+  const selectMany = (assetIds: string[], additive: boolean) => {
+    setSelectedIds(
+      additive ? [...new Set([...selection, ...assetIds])] : assetIds,
+    );
+    if (assetIds.length > 0) setAnchorId(assetIds[0]);
+  };
+
+  const clear = () => {
+    setSelectedIds([]);
+    setAnchorId(null);
+  };
+
+  // Clear the selection and forget the cut photos
+  const cancel = () => {
+    clear();
+    setCutIds([]);
+  };
+
+  const reorder = (newOrder: string[]) => {
+    if (newOrder === order) return;
+    onReorder(newOrder);
+    if (selection.length > 0) onFocus(selection[0]);
+  };
+
+  // Move the selection in front of the photo at index
+  const moveTo = (index: number) => {
+    if (selection.length > 0) reorder(moveAssets(order, selection, index));
+  };
+
+  // Move the selection to the start of a page, counted from 1
+  const moveToPage = (pageNumber: number) => {
+    moveTo(pageStarts[pageNumber - 1] ?? order.length);
+  };
+
+  // Move the selection to the start or end of the section of its first photo
+  const moveToSection = (edge: "start" | "end") => {
+    if (selection.length === 0) return;
+    const { start, end } = sectionBounds(
+      order,
+      order.indexOf(selection[0]),
+      startsSection,
+    );
+    moveTo(edge === "start" ? start : end);
+  };
+
+  // Move the dragged photo, with the rest of the selection if it is selected.
+  // Dropped onto a later photo, the photos go behind it.
+  const drop = (draggedId: string, targetIndex: number) => {
+    const draggedIndex = order.indexOf(draggedId);
+    const moving = selected.has(draggedId) ? selection : [draggedId];
+    onReorder(
+      moveAssets(
+        order,
+        moving,
+        targetIndex > draggedIndex ? targetIndex + 1 : targetIndex,
+      ),
+    );
+  };
+
+  const cutSelection = () => {
+    if (selection.length > 0) setCutIds(selection);
+  };
+
+  // Paste the cut photos in front of the selection, at the end without one
+  const paste = () => {
+    const pasted = order.filter((id) => cut.has(id));
+    if (pasted.length === 0) return;
+    const target = selection.find((id) => !cut.has(id));
+    onReorder(
+      moveAssets(order, pasted, target ? order.indexOf(target) : order.length),
+    );
+    setCutIds([]);
+    setSelectedIds(pasted);
+    setAnchorId(pasted[0]);
+    onFocus(pasted[0]);
+  };
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest("input, textarea, select, [contenteditable]")) return;
+
+      const key = e.key.toLowerCase();
+      if (e.ctrlKey || e.metaKey) {
+        if (key === "a") {
+          setSelectedIds(order);
+          setAnchorId(order[0] ?? null);
+        } else if (key === "x" && selection.length > 0) {
+          cutSelection();
+        } else if (key === "v" && cutIds.length > 0) {
+          paste();
+        } else {
+          return;
+        }
+        e.preventDefault();
+        return;
+      }
+
+      if (e.key === "Escape" && (selection.length > 0 || cutIds.length > 0)) {
+        cancel();
+        return;
+      }
+      if (selection.length === 0) return;
+
+      const first = order.indexOf(selection[0]);
+      const last = order.indexOf(selection[selection.length - 1]);
+      if (e.altKey) {
+        switch (e.key) {
+          case "ArrowLeft":
+            reorder(moveAssetsBy(order, selection, -1));
+            break;
+          case "ArrowRight":
+            reorder(moveAssetsBy(order, selection, 1));
+            break;
+          case "ArrowUp":
+            moveToPage(Math.max(1, pageOfIndex(pageStarts, first)));
+            break;
+          case "ArrowDown":
+            moveToPage(pageOfIndex(pageStarts, last) + 3);
+            break;
+          case "Home":
+            moveTo(0);
+            break;
+          case "End":
+            moveTo(order.length);
+            break;
+          default:
+            return;
+        }
+        e.preventDefault();
+        return;
+      }
+
+      if (e.key === "ArrowLeft" || e.key === "ArrowRight") {
+        const next = e.key === "ArrowLeft" ? order[first - 1] : order[last + 1];
+        if (!next) return;
+        e.preventDefault();
+        if (e.shiftKey) {
+          setSelectedIds([...selection, next]);
+        } else {
+          select(next, {});
+        }
+        onFocus(next);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  return {
+    selection,
+    selected,
+    cut,
+    canPaste: cutIds.length > 0,
+    select,
+    selectMany,
+    clear,
+    cancel,
+    moveToPage,
+    moveToSection,
+    drop,
+    cutSelection,
+    paste,
+  };
+}
@@ -0,0 +1,45 @@
+import { useEffect, useState } from "react";
+import type { ImmichConfig } from "../components/ConnectionForm";
+import { captureVideoFrame, type VideoFrame } from "../utils/videoFrames";
+
+// Object URLs of captured frames, kept for the whole session like the frames
+const frameUrls = new Map<string, string>();
+
+/**
+ * Capture the picked frames of videos for the live preview. Returns a lookup
+ * for the frame image of an asset, undefined while it is captured or if it
+ * prints the Immich thumbnail.
+ */
+export function useVideoFrameUrls(
+  immichConfig: ImmichConfig,
+  videoFrames: Map<string, VideoFrame>,
+) {
+  // Bumped when a frame is ready, to render it
+  const [, setCaptured] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    for (const [assetId, { time }] of videoFrames) {
+      if (time === null || frameUrls.has(`${assetId}:${time}`)) continue;
+      captureVideoFrame(immichConfig, assetId, time)
+        .then((blob) => {
+          const key = `${assetId}:${time}`;
+          if (!frameUrls.has(key)) {
+            frameUrls.set(key, URL.createObjectURL(blob));
+          }
+          if (!cancelled) setCaptured((count) => count + 1);
+        })
+        .catch((err) =>
+          console.warn(`Failed to capture frame of video ${assetId}:`, err),
+        );
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [immichConfig, videoFrames]);
+
+  return (assetId: string): string | undefined => {
+    const time = videoFrames.get(assetId)?.time;
+    return time == null ? undefined : frameUrls.get(`${assetId}:${time}`);
+  };
+}
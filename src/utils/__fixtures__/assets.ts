@@ -0,0 +1,40 @@
+import type { AssetResponseDto } from "@immich/sdk";
+
+// Minimal asset for layout tests, only the fields the layout reads are set
+export function fixtureAsset(
+  id: string,
+  width: number,
+  height: number,
+  orientation: string | null = null,
+): AssetResponseDto {
+  return {
+    id,
+    type: "IMAGE",
+    fileCreatedAt: "2024-06-01T12:00:00.000Z",
+    exifInfo: {
+      exifImageWidth: width,
+      exifImageHeight: height,
+      orientation,
+    },
+  } as AssetResponseDto;
+}
+
+// Photos in the usual mix of a trip album: landscape 3:2 and 4:3, portrait
+// and the occasional square or panorama
+const SIZES: [number, number][] = [
+  [6000, 4000],
+  [4000, 3000],
+  [3000, 4000],
+  [6000, 4000],
+  [4000, 4000],
+  [4000, 6000],
+  [12000, 3000],
+  [4000, 3000],
+];
+
+export function fixtureAlbum(count: number): AssetResponseDto[] {
+  return Array.from({ length: count }, (_, i) => {
+    const [width, height] = SIZES[i % SIZES.length];
+    return fixtureAsset(`asset-${i}`, width, height);
+  });
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  assetAspectRatio,
+  isRotated,
+  withProbedDimensions,
+} from "./aspectRatio";
+import { fixtureAsset } from "./__fixtures__/assets";
+
+describe("isRotated", () => {
+  it.each([
+    ["1", false],
+    ["2", false],
+    ["3", false],
+    ["4", false],
+    ["5", true],
+    ["6", true],
+    ["7", true],
+    ["8", true],
+    ["90", true],
+    ["-90", true],
+    ["180", false],
+    [null, false],
+    [undefined, false],
+  ])("orientation %s is rotated: %s", (orientation, rotated) => {
+    expect(isRotated(orientation)).toBe(rotated);
+  });
+});
+
+describe("assetAspectRatio", () => {
+  it("uses the EXIF dimensions and orientation", () => {
+    expect(assetAspectRatio(fixtureAsset("a", 4000, 3000))).toBe(4 / 3);
+    expect(assetAspectRatio(fixtureAsset("b", 4000, 3000, "8"))).toBe(3 / 4);
+  });
+
+  it("takes assets without dimensions as square", () => {
+    expect(assetAspectRatio(fixtureAsset("c", 0, 3000))).toBe(1);
+  });
+});
+
+describe("withProbedDimensions", () => {
+  it("probes only assets without dimensions", async () => {
+    const assets = [
+      fixtureAsset("known", 4000, 3000, "6"),
+      fixtureAsset("unknown", 0, 0, "6"),
+    ];
+    const probe = vi.fn(async () => ({ width: 1080, height: 2340 }));
+
+    const probed = await withProbedDimensions(assets, probe);
+    expect(probe).toHaveBeenCalledTimes(1);
+    expect(probed[0]).toBe(assets[0]);
+    // The probed size is upright, the orientation no longer applies
+    expect(assetAspectRatio(probed[1])).toBeCloseTo(1080 / 2340);
+  });
+
+  it("keeps assets that can't be probed", async () => {
+    const assets = [fixtureAsset("broken", 0, 0)];
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const probed = await withProbedDimensions(assets, async () => {
+      throw new Error("not found");
+    });
+    expect(probed).toEqual(assets);
+  });
+});
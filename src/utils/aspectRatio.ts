@@ -0,0 +1,110 @@
+import type { AssetResponseDto } from "@immich/sdk";
+import type { ImmichConfig } from "../components/ConnectionForm";
+
+export interface ImageDimensions {
+  width: number; // in pixels
+  height: number; // in pixels
+}
+
+// Reads the displayed size of an asset, e.g. from its thumbnail
+export type DimensionsProbe = (
+  asset: AssetResponseDto,
+) => Promise<ImageDimensions>;
+
+// Thumbnails probed at the same time
+const PROBE_CONCURRENCY = 8;
+
+/**
+ * Whether an EXIF orientation turns the image by 90 degrees, so width and
+ * height are swapped when displayed. Orientations 5 to 8 are rotated (5 and 7
+ * also mirrored), Immich may also report the rotation in degrees.
+ */
+export function isRotated(orientation: string | null | undefined): boolean {
+  switch (Number(orientation)) {
+    case 5:
+    case 6:
+    case 7:
+    case 8:
+    case 90:
+    case -90:
+      return true;
+    default:
+      return false;
+  }
+}
+
+// Whether the asset has EXIF dimensions to calculate its aspect ratio
+export function hasDimensions(asset: AssetResponseDto): boolean {
+  return !!asset.exifInfo?.exifImageWidth && !!asset.exifInfo?.exifImageHeight;
+}
+
+/**
+ * Aspect ratio (width / height) of an asset as displayed, from the EXIF
+ * dimensions and orientation. Assets without dimensions are taken as square,
+ * load them with withProbedDimensions to avoid that.
+ */
+export function assetAspectRatio(asset: AssetResponseDto): number {
+  if (!hasDimensions(asset)) return 1;
+  const width = asset.exifInfo!.exifImageWidth!;
+  const height = asset.exifInfo!.exifImageHeight!;
+  return isRotated(asset.exifInfo?.orientation)
+    ? height / width
+    : width / height;
+}
+
+/**
+ * Fill in the dimensions of assets without EXIF dimensions (e.g. screenshots
+ * or edited exports) from a probe. The probed size is already upright, so the
+ * orientation is cleared. Assets that can't be probed are kept as they are.
+ */
+export async function withProbedDimensions(
+  assets: AssetResponseDto[],
+  probe: DimensionsProbe,
+): Promise<AssetResponseDto[]> {
+  const result = [...assets];
+  const missing = assets
+    .map((asset, index) => ({ asset, index }))
+    .filter(({ asset }) => !hasDimensions(asset));
+
+  for (let i = 0; i < missing.length; i += PROBE_CONCURRENCY) {
+    await Promise.all(
+      missing.slice(i, i + PROBE_CONCURRENCY).map(async ({ asset, index }) => {
+        try {
+          const { width, height } = await probe(asset);
+          result[index] = {
+            ...asset,
+            exifInfo: {
+              ...asset.exifInfo,
+              exifImageWidth: width,
+              exifImageHeight: height,
+              orientation: null,
+            },
+          };
+        } catch (err) {
+          console.warn(`Failed to probe size of asset ${asset.id}:`, err);
+        }
+      }),
+    );
+  }
+  return result;
+}
+
+// Probe the size of the small Immich thumbnail in the browser
+export function thumbnailProbe(immichConfig: ImmichConfig): DimensionsProbe {
+  return async (asset) => {
+    const response = await fetch(
+      `${immichConfig.baseUrl}/assets/${asset.id}/thumbnail?size=thumbnail&apiKey=${immichConfig.apiKey}`,
+    );
+    if (!response.ok) {
+      throw new Error(`Failed to load thumbnail: ${response.status}`);
+    }
+    const bitmap = await createImageBitmap(await response.blob(), {
+      imageOrientation: "from-image",
+    });
+    try {
+      return { width: bitmap.width, height: bitmap.height };
+    } finally {
+      bitmap.close();
+    }
+  };
+}
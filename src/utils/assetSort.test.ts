@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import type { AssetResponseDto } from "@immich/sdk";
+import {
+  bookCameras,
+  formatClockOffset,
+  parseClockOffset,
+  sortAssets,
+} from "./assetSort";
+
+const asset = (
+  id: string,
+  fileCreatedAt: string,
+  overrides: Partial<AssetResponseDto> = {},
+) =>
+  ({
+    id,
+    originalFileName: `${id}.jpg`,
+    fileCreatedAt,
+    localDateTime: fileCreatedAt,
+    exifInfo: { make: "Canon", model: "EOS R6" },
+    ...overrides,
+  }) as AssetResponseDto;
+
+const ids = (assets: AssetResponseDto[]) => assets.map((a) => a.id);
+
+describe("sortAssets", () => {
+  it("sorts by local time across time zones", () => {
+    const assets = [
+      // 10:00 in New York, after 14:00 UTC
+      asset("ny", "2024-06-01T14:00:00.000Z", {
+        localDateTime: "2024-06-01T10:00:00.000Z",
+      }),
+      // 12:00 in Rome
+      asset("rome", "2024-06-01T10:00:00.000Z", {
+        localDateTime: "2024-06-01T12:00:00.000Z",
+      }),
+    ];
+    expect(ids(sortAssets(assets, "fileCreatedAt"))).toEqual(["rome", "ny"]);
+    expect(ids(sortAssets(assets, "localDateTime"))).toEqual(["ny", "rome"]);
+  });
+
+  it("corrects the clock of a camera", () => {
+    const phone = { exifInfo: { make: "Apple", model: "iPhone 15" } };
+    const assets = [
+      asset("camera-1", "2024-06-01T11:00:00.000Z"),
+      asset("phone", "2024-06-01T10:30:00.000Z", phone),
+      asset("camera-2", "2024-06-01T11:45:00.000Z"),
+    ];
+    expect(ids(sortAssets(assets, "fileCreatedAt"))).toEqual([
+      "phone",
+      "camera-1",
+      "camera-2",
+    ]);
+    // The camera clock was an hour ahead
+    expect(
+      ids(sortAssets(assets, "fileCreatedAt", { "Canon EOS R6": -3600 })),
+    ).toEqual(["camera-1", "phone", "camera-2"]);
+  });
+
+  it("sorts by file name with numbers by value and by rating", () => {
+    const assets = [
+      asset("IMG_10", "2024-06-01T10:00:00.000Z"),
+      asset("IMG_9", "2024-06-01T11:00:00.000Z", {
+        exifInfo: { rating: 5 },
+      }),
+      asset("IMG_100", "2024-06-01T12:00:00.000Z"),
+    ];
+    expect(ids(sortAssets(assets, "filename"))).toEqual([
+      "IMG_9",
+      "IMG_10",
+      "IMG_100",
+    ]);
+    expect(ids(sortAssets(assets, "rating"))).toEqual([
+      "IMG_9",
+      "IMG_10",
+      "IMG_100",
+    ]);
+    expect(sortAssets(assets, "album")).toBe(assets);
+  });
+});
+
+describe("bookCameras", () => {
+  it("counts the photos of each camera", () => {
+    expect(
+      bookCameras([
+        asset("a", "2024-06-01T10:00:00.000Z"),
+        asset("b", "2024-06-01T10:00:00.000Z", { exifInfo: {} }),
+        asset("c", "2024-06-01T10:00:00.000Z"),
+      ]),
+    ).toEqual([
+      { key: "Canon EOS R6", count: 2 },
+      { key: "", count: 1 },
+    ]);
+  });
+});
+
+describe("clock offsets", () => {
+  it("parses and formats hours, minutes and seconds", () => {
+    expect(parseClockOffset("+1:30")).toBe(5400);
+    expect(parseClockOffset("-0:05:10")).toBe(-310);
+    expect(parseClockOffset("2")).toBe(7200);
+    expect(parseClockOffset("1:75")).toBeNull();
+    expect(parseClockOffset("abc")).toBeNull();
+    expect(formatClockOffset(5400)).toBe("+1:30");
+    expect(formatClockOffset(-310)).toBe("-0:05:10");
+  });
+});
@@ -0,0 +1,139 @@
+import type { AssetResponseDto } from "@immich/sdk";
+
+// Base order of the photos, custom ordering is applied on top of it
+// - fileCreatedAt: time taken in UTC, like Immich's timeline
+// - localDateTime: time taken on the local clock of the place it was taken
+// - dateTimeOriginal: time taken from the EXIF data
+// - filename: original file name, numbers compared by value
+// - rating: highest rated first
+// - album: as returned by Immich, album by album
+export type SortStrategy =
+  | "fileCreatedAt"
+  | "localDateTime"
+  | "dateTimeOriginal"
+  | "filename"
+  | "rating"
+  | "album";
+
+// A camera in the photos of a book
+export interface BookCamera {
+  key: string; // "make model", empty for photos without camera
+  count: number;
+}
+
+// Camera of an asset, used to correct its clock
+export function cameraKey(asset: AssetResponseDto): string {
+  return [asset.exifInfo?.make, asset.exifInfo?.model]
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join(" ");
+}
+
+// Cameras in the assets, the most frequent first
+export function bookCameras(assets: AssetResponseDto[]): BookCamera[] {
+  const counts = new Map<string, number>();
+  for (const asset of assets) {
+    const key = cameraKey(asset);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([key, count]) => ({ key, count }))
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+}
+
+/**
+ * Time an asset was taken in milliseconds, by the clock of the strategy and
+ * corrected by the offset of its camera (in seconds, added to its clock)
+ */
+export function assetTime(
+  asset: AssetResponseDto,
+  strategy: SortStrategy,
+  cameraOffsets: Record<string, number> = {},
+): number {
+  let time: string;
+  switch (strategy) {
+    case "localDateTime":
+      // Local wall clock time, stored as if it was UTC
+      time = asset.localDateTime ?? asset.fileCreatedAt;
+      break;
+    case "dateTimeOriginal":
+      time = asset.exifInfo?.dateTimeOriginal ?? asset.fileCreatedAt;
+      break;
+    default:
+      time = asset.fileCreatedAt;
+  }
+  return (
+    new Date(time).getTime() + (cameraOffsets[cameraKey(asset)] ?? 0) * 1000
+  );
+}
+
+/**
+ * Date an asset was taken, for showing and grouping by day or month. Local
+ * date times are stored as if they were UTC, they keep their wall clock in
+ * the time zone of the browser.
+ */
+export function assetDate(
+  asset: AssetResponseDto,
+  strategy: SortStrategy,
+  cameraOffsets: Record<string, number> = {},
+): Date {
+  const time = assetTime(asset, strategy, cameraOffsets);
+  if (strategy !== "localDateTime") return new Date(time);
+  return new Date(time + new Date(time).getTimezoneOffset() * 60 * 1000);
+}
+
+const collator = new Intl.Collator(undefined, {
+  numeric: true,
+  sensitivity: "base",
+});
+
+// Sort assets by a strategy, without changing the given array
+export function sortAssets(
+  assets: AssetResponseDto[],
+  strategy: SortStrategy,
+  cameraOffsets: Record<string, number> = {},
+): AssetResponseDto[] {
+  if (strategy === "album") return assets;
+
+  const byTime = (a: AssetResponseDto, b: AssetResponseDto) =>
+    assetTime(a, strategy, cameraOffsets) -
+    assetTime(b, strategy, cameraOffsets);
+  const byName = (a: AssetResponseDto, b: AssetResponseDto) =>
+    collator.compare(a.originalFileName, b.originalFileName);
+
+  switch (strategy) {
+    case "filename":
+      return [...assets].sort((a, b) => byName(a, b) || byTime(a, b));
+    case "rating":
+      return [...assets].sort(
+        (a, b) =>
+          (b.exifInfo?.rating ?? 0) - (a.exifInfo?.rating ?? 0) || byTime(a, b),
+      );
+    default:
+      return [...assets].sort((a, b) => byTime(a, b) || byName(a, b));
+  }
+}
+
+/**
+ * Parse a clock offset like "+1:30", "-0:05" or "2" (hours) into seconds,
+ * null if it can't be read
+ */
+export function parseClockOffset(text: string): number | null {
+  const match = /^\s*([+-]?)(\d+)(?::([0-5]?\d))?(?::([0-5]?\d))?\s*$/.exec(
+    text,
+  );
+  if (!match) return null;
+  const [, sign, hours, minutes = "0", seconds = "0"] = match;
+  const total = Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+  return sign === "-" ? -total : total;
+}
+
+// Format a clock offset in seconds like "+1:30", with seconds if needed
+export function formatClockOffset(offset: number): string {
+  const sign = offset < 0 ? "-" : "+";
+  const total = Math.abs(offset);
+  const hours = Math.floor(total / 3600);
+  const minutes = String(Math.floor((total % 3600) / 60)).padStart(2, "0");
+  const seconds = total % 60;
+  return `${sign}${hours}:${minutes}${seconds ? `:${String(seconds).padStart(2, "0")}` : ""}`;
+}
@@ -0,0 +1,198 @@
+import type { PageAlignment, PageBreak, VerticalFill } from "./pageLayout";
+import type { PrintImageSource } from "./printImages";
+import { DEFAULT_COVER_CONFIG, type CoverConfig } from "./coverLayout";
+import type { PageTemplateId } from "./pageTemplates";
+import type { SectionMarker, SectionMode } from "./sections";
+import type { TextBlock } from "./textBlocks";
+import type { PhotoCrop } from "./photoCrop";
+import type { VideoFrame } from "./videoFrames";
+import type { DateFormat } from "./captions";
+import type { SortStrategy } from "./assetSort";
+import {
+  DEFAULT_SHARED_LINK_CONFIG,
+  type SharedLinkConfig,
+} from "./sharedLinks";
+
+export type Position = "bottom" | "top" | "left" | "right";
+
+export interface GlobalConfig {
+  // Page settings
+  pageSize: "A4" | "LETTER" | "A3" | "CUSTOM";
+  orientation: "portrait" | "landscape";
+  pageWidth: number;
+  pageHeight: number;
+  margin: number;
+  bleed: number;
+  combinePages: boolean;
+  printImageSource: PrintImageSource;
+
+  // Layout settings
+  sortStrategy: SortStrategy;
+  rowHeight: number;
+  spacing: number;
+  verticalFill: VerticalFill;
+  sectionMode: SectionMode;
+  sectionGapDays: number;
+  filterVideos: boolean;
+
+  // Display settings
+  showDates: boolean;
+  showDescriptions: boolean;
+  fontSize: number;
+  captionTemplate: string;
+  dateTemplate: string;
+  captionLocale: string;
+  dateFormat: DateFormat;
+}
+
+export interface BookConfig extends GlobalConfig {
+  // Customizations (book-specific only)
+  customAspectRatios: Record<string, number>;
+  customOrdering: string[] | null;
+  descriptionPositions: Record<string, Position>;
+  pageAlignments: Record<number, PageAlignment>;
+  pageTemplates: Record<number, PageTemplateId>;
+  pageBreaks: Record<string, PageBreak>;
+  keepTogether: string[][];
+  sections: Record<string, SectionMarker | null>;
+  textBlocks: TextBlock[];
+  crops: Record<string, PhotoCrop>;
+  videoFrames: Record<string, VideoFrame>;
+  captionTemplates: Record<string, string>;
+  excludedAssetIds: string[]; // left out by curation
+  hiddenAssetIds: string[]; // left out by hand
+  spreadPhotos: string[]; // spanning both pages of a spread
+  cameraOffsets: Record<string, number>; // clock corrections in seconds
+  cover: CoverConfig;
+  sharedLink: SharedLinkConfig;
+}
+
+export const DEFAULT_GLOBAL_CONFIG: GlobalConfig = {
+  pageSize: "CUSTOM",
+  orientation: "portrait",
+  pageWidth: 2515,
+  pageHeight: 3260,
+  margin: 118,
+  bleed: 0,
+  combinePages: true,
+  printImageSource: "auto",
+  sortStrategy: "fileCreatedAt",
+  rowHeight: 994,
+  spacing: 20,
+  verticalFill: "none",
+  sectionMode: "none",
+  sectionGapDays: 3,
+  filterVideos: true,
+  showDates: true,
+  showDescriptions: true,
+  fontSize: 12,
+  captionTemplate: "{description}",
+  dateTemplate: "{date}",
+  captionLocale: "",
+  dateFormat: "medium",
+};
+
+// Helper functions for config persistence
+export function loadGlobalConfig(): GlobalConfig {
+  try {
+    const stored = localStorage.getItem("immich-book-global-config");
+    if (stored) {
+      return { ...DEFAULT_GLOBAL_CONFIG, ...JSON.parse(stored) };
+    }
+  } catch (e) {
+    console.error("Failed to load global config:", e);
+  }
+  return DEFAULT_GLOBAL_CONFIG;
+}
+
+export function saveGlobalConfig(config: GlobalConfig) {
+  try {
+    localStorage.setItem("immich-book-global-config", JSON.stringify(config));
+  } catch (e) {
+    console.error("Failed to save global config:", e);
+  }
+}
+
+/**
+ * Complete a stored book config with the global settings and empty
+ * customizations for everything it doesn't contain (e.g. saved by an older
+ * version)
+ */
+export function withConfigDefaults(
+  stored: Partial<BookConfig>,
+  globalConfig: GlobalConfig = loadGlobalConfig(),
+): BookConfig {
+  return {
+    ...globalConfig,
+    customAspectRatios: {},
+    customOrdering: null,
+    descriptionPositions: {},
+    pageAlignments: {},
+    pageTemplates: {},
+    pageBreaks: {},
+    keepTogether: [],
+    sections: {},
+    textBlocks: [],
+    crops: {},
+    videoFrames: {},
+    captionTemplates: {},
+    excludedAssetIds: [],
+    hiddenAssetIds: [],
+    spreadPhotos: [],
+    cameraOffsets: {},
+    ...stored,
+    cover: { ...DEFAULT_COVER_CONFIG, ...stored.cover },
+    sharedLink: { ...DEFAULT_SHARED_LINK_CONFIG, ...stored.sharedLink },
+  };
+}
+
+export function loadBookConfig(bookId: string): BookConfig {
+  try {
+    const stored = localStorage.getItem(`immich-book-config-${bookId}`);
+    if (stored) {
+      return withConfigDefaults(JSON.parse(stored));
+    }
+  } catch (e) {
+    console.error("Failed to load book config:", e);
+  }
+
+  return withConfigDefaults({});
+}
+
+export function saveBookConfig(bookId: string, config: BookConfig) {
+  try {
+    localStorage.setItem(
+      `immich-book-config-${bookId}`,
+      JSON.stringify(config),
+    );
+
+    // Also update global config with page and layout settings
+    const globalConfig: GlobalConfig = {
+      pageSize: config.pageSize,
+      orientation: config.orientation,
+      pageWidth: config.pageWidth,
+      pageHeight: config.pageHeight,
+      margin: config.margin,
+      bleed: config.bleed,
+      combinePages: config.combinePages,
+      printImageSource: config.printImageSource,
+      sortStrategy: config.sortStrategy,
+      rowHeight: config.rowHeight,
+      spacing: config.spacing,
+      verticalFill: config.verticalFill,
+      sectionMode: config.sectionMode,
+      sectionGapDays: config.sectionGapDays,
+      filterVideos: config.filterVideos,
+      showDates: config.showDates,
+      showDescriptions: config.showDescriptions,
+      fontSize: config.fontSize,
+      captionTemplate: config.captionTemplate,
+      dateTemplate: config.dateTemplate,
+      captionLocale: config.captionLocale,
+      dateFormat: config.dateFormat,
+    };
+    saveGlobalConfig(globalConfig);
+  } catch (e) {
+    console.error("Failed to save book config:", e);
+  }
+}
@@ -0,0 +1,213 @@
+import type { AssetResponseDto } from "@immich/sdk";
+import { assetAspectRatio } from "./aspectRatio";
+import type { BookConfig, Position } from "./bookConfig";
+import { sortAssets } from "./assetSort";
+import { createCaptions, type Captions } from "./captions";
+import {
+  calculatePageLayout,
+  type LayoutOptions,
+  type Page,
+} from "./pageLayout";
+import { generateSections, resolveSections } from "./sections";
+
+// Assets shown in the book, in their default order
+export function filterAssets(
+  assets: AssetResponseDto[],
+  filterVideos: boolean,
+): AssetResponseDto[] {
+  return filterVideos
+    ? assets.filter((asset) => asset.type === "IMAGE")
+    : assets;
+}
+
+// Assets left in the book after curation or hiding
+export function withoutExcluded(
+  assets: AssetResponseDto[],
+  excludedAssetIds: string[],
+): AssetResponseDto[] {
+  if (excludedAssetIds.length === 0) return assets;
+  const excluded = new Set(excludedAssetIds);
+  return assets.filter((asset) => !excluded.has(asset.id));
+}
+
+// Apply a custom ordering, assets not in it are kept at the end
+export function applyOrdering(
+  assets: AssetResponseDto[],
+  customOrdering: string[] | null,
+): AssetResponseDto[] {
+  if (!customOrdering) return assets;
+
+  // Create a map for quick lookup
+  const assetMap = new Map(assets.map((asset) => [asset.id, asset]));
+  // Reorder based on customOrdering, filtering out any IDs that don't exist
+  const reordered = customOrdering
+    .map((id) => assetMap.get(id))
+    .filter((asset): asset is AssetResponseDto => asset !== undefined);
+
+  // Add any assets that aren't in customOrdering at the end
+  const orderedIds = new Set(customOrdering);
+  const remaining = assets.filter((asset) => !orderedIds.has(asset.id));
+
+  return [...reordered, ...remaining];
+}
+
+/**
+ * Aspect ratios for the layout: the custom ones, and twice as wide for
+ * photos with the caption on the left or right
+ */
+function layoutAspectRatios(
+  assets: AssetResponseDto[],
+  customAspectRatios: Map<string, number>,
+  descriptionPositions: Map<string, Position>,
+  hasCaption: (asset: AssetResponseDto) => boolean,
+): Map<string, number> {
+  const adjustedAspectRatios = new Map(customAspectRatios);
+
+  assets.forEach((asset) => {
+    const descPosition = descriptionPositions.get(asset.id) || "bottom";
+    if (
+      hasCaption(asset) &&
+      (descPosition === "left" || descPosition === "right")
+    ) {
+      // Double the aspect ratio (make it wider) to account for description space
+      const currentRatio = customAspectRatios.get(asset.id);
+
+      if (currentRatio) {
+        adjustedAspectRatios.set(asset.id, currentRatio * 2);
+      } else {
+        // Use the natural aspect ratio and double it
+        adjustedAspectRatios.set(asset.id, assetAspectRatio(asset) * 2);
+      }
+    }
+  });
+
+  return adjustedAspectRatios;
+}
+
+// Captions of a book with its templates
+export function bookCaptions(config: BookConfig): Captions {
+  return createCaptions(
+    config,
+    new Map(Object.entries(config.captionTemplates)),
+  );
+}
+
+// Page layout settings of a book, with sizes in pixels
+export interface BookPageOptions extends Omit<
+  LayoutOptions,
+  | "pageSize"
+  | "orientation"
+  | "customWidth"
+  | "customHeight"
+  | "customAspectRatios"
+  | "spreadPhotos"
+> {
+  pageWidth: number;
+  pageHeight: number;
+  customAspectRatios: Map<string, number>;
+  descriptionPositions: Map<string, Position>;
+  showDescriptions: boolean;
+  captions: Captions;
+  spreadPhotos: string[];
+}
+
+/**
+ * Lay out the pages of a book from its ordered assets, with room for the
+ * captions next to photos. Shared by the editor and layoutBook.
+ */
+export function layoutPages(
+  assets: AssetResponseDto[],
+  options: BookPageOptions,
+): Page[] {
+  const {
+    pageWidth,
+    pageHeight,
+    customAspectRatios,
+    descriptionPositions,
+    showDescriptions,
+    captions,
+    spreadPhotos,
+    ...layoutOptions
+  } = options;
+  const spreadPhotoIds = new Set(spreadPhotos);
+
+  return calculatePageLayout(assets, {
+    ...layoutOptions,
+    pageSize: "CUSTOM",
+    orientation: "portrait",
+    customWidth: pageWidth,
+    customHeight: pageHeight,
+    customAspectRatios: layoutAspectRatios(
+      assets,
+      customAspectRatios,
+      descriptionPositions,
+      (asset) =>
+        showDescriptions &&
+        !spreadPhotoIds.has(asset.id) &&
+        captions.caption(asset) !== "",
+    ),
+    spreadPhotos: spreadPhotoIds,
+  });
+}
+
+const numberKeys = <T>(record: Record<number, T>) =>
+  new Map(Object.entries(record).map(([k, v]) => [Number(k), v]));
+
+/**
+ * Lay out a whole book from its assets and config, like the editor does.
+ * Used to render books without the editor, e.g. from the command line.
+ */
+export function layoutBook(
+  assets: AssetResponseDto[],
+  config: BookConfig,
+): { assets: AssetResponseDto[]; pages: Page[] } {
+  const ordered = applyOrdering(
+    withoutExcluded(
+      withoutExcluded(
+        sortAssets(
+          filterAssets(assets, config.filterVideos),
+          config.sortStrategy,
+          config.cameraOffsets,
+        ),
+        config.hiddenAssetIds,
+      ),
+      config.excludedAssetIds,
+    ),
+    config.customOrdering,
+  );
+  const sections = resolveSections(
+    ordered,
+    generateSections(
+      ordered,
+      config.sectionMode,
+      config.sectionGapDays,
+      config.sortStrategy,
+      config.cameraOffsets,
+    ),
+    new Map(Object.entries(config.sections)),
+  );
+
+  const pages = layoutPages(ordered, {
+    margin: config.margin,
+    bleed: config.bleed,
+    rowHeight: config.rowHeight,
+    spacing: config.spacing,
+    pageWidth: config.pageWidth,
+    pageHeight: config.pageHeight,
+    combinePages: config.combinePages,
+    customAspectRatios: new Map(Object.entries(config.customAspectRatios)),
+    descriptionPositions: new Map(Object.entries(config.descriptionPositions)),
+    showDescriptions: config.showDescriptions,
+    captions: bookCaptions(config),
+    pageAlignments: numberKeys(config.pageAlignments),
+    pageTemplates: numberKeys(config.pageTemplates),
+    pageBreaks: new Map(Object.entries(config.pageBreaks)),
+    keepTogether: config.keepTogether,
+    verticalFill: config.verticalFill,
+    sections,
+    textBlocks: config.textBlocks,
+    spreadPhotos: config.spreadPhotos,
+  });
+
+  return { assets: ordered, pages };
+}
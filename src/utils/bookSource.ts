@@ -0,0 +1,180 @@
+import {
+  getAlbumInfo,
+  searchAssets,
+  searchSmart,
+  type AlbumResponseDto,
+  type AssetResponseDto,
+  type SearchResponseDto,
+} from "@immich/sdk";
+
+// Where the photos of a book come from. Albums, people and search queries
+// are combined, the date range limits all of them. With only a date range,
+// the book contains all photos taken in that range.
+export interface BookSource {
+  albumIds: string[];
+  personIds: string[];
+  queries: string[]; // smart search queries
+  takenAfter: string | null; // ISO date (yyyy-mm-dd), inclusive
+  takenBefore: string | null; // ISO date (yyyy-mm-dd), inclusive
+}
+
+export interface Book {
+  id: string;
+  name: string;
+  description: string;
+  thumbnailAssetId: string | null;
+  source: BookSource;
+}
+
+export const EMPTY_BOOK_SOURCE: BookSource = {
+  albumIds: [],
+  personIds: [],
+  queries: [],
+  takenAfter: null,
+  takenBefore: null,
+};
+
+// Results taken from each smart search, which ranks the whole library
+const SMART_SEARCH_LIMIT = 250;
+
+// Page size for metadata searches
+const SEARCH_PAGE_SIZE = 1000;
+
+const BOOKS_STORAGE_KEY = "immich-book-books";
+
+// A single album as a book, keeping the album ID as book ID so existing
+// album configs and #/albums/<id> links keep working
+export function albumBook(album: AlbumResponseDto): Book {
+  return {
+    id: album.id,
+    name: album.albumName,
+    description: album.description,
+    thumbnailAssetId: album.albumThumbnailAssetId,
+    source: { ...EMPTY_BOOK_SOURCE, albumIds: [album.id] },
+  };
+}
+
+export function createBook(name: string, source: BookSource): Book {
+  return {
+    id: `book-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    description: "",
+    thumbnailAssetId: null,
+    source,
+  };
+}
+
+export function loadBooks(): Book[] {
+  try {
+    const stored = localStorage.getItem(BOOKS_STORAGE_KEY);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (e) {
+    console.error("Failed to load books:", e);
+  }
+  return [];
+}
+
+export function saveBook(book: Book) {
+  const books = loadBooks().filter((b) => b.id !== book.id);
+  localStorage.setItem(BOOKS_STORAGE_KEY, JSON.stringify([...books, book]));
+}
+
+export function deleteBook(bookId: string) {
+  const books = loadBooks().filter((b) => b.id !== bookId);
+  localStorage.setItem(BOOKS_STORAGE_KEY, JSON.stringify(books));
+  localStorage.removeItem(`immich-book-config-${bookId}`);
+  localStorage.removeItem(`immich-book-sync-${bookId}`);
+}
+
+// Search bounds covering whole days
+function dateRange(source: BookSource) {
+  return {
+    takenAfter: source.takenAfter
+      ? new Date(`${source.takenAfter}T00:00:00`).toISOString()
+      : undefined,
+    takenBefore: source.takenBefore
+      ? new Date(`${source.takenBefore}T23:59:59.999`).toISOString()
+      : undefined,
+  };
+}
+
+// Fetch all pages of a metadata search
+async function searchAllAssets(
+  filter: Parameters<typeof searchAssets>[0]["metadataSearchDto"],
+): Promise<AssetResponseDto[]> {
+  const assets: AssetResponseDto[] = [];
+  let page: number | null = 1;
+  while (page !== null) {
+    const result: SearchResponseDto = await searchAssets({
+      metadataSearchDto: {
+        ...filter,
+        page,
+        size: SEARCH_PAGE_SIZE,
+        withExif: true,
+        withPeople: true,
+      },
+    });
+    assets.push(...result.assets.items);
+    page = result.assets.nextPage ? Number(result.assets.nextPage) : null;
+  }
+  return assets;
+}
+
+/**
+ * Load the assets of a book source as one list, without duplicates, in the
+ * order Immich returns them (see sortAssets for the order in the book)
+ */
+export async function loadBookAssets(
+  source: BookSource,
+): Promise<AssetResponseDto[]> {
+  const range = dateRange(source);
+  const results: AssetResponseDto[][] = [];
+
+  const albums = await Promise.all(
+    source.albumIds.map((id) => getAlbumInfo({ id })),
+  );
+  for (const album of albums) {
+    results.push(
+      album.assets.filter((asset) => {
+        const created = new Date(asset.fileCreatedAt).toISOString();
+        return (
+          (!range.takenAfter || created >= range.takenAfter) &&
+          (!range.takenBefore || created <= range.takenBefore)
+        );
+      }),
+    );
+  }
+
+  for (const personId of source.personIds) {
+    results.push(await searchAllAssets({ personIds: [personId], ...range }));
+  }
+
+  for (const query of source.queries) {
+    const result = await searchSmart({
+      smartSearchDto: {
+        query,
+        size: SMART_SEARCH_LIMIT,
+        withExif: true,
+        ...range,
+      },
+    });
+    results.push(result.assets.items);
+  }
+
+  const hasSources =
+    source.albumIds.length > 0 ||
+    source.personIds.length > 0 ||
+    source.queries.length > 0;
+  if (!hasSources && (range.takenAfter || range.takenBefore)) {
+    results.push(await searchAllAssets(range));
+  }
+
+  // The same asset can come from several sources, keep the first one
+  const unique = new Map<string, AssetResponseDto>();
+  for (const asset of results.flat()) {
+    if (!unique.has(asset.id)) unique.set(asset.id, asset);
+  }
+  return [...unique.values()];
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import type { AssetResponseDto } from "@immich/sdk";
+import { createCaptions, formatDate, renderCaption } from "./captions";
+
+const asset = (
+  exifInfo: AssetResponseDto["exifInfo"],
+  people: AssetResponseDto["people"] = [],
+) =>
+  ({
+    id: "asset-1",
+    fileCreatedAt: "2024-06-01T12:00:00.000Z",
+    exifInfo,
+    people,
+  }) as AssetResponseDto;
+
+const person = (name: string, isHidden = false) =>
+  ({ name, isHidden }) as NonNullable<AssetResponseDto["people"]>[number];
+
+const settings = {
+  captionLocale: "en-US",
+  dateFormat: "medium" as const,
+  sortStrategy: "fileCreatedAt" as const,
+  cameraOffsets: {},
+};
+
+describe("formatDate", () => {
+  const date = new Date(2024, 5, 1, 9, 5);
+
+  it("formats presets in the locale", () => {
+    expect(formatDate(date, "medium", "en-US")).toBe("Jun 1, 2024");
+    expect(formatDate(date, "iso", "en-US")).toBe("2024-06-01");
+  });
+
+  it("formats patterns and keeps other characters", () => {
+    expect(formatDate(date, "EEEE, d MMMM yyyy", "de")).toBe(
+      "Samstag, 1 Juni 2024",
+    );
+    expect(formatDate(date, "dd.MM.yy HH:mm", "de")).toBe("01.06.24 09:05");
+  });
+
+  it("falls back to the system locale for invalid locales", () => {
+    expect(formatDate(date, "yyyy", "not a locale!")).toBe("2024");
+  });
+});
+
+describe("renderCaption", () => {
+  const photo = asset(
+    {
+      description: "Dinner ",
+      city: "Rome",
+      country: "Italy",
+      make: "FUJIFILM",
+      model: "FUJIFILM X100V",
+      lensModel: null,
+    } as AssetResponseDto["exifInfo"],
+    [person("Anna"), person("Ben"), person("Hidden", true), person("")],
+  );
+
+  it("replaces the tokens with the values of the asset", () => {
+    expect(
+      renderCaption("{description} in {city}, {country}", photo, settings),
+    ).toBe("Dinner in Rome, Italy");
+    expect(renderCaption("{people} – {camera}", photo, settings)).toBe(
+      "Anna, Ben – FUJIFILM X100V",
+    );
+    expect(renderCaption("{date:yyyy}", photo, settings)).toBe("2024");
+  });
+
+  it("leaves out optional parts with empty tokens", () => {
+    expect(
+      renderCaption("{city}[ ({lens})][ – {country}]", photo, settings),
+    ).toBe("Rome – Italy");
+    expect(renderCaption("[{state}]", photo, settings)).toBe("");
+  });
+
+  it("keeps unknown tokens", () => {
+    expect(renderCaption("{citty}", photo, settings)).toBe("{citty}");
+  });
+
+  it("doesn't replace tokens in the values", () => {
+    const braces = asset({
+      description: "{city}",
+      city: "Rome",
+    } as AssetResponseDto["exifInfo"]);
+    expect(renderCaption("[{description}]", braces, settings)).toBe("{city}");
+  });
+});
+
+describe("createCaptions", () => {
+  it("prefers the template of the photo over the book's one", () => {
+    const photo = asset({
+      description: "Beach",
+      city: "Nice",
+    } as AssetResponseDto["exifInfo"]);
+    const captions = createCaptions(
+      {
+        ...settings,
+        captionTemplate: "{description}",
+        dateTemplate: "{date:iso}",
+      },
+      new Map([["asset-1", "{city}"]]),
+    );
+    expect(captions.caption(photo)).toBe("Nice");
+    expect(captions.caption({ ...photo, id: "other" })).toBe("Beach");
+    expect(captions.date(photo)).toMatch(/^2024-06-0[12]$/);
+  });
+
+  it("dates photos with the clock offset of their camera", () => {
+    const photo = asset({
+      make: "Canon",
+      model: "EOS R6",
+    } as AssetResponseDto["exifInfo"]);
+    const captions = createCaptions(
+      {
+        ...settings,
+        cameraOffsets: { "Canon EOS R6": 2 * 24 * 3600 },
+        captionTemplate: "",
+        dateTemplate: "{date:iso}",
+      },
+      new Map(),
+    );
+    expect(captions.date(photo)).toMatch(/^2024-06-0[34]$/);
+  });
+});
@@ -0,0 +1,237 @@
+import type { AssetResponseDto } from "@immich/sdk";
+import { assetDate, type SortStrategy } from "./assetSort";
+
+// Preset date formats, "medium" is e.g. "Jun 1, 2024" in English
+export type DateFormat = "short" | "medium" | "long" | "full" | "iso";
+
+// Settings of the caption and date templates, shared by all photos
+export interface CaptionSettings {
+  captionTemplate: string; // shown as description
+  dateTemplate: string; // shown as date label
+  captionLocale: string; // BCP 47 language tag, empty for the system locale
+  dateFormat: DateFormat; // used by {date} without format
+  // {date} is the time the photos are sorted by, with camera clock offsets
+  sortStrategy: SortStrategy;
+  cameraOffsets: Record<string, number>;
+}
+
+// Settings used to fill the tokens of a template
+type TokenSettings = Pick<
+  CaptionSettings,
+  "captionLocale" | "dateFormat" | "sortStrategy" | "cameraOffsets"
+>;
+
+// Caption and date label of a photo, empty if there is nothing to show
+export interface Captions {
+  caption: (asset: AssetResponseDto) => string;
+  date: (asset: AssetResponseDto) => string;
+}
+
+// Tokens with a short explanation
+const CAPTION_TOKENS: [string, string][] = [
+  ["{description}", "description from Immich"],
+  ["{date}", "date in the chosen format"],
+  [
+    "{date:d MMMM yyyy}",
+    "date with a pattern (yyyy, yy, MMMM, MMM, MM, M, dd, d, EEEE, EEE, HH, mm) or preset (short, medium, long, full, iso)",
+  ],
+  ["{city}", "city"],
+  ["{state}", "state or region"],
+  ["{country}", "country"],
+  ["{people}", "names of the recognized people"],
+  ["{camera}", "camera make and model"],
+  ["{lens}", "lens model"],
+  ["[…]", "optional part, left out if a token in it is empty"],
+];
+
+// Help text of the template inputs
+export const CAPTION_HELP = CAPTION_TOKENS.map(
+  ([token, help]) => `${token}: ${help}`,
+).join("\n");
+
+const DATE_PATTERN = /yyyy|yy|MMMM|MMM|MM|M|dd|d|EEEE|EEE|HH|mm/g;
+
+const PRESETS: Record<
+  Exclude<DateFormat, "iso">,
+  Intl.DateTimeFormatOptions
+> = {
+  short: { dateStyle: "short" },
+  medium: { year: "numeric", month: "short", day: "numeric" },
+  long: { dateStyle: "long" },
+  full: { dateStyle: "full" },
+};
+
+// Intl formatters are slow to create, keep them per locale and options
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(locale: string, options: Intl.DateTimeFormatOptions) {
+  const key = `${locale}:${JSON.stringify(options)}`;
+  let cached = formatters.get(key);
+  if (!cached) {
+    try {
+      cached = new Intl.DateTimeFormat(locale || undefined, options);
+    } catch {
+      // Invalid locale, e.g. while it is typed
+      cached = new Intl.DateTimeFormat(undefined, options);
+    }
+    formatters.set(key, cached);
+  }
+  return cached;
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/**
+ * Format a date with a preset or a pattern like "d MMMM yyyy". Names of
+ * months and weekdays are in the given locale, other characters of a pattern
+ * are kept as they are.
+ */
+export function formatDate(date: Date, format: string, locale: string): string {
+  if (format === "iso") {
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+  if (format in PRESETS) {
+    return formatter(locale, PRESETS[format as keyof typeof PRESETS]).format(
+      date,
+    );
+  }
+  return format.replace(DATE_PATTERN, (token) => {
+    switch (token) {
+      case "yyyy":
+        return String(date.getFullYear());
+      case "yy":
+        return pad(date.getFullYear() % 100);
+      case "MMMM":
+        return formatter(locale, { month: "long" }).format(date);
+      case "MMM":
+        return formatter(locale, { month: "short" }).format(date);
+      case "MM":
+        return pad(date.getMonth() + 1);
+      case "M":
+        return String(date.getMonth() + 1);
+      case "dd":
+        return pad(date.getDate());
+      case "d":
+        return String(date.getDate());
+      case "EEEE":
+        return formatter(locale, { weekday: "long" }).format(date);
+      case "EEE":
+        return formatter(locale, { weekday: "short" }).format(date);
+      case "HH":
+        return pad(date.getHours());
+      default:
+        return pad(date.getMinutes());
+    }
+  });
+}
+
+// Camera as "make model", without repeating the make most models start with
+function cameraName(asset: AssetResponseDto): string {
+  const make = asset.exifInfo?.make?.trim() ?? "";
+  const model = asset.exifInfo?.model?.trim() ?? "";
+  if (!make) return model;
+  if (model.toLowerCase().startsWith(make.toLowerCase())) return model;
+  return [make, model].filter(Boolean).join(" ");
+}
+
+function peopleNames(asset: AssetResponseDto): string {
+  return (asset.people ?? [])
+    .filter((person) => !person.isHidden && person.name)
+    .map((person) => person.name)
+    .join(", ");
+}
+
+// Value of a token for an asset, undefined for unknown tokens
+function tokenValue(
+  asset: AssetResponseDto,
+  name: string,
+  format: string | undefined,
+  settings: TokenSettings,
+): string | undefined {
+  const exif = asset.exifInfo;
+  switch (name) {
+    case "description":
+      return exif?.description?.trim() ?? "";
+    case "date":
+      return formatDate(
+        assetDate(asset, settings.sortStrategy, settings.cameraOffsets),
+        format || settings.dateFormat,
+        settings.captionLocale,
+      );
+    case "city":
+      return exif?.city ?? "";
+    case "state":
+      return exif?.state ?? "";
+    case "country":
+      return exif?.country ?? "";
+    case "people":
+      return peopleNames(asset);
+    case "camera":
+      return cameraName(asset);
+    case "lens":
+      return exif?.lensModel?.trim() ?? "";
+    default:
+      return undefined;
+  }
+}
+
+const TOKEN = /\{(\w+)(?::([^}]*))?\}/g;
+
+// Replace the tokens in a part of a template, reporting empty ones
+function fillTokens(
+  text: string,
+  asset: AssetResponseDto,
+  settings: TokenSettings,
+): { text: string; hasEmpty: boolean } {
+  let hasEmpty = false;
+  const filled = text.replace(TOKEN, (token, name: string, format?: string) => {
+    const value = tokenValue(asset, name, format, settings);
+    // Keep unknown tokens, so typos are visible
+    if (value === undefined) return token;
+    if (!value) hasEmpty = true;
+    return value;
+  });
+  return { text: filled, hasEmpty };
+}
+
+/**
+ * Render a caption template for an asset. Tokens like {city} are replaced by
+ * the asset's values, optional parts in square brackets are left out if one
+ * of their tokens is empty, e.g. "{description}[ – {city}]".
+ */
+export function renderCaption(
+  template: string,
+  asset: AssetResponseDto,
+  settings: TokenSettings,
+): string {
+  return template
+    .split(/(\[[^\]]*\])/)
+    .map((part) => {
+      if (!part.startsWith("[") || !part.endsWith("]")) {
+        return fillTokens(part, asset, settings).text;
+      }
+      const { text, hasEmpty } = fillTokens(part.slice(1, -1), asset, settings);
+      return hasEmpty ? "" : text;
+    })
+    .join("")
+    .trim();
+}
+
+/**
+ * Captions of a book: the caption template of the photo if it has its own,
+ * the book's one otherwise, and the date template
+ */
+export function createCaptions(
+  settings: CaptionSettings,
+  captionTemplates: Map<string, string>,
+): Captions {
+  return {
+    caption: (asset) =>
+      renderCaption(
+        captionTemplates.get(asset.id) ?? settings.captionTemplate,
+        asset,
+        settings,
+      ),
+    date: (asset) => renderCaption(settings.dateTemplate, asset, settings),
+  };
+}
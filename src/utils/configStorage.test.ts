@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { AlbumResponseDto } from "@immich/sdk";
+import { DEFAULT_GLOBAL_CONFIG, withConfigDefaults } from "./bookConfig";
+import { EMPTY_BOOK_SOURCE, type Book } from "./bookSource";
+import { createConfigAlbumBackend, isConfigAlbum } from "./configStorage";
+
+const book = (id: string, albumIds: string[]): Book => ({
+  id,
+  name: id,
+  description: "",
+  thumbnailAssetId: null,
+  source: { ...EMPTY_BOOK_SOURCE, albumIds },
+});
+
+const config = (margin: number) =>
+  withConfigDefaults({ margin }, DEFAULT_GLOBAL_CONFIG);
+
+const album = (id: string, description: string) =>
+  ({ id, albumName: id, description }) as AlbumResponseDto;
+
+// Albums of the user kept in memory, as the server would
+const fakeSdk = (albums: AlbumResponseDto[]) => ({
+  getAllAlbums: vi.fn(async () => albums.map((a) => ({ ...a }))),
+  createAlbum: vi.fn(
+    async ({
+      createAlbumDto,
+    }: {
+      createAlbumDto: { albumName: string; description?: string };
+    }) => {
+      const created = {
+        id: `album-${albums.length + 1}`,
+        albumName: createAlbumDto.albumName,
+        description: createAlbumDto.description ?? "",
+      } as AlbumResponseDto;
+      albums.push(created);
+      return created;
+    },
+  ),
+  updateAlbumInfo: vi.fn(
+    async ({
+      id,
+      updateAlbumDto,
+    }: {
+      id: string;
+      updateAlbumDto: { description?: string };
+    }) => {
+      const updated = albums.find((a) => a.id === id)!;
+      updated.description = updateAlbumDto.description ?? "";
+      return updated;
+    },
+  ),
+});
+
+beforeEach(() => {
+  // Defaults of configs read the global config from localStorage
+  vi.stubGlobal("localStorage", { getItem: () => null });
+});
+
+describe("createConfigAlbumBackend", () => {
+  it("keeps the configs out of the albums of the books", async () => {
+    const albums = [album("album-1", "Summer in Rome")];
+    const sdk = fakeSdk(albums);
+    const backend = createConfigAlbumBackend(sdk);
+    const rome = book("album-1", ["album-1"]);
+
+    expect(await backend.load(rome)).toBeNull();
+    const first = await backend.save(rome, config(10), null);
+    expect(first.status).toBe("saved");
+    expect(albums).toHaveLength(2);
+    expect(albums[0].description).toBe("Summer in Rome");
+    expect(isConfigAlbum(albums[0])).toBe(false);
+    expect(isConfigAlbum(albums[1])).toBe(true);
+
+    // The album holding the configs is created once
+    const second = await backend.save(rome, config(20), first.remote.revision);
+    expect(second.status).toBe("saved");
+    expect(sdk.createAlbum).toHaveBeenCalledTimes(1);
+    expect(albums).toHaveLength(2);
+
+    const loaded = await backend.load(rome);
+    expect(loaded?.revision).toBe(second.remote.revision);
+    expect(loaded?.config.margin).toBe(20);
+  });
+
+  it("reports a conflict when saved elsewhere since the base revision", async () => {
+    const albums = [album("album-1", "")];
+    const here = createConfigAlbumBackend(fakeSdk(albums));
+    const elsewhere = createConfigAlbumBackend(fakeSdk(albums));
+    const rome = book("album-1", ["album-1"]);
+
+    const first = await here.save(rome, config(10), null);
+    const second = await elsewhere.save(
+      rome,
+      config(20),
+      first.remote.revision,
+    );
+    expect(second.status).toBe("saved");
+
+    const sdk = fakeSdk(albums);
+    const result = await createConfigAlbumBackend(sdk).save(
+      rome,
+      config(30),
+      first.remote.revision,
+    );
+    expect(result.status).toBe("conflict");
+    expect(result.remote.revision).toBe(second.remote.revision);
+    expect(result.remote.config.margin).toBe(20);
+    expect(sdk.updateAlbumInfo).not.toHaveBeenCalled();
+  });
+
+  it("keeps the configs of two books sharing an album apart", async () => {
+    const albums = [album("album-1", "Rome"), album("album-2", "Paris")];
+    const backend = createConfigAlbumBackend(fakeSdk(albums));
+    const rome = book("album-1", ["album-1"]);
+    const trip = book("book-trip", ["album-1", "album-2"]);
+
+    await backend.save(rome, config(10), null);
+    expect(await backend.load(trip)).toBeNull();
+
+    // Saving the combined book doesn't conflict with or replace the other one
+    const saved = await backend.save(trip, config(20), null);
+    expect(saved.status).toBe("saved");
+    expect((await backend.load(rome))?.config.margin).toBe(10);
+    expect((await backend.load(trip))?.config.margin).toBe(20);
+  });
+
+  it("leaves albums alone that only share the name", async () => {
+    const albums = [
+      { ...album("album-1", "My own album"), albumName: "Immich Book layouts" },
+    ];
+    const backend = createConfigAlbumBackend(fakeSdk(albums));
+
+    expect(isConfigAlbum(albums[0])).toBe(false);
+    await backend.save(book("album-1", ["album-1"]), config(10), null);
+    expect(albums[0].description).toBe("My own album");
+    expect(albums).toHaveLength(2);
+  });
+});
@@ -0,0 +1,170 @@
+import {
+  createAlbum,
+  getAllAlbums,
+  updateAlbumInfo,
+  type AlbumResponseDto,
+} from "@immich/sdk";
+import { withConfigDefaults, type BookConfig } from "./bookConfig";
+import type { Book } from "./bookSource";
+
+// A book config as stored on the server
+export interface RemoteConfig {
+  config: BookConfig;
+  revision: string; // changes with every save
+  savedAt: string;
+}
+
+export type SaveResult =
+  | { status: "saved"; remote: RemoteConfig }
+  // Someone else saved since the revision our changes are based on
+  | { status: "conflict"; remote: RemoteConfig };
+
+// Where book configs are shared between browsers, localStorage stays the
+// offline cache in front of it
+export interface ConfigBackend {
+  load(book: Book): Promise<RemoteConfig | null>;
+  save(
+    book: Book,
+    config: BookConfig,
+    baseRevision: string | null,
+  ): Promise<SaveResult>;
+}
+
+// What we know about the server copy of a book config
+export interface SyncState {
+  revision: string | null; // last revision loaded from or saved to the server
+  pending: boolean; // local changes not saved on the server yet
+}
+
+// The configs are kept in the description of an empty album of the user,
+// after this marker as JSON object by book ID. Album descriptions show up in
+// the Immich UI and on shared links, so the configs stay out of the albums
+// the books are made from.
+const CONFIG_ALBUM_NAME = "Immich Book layouts";
+const DESCRIPTION_MARKER = "\n\nimmich-book-config:";
+const CONFIG_ALBUM_NOTE =
+  "Layouts of the books made with Immich Book, please don't edit or delete.";
+
+// Configs of all books, by book ID
+type StoredConfigs = Record<string, RemoteConfig>;
+
+/**
+ * Album a book is synced and shared through: the album itself or the first
+ * album of a combined book. Books without album can't be synced or shared.
+ */
+export function configAlbumId(book: Book): string | null {
+  return book.source.albumIds[0] ?? null;
+}
+
+// The album holding the configs, hidden from the albums to choose from
+export function isConfigAlbum(album: AlbumResponseDto): boolean {
+  return (
+    album.albumName === CONFIG_ALBUM_NAME &&
+    album.description.includes(DESCRIPTION_MARKER)
+  );
+}
+
+function parseStoredConfigs(description: string): StoredConfigs {
+  const index = description.indexOf(DESCRIPTION_MARKER);
+  if (index === -1) return {};
+  try {
+    const stored = JSON.parse(
+      description.slice(index + DESCRIPTION_MARKER.length),
+    );
+    return typeof stored === "object" && stored !== null ? stored : {};
+  } catch (e) {
+    console.error("Failed to parse configs in album description:", e);
+    return {};
+  }
+}
+
+function storedConfig(
+  configs: StoredConfigs,
+  bookId: string,
+): RemoteConfig | null {
+  const stored = configs[bookId];
+  if (typeof stored?.revision !== "string") return null;
+  return { ...stored, config: withConfigDefaults(stored.config) };
+}
+
+/**
+ * Backend keeping the configs as JSON in the description of a private album,
+ * created on the first save and read and written through the given album
+ * endpoints
+ */
+export function createConfigAlbumBackend(
+  sdk: {
+    getAllAlbums: typeof getAllAlbums;
+    createAlbum: typeof createAlbum;
+    updateAlbumInfo: typeof updateAlbumInfo;
+  } = { getAllAlbums, createAlbum, updateAlbumInfo },
+): ConfigBackend {
+  // Only albums owned by the user, never one shared with them
+  const findAlbum = async () =>
+    (await sdk.getAllAlbums({})).find(isConfigAlbum) ?? null;
+
+  return {
+    async load(book) {
+      if (!configAlbumId(book)) return null;
+      const album = await findAlbum();
+      if (!album) return null;
+      return storedConfig(parseStoredConfigs(album.description), book.id);
+    },
+
+    async save(book, config, baseRevision) {
+      if (!configAlbumId(book)) {
+        throw new Error("Book has no album to sync its config");
+      }
+
+      // Check for a newer version right before writing. Saves in between
+      // can still be lost, the album API has no conditional updates.
+      const album = await findAlbum();
+      const configs = album ? parseStoredConfigs(album.description) : {};
+      const current = storedConfig(configs, book.id);
+      if (current && current.revision !== baseRevision) {
+        return { status: "conflict", remote: current };
+      }
+
+      const remote: RemoteConfig = {
+        config,
+        revision: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        savedAt: new Date().toISOString(),
+      };
+      const description =
+        CONFIG_ALBUM_NOTE +
+        DESCRIPTION_MARKER +
+        JSON.stringify({ ...configs, [book.id]: remote });
+      if (album) {
+        await sdk.updateAlbumInfo({
+          id: album.id,
+          updateAlbumDto: { description },
+        });
+      } else {
+        await sdk.createAlbum({
+          createAlbumDto: { albumName: CONFIG_ALBUM_NAME, description },
+        });
+      }
+      return { status: "saved", remote };
+    },
+  };
+}
+
+export function loadSyncState(bookId: string): SyncState {
+  try {
+    const stored = localStorage.getItem(`immich-book-sync-${bookId}`);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (e) {
+    console.error("Failed to load sync state:", e);
+  }
+  return { revision: null, pending: false };
+}
+
+export function saveSyncState(bookId: string, state: SyncState) {
+  try {
+    localStorage.setItem(`immich-book-sync-${bookId}`, JSON.stringify(state));
+  } catch (e) {
+    console.error("Failed to save sync state:", e);
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { calculateCoverLayout, spineWidthMm } from "./coverLayout";
+import { mmToPixels } from "./pageLayout";
+
+// A4 portrait at 300 DPI
+const PAGE_WIDTH = 2480;
+const PAGE_HEIGHT = 3508;
+
+describe("spineWidthMm", () => {
+  it("adds the paper thickness once per sheet", () => {
+    expect(spineWidthMm(100, 0.1)).toBeCloseTo(5);
+    expect(spineWidthMm(40, 0.15)).toBeCloseTo(3);
+  });
+
+  it("counts a last single page as a full sheet", () => {
+    expect(spineWidthMm(101, 0.1)).toBeCloseTo(5.1);
+    expect(spineWidthMm(1, 0.1)).toBeCloseTo(0.1);
+  });
+
+  it("is empty without pages", () => {
+    expect(spineWidthMm(0, 0.1)).toBe(0);
+  });
+});
+
+describe("calculateCoverLayout", () => {
+  const layout = calculateCoverLayout({
+    pageWidth: PAGE_WIDTH,
+    pageHeight: PAGE_HEIGHT,
+    pageCount: 100,
+    paperThickness: 0.1,
+    wrap: 3,
+  });
+  const wrap = mmToPixels(3);
+  const spine = mmToPixels(5);
+
+  it("spans two pages and the spine, surrounded by the wrap", () => {
+    expect(layout.wrap).toBe(wrap);
+    expect(layout.spineWidth).toBe(spine);
+    expect(layout.width).toBe(PAGE_WIDTH * 2 + spine + wrap * 2);
+    expect(layout.height).toBe(PAGE_HEIGHT + wrap * 2);
+  });
+
+  it("places back, spine and front from left to right", () => {
+    expect(layout.back).toEqual({
+      x: 0,
+      y: 0,
+      width: wrap + PAGE_WIDTH,
+      height: layout.height,
+    });
+    expect(layout.spine).toEqual({
+      x: wrap + PAGE_WIDTH,
+      y: 0,
+      width: spine,
+      height: layout.height,
+    });
+    expect(layout.front).toEqual({
+      x: wrap + PAGE_WIDTH + spine,
+      y: 0,
+      width: PAGE_WIDTH + wrap,
+      height: layout.height,
+    });
+    expect(layout.front.x + layout.front.width).toBe(layout.width);
+  });
+
+  it("is exactly two pages wide without wrap or pages", () => {
+    const flat = calculateCoverLayout({
+      pageWidth: PAGE_WIDTH,
+      pageHeight: PAGE_HEIGHT,
+      pageCount: 0,
+      paperThickness: 0.1,
+      wrap: 0,
+    });
+    expect(flat.width).toBe(PAGE_WIDTH * 2);
+    expect(flat.height).toBe(PAGE_HEIGHT);
+  });
+});
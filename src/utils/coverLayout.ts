@@ -0,0 +1,95 @@
+import { mmToPixels } from "./pageLayout";
+
+export interface CoverConfig {
+  title: string | null; // null uses the book name
+  subtitle: string | null; // null uses the book description
+  photoId: string | null; // null uses the book thumbnail
+  backPhotoId: string | null; // null leaves the back panel white
+  backText: string; // blurb on the back panel, empty for none
+  paperThickness: number; // in mm per sheet (two pages)
+  wrap: number; // in mm, bleed or board wrap around the cover
+}
+
+export const DEFAULT_COVER_CONFIG: CoverConfig = {
+  title: null,
+  subtitle: null,
+  photoId: null,
+  backPhotoId: null,
+  backText: "",
+  paperThickness: 0.1,
+  wrap: 3,
+};
+
+export interface CoverPanel {
+  x: number; // in pixels
+  y: number; // in pixels
+  width: number; // in pixels
+  height: number; // in pixels
+}
+
+export interface CoverLayout {
+  width: number; // in pixels, including wrap
+  height: number; // in pixels, including wrap
+  wrap: number; // in pixels
+  spineWidth: number; // in pixels
+  // Panels include the wrap on their outer edges
+  back: CoverPanel;
+  spine: CoverPanel;
+  front: CoverPanel;
+}
+
+export interface CoverLayoutOptions {
+  pageWidth: number; // in pixels, trimmed single page
+  pageHeight: number; // in pixels, trimmed single page
+  pageCount: number; // number of single (logical) pages in the book
+  paperThickness: number; // in mm per sheet
+  wrap: number; // in mm
+}
+
+// Spine width in mm, each sheet of paper holds two pages
+export function spineWidthMm(
+  pageCount: number,
+  paperThickness: number,
+): number {
+  return Math.ceil(pageCount / 2) * paperThickness;
+}
+
+/**
+ * Calculate the layout of a wraparound cover
+ * The cover is one sheet with back panel, spine and front panel from left to
+ * right, surrounded by the wrap.
+ */
+export function calculateCoverLayout(options: CoverLayoutOptions): CoverLayout {
+  const { pageWidth, pageHeight, pageCount, paperThickness } = options;
+
+  const wrap = mmToPixels(options.wrap);
+  const spineWidth = mmToPixels(spineWidthMm(pageCount, paperThickness));
+  const height = pageHeight + wrap * 2;
+
+  return {
+    width: pageWidth * 2 + spineWidth + wrap * 2,
+    height,
+    wrap,
+    spineWidth,
+    back: { x: 0, y: 0, width: wrap + pageWidth, height },
+    spine: { x: wrap + pageWidth, y: 0, width: spineWidth, height },
+    front: {
+      x: wrap + pageWidth + spineWidth,
+      y: 0,
+      width: pageWidth + wrap,
+      height,
+    },
+  };
+}
+
+// Sizes of the cover text in points
+export const COVER_TITLE_FONT_SIZE = 28;
+export const COVER_SUBTITLE_FONT_SIZE = 14;
+export const COVER_BACK_TEXT_FONT_SIZE = 11;
+const MAX_SPINE_FONT_SIZE = 12;
+
+// Spine text has to fit into the spine width, or is left out if too narrow
+export function spineFontSize(spineWidthPoints: number): number | null {
+  const fontSize = Math.min(MAX_SPINE_FONT_SIZE, spineWidthPoints * 0.6);
+  return fontSize >= 5 ? fontSize : null;
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import type { AssetResponseDto } from "@immich/sdk";
+import {
+  bestShot,
+  differenceHash,
+  duplicateGroups,
+  hammingDistance,
+  suggestExclusions,
+} from "./curation";
+
+const asset = (
+  id: string,
+  seconds: number,
+  overrides: Partial<AssetResponseDto> = {},
+) =>
+  ({
+    id,
+    fileCreatedAt: new Date(
+      Date.UTC(2024, 5, 1, 12, 0, 0) + seconds * 1000,
+    ).toISOString(),
+    isFavorite: false,
+    exifInfo: {},
+    ...overrides,
+  }) as AssetResponseDto;
+
+// 9x8 RGBA image with the brightness given per pixel
+const image = (brightness: (x: number, y: number) => number) => {
+  const pixels = new Uint8ClampedArray(9 * 8 * 4);
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 9; x++) {
+      const index = (y * 9 + x) * 4;
+      pixels.fill(brightness(x, y), index, index + 3);
+      pixels[index + 3] = 255;
+    }
+  }
+  return pixels;
+};
+
+describe("differenceHash", () => {
+  it("sets a bit where the brightness falls to the right", () => {
+    expect(differenceHash(image((x) => 255 - x * 20))).toBe("ffffffffffffffff");
+    expect(differenceHash(image((x) => x * 20))).toBe("0000000000000000");
+  });
+
+  it("gives similar images similar hashes", () => {
+    const photo = differenceHash(image((x, y) => (x * 37 + y * 53) % 256));
+    const brighter = differenceHash(
+      image((x, y) => ((x * 37 + y * 53) % 256) * 0.9 + 20),
+    );
+    const other = differenceHash(image((x, y) => (x * 91 + y * 17) % 256));
+    expect(hammingDistance(photo, brighter)).toBe(0);
+    expect(hammingDistance(photo, other)).toBeGreaterThan(12);
+  });
+});
+
+describe("duplicateGroups", () => {
+  const hashes = new Map([
+    ["a", "0000000000000000"],
+    ["b", "0000000000000001"],
+    ["c", "000000000000000f"],
+    ["d", "ffffffffffffffff"],
+    ["e", "0000000000000000"],
+  ]);
+
+  it("groups similar photos taken shortly after each other", () => {
+    const assets = [
+      asset("b", 2),
+      asset("a", 0),
+      asset("c", 5),
+      asset("d", 6), // looks different
+      asset("e", 100), // taken much later
+      asset("f", 101), // without hash
+    ];
+    expect(
+      duplicateGroups(assets, hashes, "fileCreatedAt").map((group) =>
+        group.map((a) => a.id),
+      ),
+    ).toEqual([["a", "b", "c"]]);
+  });
+
+  it("groups photos by the corrected clock of their camera", () => {
+    // The second camera's clock is an hour ahead
+    const canon = { exifInfo: { make: "Canon", model: "EOS R6" } };
+    const assets = [asset("a", 0), asset("b", 3602, canon), asset("c", 100)];
+    const hashes = new Map([
+      ["a", "0000000000000000"],
+      ["b", "0000000000000001"],
+      ["c", "0000000000000000"],
+    ]);
+    const groups = (offsets: Record<string, number>) =>
+      duplicateGroups(assets, hashes, "fileCreatedAt", offsets).map((group) =>
+        group.map((a) => a.id),
+      );
+    expect(groups({})).toEqual([]);
+    expect(groups({ "Canon EOS R6": -3600 })).toEqual([["a", "b"]]);
+  });
+});
+
+describe("bestShot", () => {
+  it("prefers favorites, then rating, then resolution", () => {
+    const group = [
+      asset("a", 0, {
+        exifInfo: { rating: 3, exifImageWidth: 4000, exifImageHeight: 3000 },
+      }),
+      asset("b", 1, { exifInfo: { rating: 4 } }),
+      asset("c", 2, {
+        exifInfo: { rating: 4, exifImageWidth: 4000, exifImageHeight: 3000 },
+      }),
+    ];
+    expect(bestShot(group).id).toBe("c");
+    expect(bestShot([...group, asset("d", 3, { isFavorite: true })]).id).toBe(
+      "d",
+    );
+  });
+});
+
+describe("suggestExclusions", () => {
+  const assets = [
+    asset("a", 0),
+    asset("b", 1, { isFavorite: true }),
+    asset("c", 3600),
+    asset("d", 3660),
+    asset("e", 7200, { exifInfo: { rating: 5 } }),
+    asset("f", 10800),
+  ];
+  const groups = [assets.slice(0, 2)];
+
+  it("keeps the best shot of each group", () => {
+    expect(suggestExclusions(assets, groups, null, "fileCreatedAt")).toEqual([
+      "a",
+    ]);
+  });
+
+  it("leaves out low rated photos close to others for a target count", () => {
+    expect(suggestExclusions(assets, groups, 3, "fileCreatedAt")).toEqual([
+      "a",
+      "c",
+      "d",
+    ]);
+  });
+});
@@ -0,0 +1,234 @@
+import type { AssetResponseDto } from "@immich/sdk";
+import type { ImmichConfig } from "../components/ConnectionForm";
+import { assetTime, type SortStrategy } from "./assetSort";
+import { createPromiseCache } from "./promiseCache";
+
+// When two photos count as near-duplicates: taken within maxGapSeconds of
+// each other, with at most maxDistance of 64 hash bits differing
+export interface DuplicateOptions {
+  maxGapSeconds: number;
+  maxDistance: number;
+}
+
+export const DEFAULT_DUPLICATE_OPTIONS: DuplicateOptions = {
+  maxGapSeconds: 10,
+  maxDistance: 12,
+};
+
+// Size of the grayscale image a hash is computed from
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+const HASH_CONCURRENCY = 8;
+
+/**
+ * Difference hash of a 9x8 RGBA image: one bit per pixel pair, set if the
+ * left pixel is brighter than the right one. Returned as 16 hex digits.
+ * Similar images have hashes with few different bits, regardless of their
+ * size, brightness and compression.
+ */
+export function differenceHash(pixels: Uint8ClampedArray): string {
+  const gray = (index: number) =>
+    0.299 * pixels[index * 4] +
+    0.587 * pixels[index * 4 + 1] +
+    0.114 * pixels[index * 4 + 2];
+
+  let hash = "";
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x += 4) {
+      let nibble = 0;
+      for (let bit = 0; bit < 4; bit++) {
+        const index = y * HASH_WIDTH + x + bit;
+        nibble = (nibble << 1) | (gray(index) > gray(index + 1) ? 1 : 0);
+      }
+      hash += nibble.toString(16);
+    }
+  }
+  return hash;
+}
+
+// Number of different bits of two hashes
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+// Hashes of thumbnails, kept for the session so curating again is instant
+const hashCache = createPromiseCache<string>();
+
+// Hash of the small Immich thumbnail of an asset, computed in the browser
+export function thumbnailHash(
+  immichConfig: ImmichConfig,
+  assetId: string,
+): Promise<string> {
+  return hashCache(assetId, async () => {
+    const response = await fetch(
+      `${immichConfig.baseUrl}/assets/${assetId}/thumbnail?size=thumbnail&apiKey=${immichConfig.apiKey}`,
+    );
+    if (!response.ok) {
+      throw new Error(`Failed to load thumbnail: ${response.status}`);
+    }
+    const bitmap = await createImageBitmap(await response.blob());
+    try {
+      const canvas = document.createElement("canvas");
+      canvas.width = HASH_WIDTH;
+      canvas.height = HASH_HEIGHT;
+      const context = canvas.getContext("2d");
+      if (!context) {
+        throw new Error("Canvas 2D context not available");
+      }
+      context.drawImage(bitmap, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+      return differenceHash(
+        context.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT).data,
+      );
+    } finally {
+      bitmap.close();
+    }
+  });
+}
+
+/**
+ * Hash the thumbnails of all assets, a few at a time. Assets whose thumbnail
+ * can't be loaded have no hash and are never grouped.
+ */
+export async function thumbnailHashes(
+  immichConfig: ImmichConfig,
+  assets: AssetResponseDto[],
+  onProgress: (done: number) => void,
+): Promise<Map<string, string>> {
+  const hashes = new Map<string, string>();
+  for (let i = 0; i < assets.length; i += HASH_CONCURRENCY) {
+    await Promise.all(
+      assets.slice(i, i + HASH_CONCURRENCY).map(async (asset) => {
+        try {
+          hashes.set(asset.id, await thumbnailHash(immichConfig, asset.id));
+        } catch (err) {
+          console.warn(`Failed to hash thumbnail of asset ${asset.id}:`, err);
+        }
+      }),
+    );
+    onProgress(Math.min(i + HASH_CONCURRENCY, assets.length));
+  }
+  return hashes;
+}
+
+/**
+ * Groups of near-duplicates like burst shots: photos taken shortly after each
+ * other that look alike. Only groups with more than one photo are returned,
+ * each in capture order. Capture times are taken like the photos are sorted,
+ * with the clock offsets of their cameras.
+ */
+export function duplicateGroups(
+  assets: AssetResponseDto[],
+  hashes: Map<string, string>,
+  strategy: SortStrategy,
+  cameraOffsets: Record<string, number> = {},
+  options: DuplicateOptions = DEFAULT_DUPLICATE_OPTIONS,
+): AssetResponseDto[][] {
+  const captureTime = (asset: AssetResponseDto) =>
+    assetTime(asset, strategy, cameraOffsets);
+  const sorted = [...assets].sort((a, b) => captureTime(a) - captureTime(b));
+  const groups: AssetResponseDto[][] = [];
+  let group: AssetResponseDto[] = [];
+
+  for (const asset of sorted) {
+    const previous = group[group.length - 1];
+    const hash = hashes.get(asset.id);
+    const previousHash = previous && hashes.get(previous.id);
+    const isDuplicate =
+      !!hash &&
+      !!previousHash &&
+      captureTime(asset) - captureTime(previous) <=
+        options.maxGapSeconds * 1000 &&
+      hammingDistance(hash, previousHash) <= options.maxDistance;
+
+    if (!isDuplicate) {
+      if (group.length > 1) groups.push(group);
+      group = [];
+    }
+    group.push(asset);
+  }
+  if (group.length > 1) groups.push(group);
+  return groups;
+}
+
+// How much a photo is worth keeping: favorites first, then the Immich rating
+// (-1 for rejected photos)
+export function shotScore(asset: AssetResponseDto): number {
+  return (asset.isFavorite ? 10 : 0) + (asset.exifInfo?.rating ?? 0);
+}
+
+const resolution = (asset: AssetResponseDto) =>
+  (asset.exifInfo?.exifImageWidth ?? 0) *
+  (asset.exifInfo?.exifImageHeight ?? 0);
+
+// Best shot of a group: the highest score, then the highest resolution, then
+// the first one taken
+export function bestShot(group: AssetResponseDto[]): AssetResponseDto {
+  return group.reduce((best, asset) => {
+    const scoreDiff = shotScore(asset) - shotScore(best);
+    if (scoreDiff !== 0) return scoreDiff > 0 ? asset : best;
+    return resolution(asset) > resolution(best) ? asset : best;
+  });
+}
+
+/**
+ * Suggest the photos to leave out of the book: all but the best shot of each
+ * group of near-duplicates, then, while there are more photos than the
+ * target, the ones with the lowest score, taking those closest in time to
+ * the photos around them first. Returns the IDs in the order of the assets.
+ */
+export function suggestExclusions(
+  assets: AssetResponseDto[],
+  groups: AssetResponseDto[][],
+  targetCount: number | null,
+  strategy: SortStrategy,
+  cameraOffsets: Record<string, number> = {},
+): string[] {
+  const captureTime = (asset: AssetResponseDto) =>
+    assetTime(asset, strategy, cameraOffsets);
+  const excluded = new Set<string>();
+  for (const group of groups) {
+    const best = bestShot(group);
+    for (const asset of group) {
+      if (asset !== best) excluded.add(asset.id);
+    }
+  }
+
+  const remaining = assets
+    .filter((asset) => !excluded.has(asset.id))
+    .sort((a, b) => captureTime(a) - captureTime(b));
+  const surplus = targetCount === null ? 0 : remaining.length - targetCount;
+  if (surplus > 0) {
+    // Time to the closest photo taken before or after
+    const gaps = new Map(
+      remaining.map((asset, i) => {
+        const before =
+          i > 0 ? captureTime(asset) - captureTime(remaining[i - 1]) : Infinity;
+        const after =
+          i < remaining.length - 1
+            ? captureTime(remaining[i + 1]) - captureTime(asset)
+            : Infinity;
+        return [asset.id, Math.min(before, after)];
+      }),
+    );
+    const candidates = [...remaining].sort(
+      (a, b) =>
+        shotScore(a) - shotScore(b) || gaps.get(a.id)! - gaps.get(b.id)!,
+    );
+    for (const asset of candidates.slice(0, surplus)) {
+      excluded.add(asset.id);
+    }
+  }
+
+  return assets
+    .filter((asset) => excluded.has(asset.id))
+    .map((asset) => asset.id);
+}
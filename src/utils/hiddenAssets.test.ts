@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { AssetVisibility, type AssetResponseDto } from "@immich/sdk";
+import {
+  bookPeople,
+  hideMatching,
+  isArchived,
+  isRatedBelow,
+  isScreenshot,
+} from "./hiddenAssets";
+
+const asset = (id: string, overrides: Partial<AssetResponseDto> = {}) =>
+  ({
+    id,
+    originalFileName: `${id}.jpg`,
+    originalMimeType: "image/jpeg",
+    isArchived: false,
+    visibility: AssetVisibility.Timeline,
+    exifInfo: { make: "Canon", model: "EOS R6" },
+    people: [],
+    ...overrides,
+  }) as AssetResponseDto;
+
+const person = (id: string, name: string, isHidden = false) =>
+  ({ id, name, isHidden }) as NonNullable<AssetResponseDto["people"]>[number];
+
+describe("isScreenshot", () => {
+  it("detects screenshots by name or as PNG without camera", () => {
+    expect(
+      isScreenshot(asset("a", { originalFileName: "Screenshot_2024.jpg" })),
+    ).toBe(true);
+    expect(
+      isScreenshot(
+        asset("b", {
+          originalFileName: "IMG_1.png",
+          originalMimeType: "image/png",
+          exifInfo: {},
+        }),
+      ),
+    ).toBe(true);
+    expect(isScreenshot(asset("c"))).toBe(false);
+  });
+});
+
+describe("isArchived", () => {
+  it("accepts the visibility and the older archive flag", () => {
+    expect(
+      isArchived(asset("a", { visibility: AssetVisibility.Archive })),
+    ).toBe(true);
+    expect(isArchived(asset("b", { isArchived: true }))).toBe(true);
+    expect(isArchived(asset("c"))).toBe(false);
+  });
+});
+
+describe("isRatedBelow", () => {
+  it("counts unrated photos as rated 0", () => {
+    expect(isRatedBelow(asset("a"), 1)).toBe(true);
+    expect(isRatedBelow(asset("b", { exifInfo: { rating: 3 } }), 3)).toBe(
+      false,
+    );
+  });
+});
+
+describe("bookPeople", () => {
+  it("lists named people by number of photos", () => {
+    const assets = [
+      asset("a", { people: [person("p1", "Anna"), person("p2", "")] }),
+      asset("b", { people: [person("p3", "Ben"), person("p1", "Anna")] }),
+      asset("c", { people: [person("p4", "Hidden", true)] }),
+    ];
+    expect(bookPeople(assets)).toEqual([
+      { id: "p1", name: "Anna", count: 2 },
+      { id: "p3", name: "Ben", count: 1 },
+    ]);
+  });
+});
+
+describe("hideMatching", () => {
+  it("adds the matching assets that aren't hidden yet", () => {
+    const assets = [asset("a"), asset("b"), asset("c")];
+    expect(hideMatching(["b"], assets, (a) => a.id !== "c")).toEqual([
+      "b",
+      "a",
+    ]);
+  });
+});
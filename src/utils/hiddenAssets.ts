@@ -0,0 +1,73 @@
+import { AssetVisibility, type AssetResponseDto } from "@immich/sdk";
+
+// A person recognized in the photos of a book
+export interface BookPerson {
+  id: string;
+  name: string;
+  count: number; // photos with the person
+}
+
+const SCREENSHOT_NAME = /screen[\s_-]?shot|bildschirmfoto|capture d.[ée]cran/i;
+
+/**
+ * Guess whether an asset is a screenshot: by its file name, or a PNG without
+ * camera, as phones and computers save them
+ */
+export function isScreenshot(asset: AssetResponseDto): boolean {
+  if (SCREENSHOT_NAME.test(asset.originalFileName)) return true;
+  const isPng =
+    asset.originalMimeType === "image/png" ||
+    asset.originalFileName.toLowerCase().endsWith(".png");
+  return isPng && !asset.exifInfo?.make && !asset.exifInfo?.model;
+}
+
+export function isArchived(asset: AssetResponseDto): boolean {
+  return asset.visibility === AssetVisibility.Archive || asset.isArchived;
+}
+
+// Unrated photos count as rated 0
+export function isRatedBelow(asset: AssetResponseDto, rating: number): boolean {
+  return (asset.exifInfo?.rating ?? 0) < rating;
+}
+
+export function showsPerson(
+  asset: AssetResponseDto,
+  personId: string,
+): boolean {
+  return (asset.people ?? []).some((person) => person.id === personId);
+}
+
+// Named people in the assets, the most frequent first
+export function bookPeople(assets: AssetResponseDto[]): BookPerson[] {
+  const people = new Map<string, BookPerson>();
+  for (const asset of assets) {
+    for (const person of asset.people ?? []) {
+      if (!person.name || person.isHidden) continue;
+      const entry = people.get(person.id) ?? {
+        id: person.id,
+        name: person.name,
+        count: 0,
+      };
+      entry.count++;
+      people.set(person.id, entry);
+    }
+  }
+  return [...people.values()].sort(
+    (a, b) => b.count - a.count || a.name.localeCompare(b.name),
+  );
+}
+
+// Hidden assets with the matching ones added at the end
+export function hideMatching(
+  hiddenAssetIds: string[],
+  assets: AssetResponseDto[],
+  matches: (asset: AssetResponseDto) => boolean,
+): string[] {
+  const hidden = new Set(hiddenAssetIds);
+  return [
+    ...hiddenAssetIds,
+    ...assets
+      .filter((asset) => !hidden.has(asset.id) && matches(asset))
+      .map((asset) => asset.id),
+  ];
+}
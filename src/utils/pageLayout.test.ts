@@ -0,0 +1,443 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import {
+  calculatePageLayout,
+  type LayoutOptions,
+  type Page,
+  type PageAlignment,
+  type VerticalFill,
+} from "./pageLayout";
+import { fixtureAlbum, fixtureAsset } from "./__fixtures__/assets";
+
+// A4 portrait at 300 DPI with a 1cm margin
+const PAGE_WIDTH = 2480;
+const PAGE_HEIGHT = 3508;
+
+const OPTIONS: LayoutOptions = {
+  pageSize: "CUSTOM",
+  orientation: "portrait",
+  customWidth: PAGE_WIDTH,
+  customHeight: PAGE_HEIGHT,
+  margin: 118,
+  rowHeight: 600,
+  spacing: 24,
+};
+
+// Positions are rounded, the justified layout computes in 32 bit floats
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const box = (b: { x: number; y: number; width: number; height: number }) =>
+  `${round(b.x)},${round(b.y)} ${round(b.width)}x${round(b.height)}`;
+
+// Compact, readable form of the pages for golden snapshots
+function summarize(pages: Page[]) {
+  return pages.map((page) => ({
+    pageNumber: page.pageNumber,
+    size: `${page.width}x${page.height}`,
+    bleed: page.bleed,
+    photos: page.photos.map((photo) => `${photo.asset.id} ${box(photo)}`),
+    sections: page.sections.map(
+      (section) => `${section.section.title} ${box(section)}`,
+    ),
+    texts: page.texts.map((text) => `${text.block.id} ${box(text)}`),
+    stats: page.stats.map((stats) => ({
+      pageNumber: stats.pageNumber,
+      rowHeight: stats.rowHeight === null ? null : round(stats.rowHeight),
+      fillRatio: round(stats.fillRatio),
+    })),
+  }));
+}
+
+const photoIds = (page: Page) => page.photos.map((photo) => photo.asset.id);
+
+describe("calculatePageLayout snapshots", () => {
+  it("lays out justified pages", () => {
+    const pages = calculatePageLayout(fixtureAlbum(24), OPTIONS);
+    expect(summarize(pages)).toMatchSnapshot();
+  });
+
+  it("combines pages into spreads", () => {
+    const pages = calculatePageLayout(fixtureAlbum(24), {
+      ...OPTIONS,
+      combinePages: true,
+    });
+    expect(summarize(pages)).toMatchSnapshot();
+  });
+
+  it("fills templates, sections and text pages", () => {
+    const assets = fixtureAlbum(16);
+    const pages = calculatePageLayout(assets, {
+      ...OPTIONS,
+      pageTemplates: new Map([
+        [2, "hero"],
+        [3, "grid-2x2"],
+      ]),
+      sections: new Map([
+        ["asset-8", { title: "Day two", subtitle: "", photo: assets[8] }],
+      ]),
+      textBlocks: [
+        {
+          id: "foreword",
+          content: "# Foreword",
+          align: "center",
+          placement: { kind: "page", beforeAssetId: "asset-0" },
+        },
+        {
+          id: "caption",
+          content: "In the slot",
+          align: "left",
+          placement: { kind: "slot", pageNumber: 3, slot: 1 },
+        },
+      ],
+    });
+    expect(summarize(pages)).toMatchSnapshot();
+  });
+
+  it("balances and fills pages vertically", () => {
+    const pages = calculatePageLayout(fixtureAlbum(30), {
+      ...OPTIONS,
+      verticalFill: "balance",
+    });
+    expect(summarize(pages)).toMatchSnapshot();
+  });
+
+  it("adds bleed around the pages", () => {
+    const pages = calculatePageLayout(fixtureAlbum(10), {
+      ...OPTIONS,
+      margin: 0,
+      spacing: 0,
+      bleed: 35,
+      combinePages: true,
+    });
+    expect(summarize(pages)).toMatchSnapshot();
+  });
+});
+
+describe("calculatePageLayout page breaking", () => {
+  it("starts a new page when the next row does not fit", () => {
+    const pages = calculatePageLayout(fixtureAlbum(40), OPTIONS);
+    expect(pages.length).toBeGreaterThan(1);
+    for (const page of pages) {
+      for (const photo of page.photos) {
+        expect(photo.y + photo.height).toBeLessThanOrEqual(
+          PAGE_HEIGHT - OPTIONS.margin + 0.5,
+        );
+      }
+    }
+  });
+
+  it("starts a new page at a manual page break", () => {
+    const pages = calculatePageLayout(fixtureAlbum(6), {
+      ...OPTIONS,
+      pageBreaks: new Map([["asset-3", "page"]]),
+    });
+    expect(pages.map(photoIds)).toEqual([
+      ["asset-0", "asset-1", "asset-2"],
+      ["asset-3", "asset-4", "asset-5"],
+    ]);
+  });
+
+  it("leaves a right page empty for a spread break", () => {
+    const pages = calculatePageLayout(fixtureAlbum(3), {
+      ...OPTIONS,
+      combinePages: true,
+      pageBreaks: new Map([["asset-1", "spread"]]),
+    });
+    expect(pages).toHaveLength(2);
+    expect(photoIds(pages[0])).toEqual(["asset-0"]);
+    expect(pages[0].stats.map((stats) => stats.rowHeight)).toEqual([
+      OPTIONS.rowHeight,
+      null,
+    ]);
+    expect(photoIds(pages[1])).toEqual(["asset-1", "asset-2"]);
+  });
+
+  it("moves a keep together group to the next page", () => {
+    const single = calculatePageLayout(fixtureAlbum(40), OPTIONS);
+    const lastOnFirstPage = single[0].photos.length - 1;
+    const group = [`asset-${lastOnFirstPage}`, `asset-${lastOnFirstPage + 1}`];
+
+    const pages = calculatePageLayout(fixtureAlbum(40), {
+      ...OPTIONS,
+      keepTogether: [group],
+    });
+    expect(photoIds(pages[0])).not.toContain(group[0]);
+    expect(photoIds(pages[1]).slice(0, 2)).toEqual(group);
+  });
+});
+
+describe("calculatePageLayout combined pages", () => {
+  // One photo per logical page
+  const onePerPage = (count: number) => ({
+    ...OPTIONS,
+    combinePages: true,
+    pageBreaks: new Map(
+      fixtureAlbum(count)
+        .slice(1)
+        .map((asset) => [asset.id, "page" as const]),
+    ),
+  });
+
+  it("shifts right pages by the page width", () => {
+    const pages = calculatePageLayout(fixtureAlbum(4), onePerPage(4));
+    expect(pages).toHaveLength(2);
+    for (const page of pages) {
+      expect(page.width).toBe(PAGE_WIDTH * 2);
+      expect(page.stats).toHaveLength(2);
+      const [left, right] = page.photos;
+      expect(left.x).toBeLessThan(PAGE_WIDTH);
+      expect(right.x).toBe(left.x + PAGE_WIDTH);
+    }
+  });
+
+  it("keeps the last page of an odd page count single", () => {
+    const pages = calculatePageLayout(fixtureAlbum(3), onePerPage(3));
+    expect(pages).toHaveLength(2);
+    const last = pages[1];
+    expect(last.pageNumber).toBe(2);
+    expect(last.width).toBe(PAGE_WIDTH * 2);
+    expect(last.stats.map((stats) => stats.pageNumber)).toEqual([3]);
+    expect(photoIds(last)).toEqual(["asset-2"]);
+    expect(last.photos[0].x + last.photos[0].width).toBeLessThanOrEqual(
+      PAGE_WIDTH,
+    );
+  });
+});
+
+describe("calculatePageLayout spread photos", () => {
+  const spread = (options: Partial<LayoutOptions> = {}) =>
+    calculatePageLayout(fixtureAlbum(3), {
+      ...OPTIONS,
+      spreadPhotos: new Set(["asset-1"]),
+      ...options,
+    });
+
+  it("starts spread photos on a left page and splits them at the gutter", () => {
+    const pages = spread();
+    expect(pages.map(photoIds)).toEqual([
+      ["asset-0"],
+      [],
+      ["asset-1"],
+      ["asset-1"],
+      ["asset-2"],
+    ]);
+    const [left] = pages[2].photos;
+    const [right] = pages[3].photos;
+    expect(left.x + left.width).toBe(PAGE_WIDTH);
+    expect(right.x).toBe(0);
+    expect(left.width + right.width).toBeCloseTo(left.spread!.width);
+    // Centred on the spread, within the outer margins
+    expect(left.x).toBeGreaterThanOrEqual(OPTIONS.margin);
+    expect(left.width).toBeCloseTo(right.width);
+  });
+
+  it("joins the halves on combined pages", () => {
+    const pages = spread({ combinePages: true });
+    expect(pages.map(photoIds)).toEqual([
+      ["asset-0"],
+      ["asset-1"],
+      ["asset-2"],
+    ]);
+    const [photo] = pages[1].photos;
+    expect(photo.x + photo.width / 2).toBeCloseTo(PAGE_WIDTH);
+    expect(photo.width).toBe(photo.spread!.width);
+  });
+
+  it("extends the halves into the bleed at the gutter only", () => {
+    const bleed = 36;
+    const [, , left, right] = spread({ bleed });
+    expect(left.photos[0].x + left.photos[0].width).toBe(
+      PAGE_WIDTH + bleed * 2,
+    );
+    expect(left.photos[0].spread!.x).toBe(left.photos[0].x);
+    expect(right.photos[0].x).toBe(0);
+  });
+});
+
+describe("calculatePageLayout aspect ratios", () => {
+  const ratio = (pages: Page[]) =>
+    pages[0].photos[0].width / pages[0].photos[0].height;
+
+  it("uses the EXIF dimensions", () => {
+    const pages = calculatePageLayout(
+      [fixtureAsset("landscape", 4000, 3000)],
+      OPTIONS,
+    );
+    expect(ratio(pages)).toBeCloseTo(4 / 3, 2);
+  });
+
+  it.each(["5", "6", "7", "8"])(
+    "swaps width and height for orientation %s",
+    (orientation) => {
+      const pages = calculatePageLayout(
+        [fixtureAsset("rotated", 4000, 3000, orientation)],
+        OPTIONS,
+      );
+      expect(ratio(pages)).toBeCloseTo(3 / 4, 2);
+    },
+  );
+
+  it.each(["1", "2", "3", "4"])(
+    "keeps width and height for orientation %s",
+    (orientation) => {
+      const pages = calculatePageLayout(
+        [fixtureAsset("upright", 4000, 3000, orientation)],
+        OPTIONS,
+      );
+      expect(ratio(pages)).toBeCloseTo(4 / 3, 2);
+    },
+  );
+
+  it("prefers custom aspect ratios", () => {
+    const pages = calculatePageLayout(
+      [fixtureAsset("rotated", 4000, 3000, "6")],
+      { ...OPTIONS, customAspectRatios: new Map([["rotated", 2]]) },
+    );
+    expect(ratio(pages)).toBeCloseTo(2, 2);
+  });
+});
+
+describe("calculatePageLayout alignment", () => {
+  // Rows of a page by the y position of their photos
+  const rows = (page: Page) => {
+    const byY = new Map<number, Page["photos"]>();
+    for (const photo of page.photos) {
+      const key = Math.round(photo.y);
+      byY.set(key, [...(byY.get(key) ?? []), photo]);
+    }
+    return [...byY.values()];
+  };
+
+  const layout = (alignment: PageAlignment, verticalFill: VerticalFill) =>
+    calculatePageLayout(fixtureAlbum(11), {
+      ...OPTIONS,
+      verticalFill,
+      pageAlignments: new Map([[1, alignment]]),
+    })[0];
+
+  it.each(["none", "fill"] as const)(
+    "moves whole rows to the right (%s)",
+    (verticalFill) => {
+      const left = layout("left", verticalFill);
+      const right = layout("right", verticalFill);
+      const rightEdge = PAGE_WIDTH - OPTIONS.margin;
+
+      rows(right).forEach((row, index) => {
+        const end = Math.max(...row.map((photo) => photo.x + photo.width));
+        expect(end).toBeCloseTo(rightEdge, 1);
+        // Photos of a row are shifted together and keep their spacing
+        const shift = row[0].x - rows(left)[index][0].x;
+        row.forEach((photo, i) => {
+          expect(photo.x - rows(left)[index][i].x).toBeCloseTo(shift, 3);
+        });
+      });
+    },
+  );
+
+  it("centres each row in the content area", () => {
+    const page = layout("center", "none");
+    for (const row of rows(page)) {
+      const start = Math.min(...row.map((photo) => photo.x));
+      const end = Math.max(...row.map((photo) => photo.x + photo.width));
+      expect(start - OPTIONS.margin).toBeCloseTo(
+        PAGE_WIDTH - OPTIONS.margin - end,
+        1,
+      );
+    }
+  });
+});
+
+describe("calculatePageLayout properties", () => {
+  // Allowed rounding error in pixels
+  const EPSILON = 0.5;
+
+  const layoutInput = fc.record({
+    ratios: fc.array(
+      fc.double({ min: 0.25, max: 4, noNaN: true, noDefaultInfinity: true }),
+      { minLength: 1, maxLength: 40 },
+    ),
+    margin: fc.integer({ min: 0, max: 300 }),
+    rowHeight: fc.integer({ min: 200, max: 1500 }),
+    spacing: fc.integer({ min: 0, max: 60 }),
+    combinePages: fc.boolean(),
+    verticalFill: fc.constantFrom<VerticalFill>("none", "fill", "balance"),
+    alignment: fc.constantFrom<PageAlignment>("left", "center", "right"),
+  });
+
+  const run = ({
+    ratios,
+    alignment,
+    ...options
+  }: {
+    ratios: number[];
+    margin: number;
+    rowHeight: number;
+    spacing: number;
+    combinePages: boolean;
+    verticalFill: VerticalFill;
+    alignment: PageAlignment;
+  }) => {
+    const assets = ratios.map((ratio, i) =>
+      fixtureAsset(`asset-${i}`, Math.round(ratio * 1000), 1000),
+    );
+    const pages = calculatePageLayout(assets, {
+      ...OPTIONS,
+      ...options,
+      pageAlignments: new Map(
+        Array.from({ length: assets.length * 2 }, (_, i) => [i + 1, alignment]),
+      ),
+    });
+    return { assets, pages };
+  };
+
+  it("places every asset exactly once, in order", () => {
+    fc.assert(
+      fc.property(layoutInput, (input) => {
+        const { assets, pages } = run(input);
+        expect(pages.flatMap(photoIds)).toEqual(
+          assets.map((asset) => asset.id),
+        );
+      }),
+    );
+  });
+
+  it("keeps photos inside the margins of their page", () => {
+    fc.assert(
+      fc.property(layoutInput, (input) => {
+        const { margin } = input;
+        for (const page of run(input).pages) {
+          for (const photo of page.photos) {
+            // Left or right page of a spread
+            const offset = photo.x >= PAGE_WIDTH ? PAGE_WIDTH : 0;
+            expect(photo.x - offset).toBeGreaterThanOrEqual(margin - EPSILON);
+            expect(photo.x + photo.width - offset).toBeLessThanOrEqual(
+              PAGE_WIDTH - margin + EPSILON,
+            );
+            expect(photo.y).toBeGreaterThanOrEqual(margin - EPSILON);
+            expect(photo.y + photo.height).toBeLessThanOrEqual(
+              PAGE_HEIGHT - margin + EPSILON,
+            );
+          }
+        }
+      }),
+    );
+  });
+
+  it("never overlaps photos", () => {
+    fc.assert(
+      fc.property(layoutInput, (input) => {
+        for (const page of run(input).pages) {
+          page.photos.forEach((a, i) => {
+            for (const b of page.photos.slice(i + 1)) {
+              const overlapX =
+                Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+              const overlapY =
+                Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+              expect(Math.min(overlapX, overlapY)).toBeLessThanOrEqual(EPSILON);
+            }
+          });
+        }
+      }),
+    );
+  });
+});
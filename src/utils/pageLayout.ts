@@ -1,5 +1,14 @@
 import { JustifiedLayout } from "@immich/justified-layout-wasm";
 import type { AssetResponseDto } from "@immich/sdk";
+import { assetAspectRatio } from "./aspectRatio";
+import {
+  fillTemplate,
+  getPageTemplate,
+  slotToBox,
+  type PageTemplateId,
+} from "./pageTemplates";
+import type { Section } from "./sections";
+import type { TextBlock } from "./textBlocks";
 
 export interface PageSize {
   width: number; // in pixels
@@ -13,15 +22,58 @@ export interface PhotoBox {
   y: number;
   width: number;
   height: number;
+  // Photo spanning both pages of a spread: position and width of the whole
+  // photo relative to this page. The box shows the part on this page, or all
+  // of it when the pages are combined.
+  spread?: { x: number; width: number };
+}
+
+// A section page, covering one logical page
+export interface SectionBox {
+  assetId: string; // first asset of the section
+  section: Section;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A text block, as a whole page or in a template slot
+export interface TextBox {
+  block: TextBlock;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 export type PageAlignment = "left" | "center" | "right";
 
+// Manual page break before an asset: "page" starts a new page, "spread"
+// starts a new left page when pages are combined
+export type PageBreak = "page" | "spread";
+
+// How the rows of justified pages use the page height
+// - none: rows keep the configured row height, leaving a gap at the bottom
+// - fill: rows are scaled up to fill each page
+// - balance: photos are spread evenly over the pages and then scaled to fill
+export type VerticalFill = "none" | "fill" | "balance";
+
+export interface PageStats {
+  pageNumber: number; // logical page number
+  rowHeight: number | null; // in pixels, null for pages without justified rows
+  fillRatio: number; // used fraction of the content height
+}
+
 export interface Page {
   pageNumber: number;
   photos: PhotoBox[];
-  width: number;
-  height: number;
+  width: number; // including bleed
+  height: number; // including bleed
+  bleed: number; // in pixels, on each side of the trimmed page
+  stats: PageStats[]; // one per logical page, two for combined pages
+  sections: SectionBox[]; // section pages among the logical pages
+  texts: TextBox[];
 }
 
 // Convert millimeters to pixels (assuming 300 DPI)
@@ -31,6 +83,12 @@ export function mmToPixels(mm: number): number {
   return Math.round(mm * 11.811023622047244);
 }
 
+// Convert 300 DPI pixels to 72 DPI points for PDF
+// Conversion: points = pixels * (72/300)
+export function toPoints(pixels: number): number {
+  return pixels * (72 / 300);
+}
+
 // Page sizes in pixels (at 300 DPI)
 export const PAGE_SIZES: Record<string, Record<string, PageSize>> = {
   A4: {
@@ -59,6 +117,7 @@ export interface LayoutOptions {
   pageSize: "A4" | "LETTER" | "A3" | "CUSTOM";
   orientation: "portrait" | "landscape";
   margin: number; // in pixels
+  bleed?: number; // in pixels, added around each (combined) page
   rowHeight: number; // in pixels
   spacing: number; // in pixels
   customWidth?: number; // in pixels
@@ -66,8 +125,21 @@ export interface LayoutOptions {
   combinePages?: boolean; // combine two pages into one PDF page
   customAspectRatios?: Map<string, number>; // custom aspect ratios per asset ID
   pageAlignments?: Map<number, PageAlignment>; // alignment per page number
+  pageTemplates?: Map<number, PageTemplateId>; // template per page number, justified if unset
+  pageBreaks?: Map<string, PageBreak>; // manual page breaks before asset IDs
+  keepTogether?: string[][]; // groups of asset IDs never split across pages
+  verticalFill?: VerticalFill; // how justified rows use the page height
+  sections?: Map<string, Section>; // section pages before asset IDs
+  textBlocks?: TextBlock[]; // text pages and text in template slots
+  spreadPhotos?: Set<string>; // asset IDs spanning a whole spread
 }
 
+// Pages count as filled when the content height is used up to this fraction
+const FILL_TOLERANCE = 0.02;
+
+// Balanced pages may shrink rows down to this fraction of the row height
+const BALANCE_MIN_ROW_SCALE = 0.75;
+
 /**
  * Calculate page-based layout for photos
  * This is the single source of truth for layout - used by both web and PDF
@@ -88,6 +160,14 @@ export function calculatePageLayout(
     customHeight,
     customAspectRatios,
     pageAlignments,
+    pageTemplates,
+    pageBreaks,
+    keepTogether,
+    combinePages,
+    verticalFill = "none",
+    sections,
+    textBlocks,
+    spreadPhotos,
   } = options;
 
   // Determine page dimensions in pixels
@@ -117,68 +197,350 @@ export function calculatePageLayout(
       }
 
       // Otherwise use the asset's natural aspect ratio
-      const width = asset.exifInfo?.exifImageWidth || 1;
-      const height = asset.exifInfo?.exifImageHeight || 1;
-      if (asset.exifInfo?.orientation == "6") {
-        return height / width;
-      }
-      return width / height;
+      return assetAspectRatio(asset);
     }),
   );
 
-  // Run justified layout algorithm
-  const justifiedLayout = new JustifiedLayout(aspectRatios, {
-    rowHeight,
-    rowWidth: contentWidth,
-    spacing,
-    heightTolerance: 0,
-  });
+  // Pages inserted before assets: sections first, then text pages. Text
+  // pages before unknown assets go to the end, so they are not lost.
+  const insertedPages = new Map<string, InsertedPage[]>();
+  const trailingTexts: TextBlock[] = [];
+  for (const [assetId, section] of sections ?? []) {
+    insertedPages.set(assetId, [{ section }]);
+  }
+  const assetIds = new Set(assets.map((asset) => asset.id));
+  // Text blocks in template slots by page number and slot
+  const slotTexts = new Map<number, Map<number, TextBlock>>();
+  for (const block of textBlocks ?? []) {
+    const { placement } = block;
+    if (placement.kind === "slot") {
+      const slots = slotTexts.get(placement.pageNumber) ?? new Map();
+      slots.set(placement.slot, block);
+      slotTexts.set(placement.pageNumber, slots);
+    } else if (
+      placement.beforeAssetId &&
+      assetIds.has(placement.beforeAssetId)
+    ) {
+      const pages = insertedPages.get(placement.beforeAssetId) ?? [];
+      pages.push({ text: block });
+      insertedPages.set(placement.beforeAssetId, pages);
+    } else {
+      trailingTexts.push(block);
+    }
+  }
+  const contentArea = {
+    x: margin,
+    y: margin,
+    width: contentWidth,
+    height: contentHeight,
+  };
+
+  // Index ranges of keep together groups in the current order
+  const groupRanges = keepTogetherRanges(assets, keepTogether);
+  // Groups which were already moved to the start of a spread
+  const movedToSpread = new Set<number>();
 
-  // Convert justified layout positions to page-based layout
+  // Convert layout positions to page-based layout. Pages with a template
+  // take a fixed number of photos, all other pages are filled from a
+  // justified layout of the remaining photos. Photos are only placed up to
+  // the next manual page break or inserted page and keep together groups
+  // are not split. Sections and text pages take a page of their own.
   const pages: Page[] = [];
-  let currentPage: Page = {
-    pageNumber: 1,
-    photos: [],
-    width: pageDimensions.width,
-    height: pageDimensions.height,
-  };
-  let currentPageY = 0;
+  const flow: PageFlow[] = [];
+  let index = 0;
+  let justified: { start: number; layout: JustifiedLayout } | null = null;
+  // Number of pages already inserted before the asset at insertedAt
+  let insertedAt = -1;
+  let insertedCount = 0;
+  // Right half of a spread photo, placed on the next page
+  let spreadRight: PhotoBox | null = null;
 
-  for (let i = 0; i < assets.length; i++) {
-    const box = justifiedLayout.getPosition(i);
-    const asset = assets[i];
+  while (index < assets.length || spreadRight) {
+    const pageNumber = pages.length + 1;
+
+    if (spreadRight) {
+      flow.push({ kind: "spread", start: index, end: index, continued: false });
+      pages.push({
+        pageNumber,
+        photos: [spreadRight],
+        width: pageDimensions.width,
+        height: pageDimensions.height,
+        bleed: 0,
+        stats: [{ pageNumber, rowHeight: null, fillRatio: 0 }],
+        sections: [],
+        texts: [],
+      });
+      spreadRight = null;
+      continue;
+    }
+
+    const photos: PhotoBox[] = [];
+    const pageStart = index;
+    const isRightPage = combinePages && pageNumber % 2 === 0;
+    let kind: PageFlow["kind"] = "empty";
+    let pageRowHeight: number | null = null;
+    const pageSections: SectionBox[] = [];
+    const pageTexts: TextBox[] = [];
+    if (insertedAt !== index) {
+      insertedAt = index;
+      insertedCount = 0;
+    }
+    const inserted = insertedPages.get(assets[index].id)?.[insertedCount];
 
-    // Check if photo fits on current page
-    const photoBottom = box.top + box.height;
+    // Find the next manual page break or inserted page after the first photo
+    let limit = index + 1;
+    while (
+      limit < assets.length &&
+      !pageBreaks?.has(assets[limit].id) &&
+      !insertedPages.has(assets[limit].id) &&
+      !spreadPhotos?.has(assets[limit].id)
+    ) {
+      limit++;
+    }
 
     if (
-      currentPage.photos.length > 0 &&
-      photoBottom - currentPageY > contentHeight
+      isRightPage &&
+      insertedCount === 0 &&
+      pageBreaks?.get(assets[index].id) === "spread"
     ) {
-      // Start a new page
-      pages.push(currentPage);
-      currentPage = {
-        pageNumber: pages.length + 1,
-        photos: [],
-        width: pageDimensions.width,
-        height: pageDimensions.height,
-      };
-      currentPageY = box.top;
+      // Spread breaks start on a left page, leave this right page empty
+    } else if (inserted) {
+      if (inserted.section) {
+        pageSections.push({
+          assetId: assets[index].id,
+          section: inserted.section,
+          x: 0,
+          y: 0,
+          width: pageDimensions.width,
+          height: pageDimensions.height,
+        });
+      } else {
+        pageTexts.push({ block: inserted.text, ...contentArea });
+      }
+      insertedCount++;
+      kind = "inserted";
+      justified = null;
+    } else if (spreadPhotos?.has(assets[index].id)) {
+      // Spread photos start on a left page, like spread breaks, and are
+      // fitted into the content area of both pages
+      if (pageNumber % 2 === 1) {
+        const spreadWidth = pageDimensions.width * 2 - margin * 2;
+        const aspectRatio = aspectRatios[index];
+        const width = Math.min(spreadWidth, contentHeight * aspectRatio);
+        const height = width / aspectRatio;
+        const x = margin + (spreadWidth - width) / 2;
+        const y = margin + (contentHeight - height) / 2;
+        photos.push({
+          asset: assets[index],
+          x,
+          y,
+          width: pageDimensions.width - x,
+          height,
+          spread: { x, width },
+        });
+        spreadRight = {
+          asset: assets[index],
+          x: 0,
+          y,
+          width: x + width - pageDimensions.width,
+          height,
+          spread: { x: x - pageDimensions.width, width },
+        };
+        index++;
+        kind = "spread";
+      }
+      justified = null;
+    } else {
+      const template = getPageTemplate(pageTemplates?.get(pageNumber));
+
+      if (template) {
+        // Slots holding text are not available for photos
+        const texts = slotTexts.get(pageNumber) ?? new Map<number, TextBlock>();
+        const reserved = new Set<number>();
+        for (const [slot, block] of texts) {
+          if (slot >= template.slots.length) continue;
+          reserved.add(slot);
+          pageTexts.push({
+            block,
+            ...slotToBox(template.slots[slot], contentArea, spacing),
+          });
+        }
+
+        let count = Math.min(
+          template.slots.length - reserved.size,
+          limit - index,
+        );
+
+        // Leave a keep together group crossing the end for the next page
+        const group = groupRanges[index + count];
+        if (group && group.start > index && group.start < index + count) {
+          count = group.start - index;
+        }
+
+        photos.push(
+          ...fillTemplate(
+            template,
+            assets.slice(index, index + count),
+            aspectRatios.subarray(index, index + count),
+            contentArea,
+            spacing,
+            reserved,
+          ),
+        );
+        index += count;
+        kind = "template";
+        // Justified layout needs to restart after the template page
+        justified = null;
+      } else {
+        // Run justified layout algorithm on the remaining photos
+        if (!justified) {
+          justified = {
+            start: index,
+            layout: new JustifiedLayout(aspectRatios.subarray(index), {
+              rowHeight,
+              rowWidth: contentWidth,
+              spacing,
+              heightTolerance: 0,
+            }),
+          };
+        }
+
+        let currentPageY = 0;
+        let overflow = false;
+        for (; index < limit; index++) {
+          const box = justified.layout.getPosition(index - justified.start);
+
+          if (photos.length === 0) {
+            currentPageY = box.top;
+          } else if (box.top + box.height - currentPageY > contentHeight) {
+            // Photo does not fit on current page, start a new page
+            overflow = true;
+            break;
+          }
+
+          // Add photo to current page (adjust Y relative to page)
+          photos.push({
+            asset: assets[index],
+            x: box.left + margin,
+            y: box.top - currentPageY + margin,
+            width: box.width,
+            height: box.height,
+          });
+        }
+
+        const group = overflow ? groupRanges[index] : undefined;
+        if (!overflow) {
+          // Manual page break, next page starts a new justified layout
+          justified = null;
+        } else if (group && group.start > pageStart) {
+          // Keep together group would be split, move it to the next page
+          photos.splice(group.start - pageStart);
+          index = group.start;
+          justified = null;
+        } else if (
+          group &&
+          isRightPage &&
+          group.start === pageStart &&
+          !movedToSpread.has(group.start)
+        ) {
+          // Group does not fit on one page, keep it on one spread instead
+          movedToSpread.add(group.start);
+          photos.length = 0;
+          index = pageStart;
+          justified = null;
+        }
+
+        if (photos.length > 0) {
+          kind = "justified";
+          pageRowHeight = rowHeight;
+        }
+      }
     }
 
-    // Add photo to current page (adjust Y relative to page)
-    currentPage.photos.push({
-      asset,
-      x: box.left + margin,
-      y: box.top - currentPageY + margin,
-      width: box.width,
-      height: box.height,
+    const previous = flow[flow.length - 1];
+    flow.push({
+      kind,
+      start: pageStart,
+      end: index,
+      continued:
+        kind === "justified" &&
+        previous?.kind === "justified" &&
+        !pageBreaks?.has(assets[pageStart].id),
+    });
+    pages.push({
+      pageNumber,
+      photos,
+      width: pageDimensions.width,
+      height: pageDimensions.height,
+      bleed: 0,
+      stats: [{ pageNumber, rowHeight: pageRowHeight, fillRatio: 0 }],
+      sections: pageSections,
+      texts: pageTexts,
+    });
+  }
+
+  // Text pages after the last photo
+  for (const block of trailingTexts) {
+    const pageNumber = pages.length + 1;
+    flow.push({
+      kind: "inserted",
+      start: assets.length,
+      end: assets.length,
+      continued: false,
+    });
+    pages.push({
+      pageNumber,
+      photos: [],
+      width: pageDimensions.width,
+      height: pageDimensions.height,
+      bleed: 0,
+      stats: [{ pageNumber, rowHeight: null, fillRatio: 0 }],
+      sections: [],
+      texts: [{ block, ...contentArea }],
+    });
+  }
+
+  // Scale rows of justified pages to fill the page height
+  if (verticalFill !== "none") {
+    const context: FillContext = {
+      aspectRatios,
+      rowHeight,
+      contentWidth,
+      contentHeight,
+      spacing,
+      margin,
+    };
+
+    let minRowHeight = rowHeight;
+    if (verticalFill === "balance") {
+      balancePages(assets, flow, groupRanges, context);
+      minRowHeight = rowHeight * BALANCE_MIN_ROW_SCALE;
+    }
+
+    flow.forEach((entry, pageIndex) => {
+      if (entry.kind !== "justified") return;
+      const page = pages[pageIndex];
+      const fitted = fitPage(
+        assets,
+        entry.start,
+        entry.end,
+        minRowHeight,
+        context,
+      );
+      if (fitted) {
+        page.photos = fitted.photos;
+        page.stats[0].rowHeight = fitted.rowHeight;
+      }
     });
   }
 
-  // Add the last page
-  if (currentPage.photos.length > 0) {
-    pages.push(currentPage);
+  // Report how much of the content height each page uses
+  for (const page of pages) {
+    const bottom = Math.max(
+      margin,
+      ...page.photos.map((photo) => photo.y + photo.height),
+    );
+    page.stats[0].fillRatio = (bottom - margin) / contentHeight;
   }
 
   // Apply page alignments per row (before combining pages)
@@ -192,6 +554,8 @@ export function calculatePageLayout(
         const tolerance = 1; // 1 pixel tolerance for grouping rows
 
         for (const photo of page.photos) {
+          // Spread photos are centred on the spread already
+          if (photo.spread) continue;
           // Find existing row with matching Y position
           let foundRow = false;
           for (const row of rows) {
@@ -237,7 +601,7 @@ export function calculatePageLayout(
   }
 
   // Combine pages if requested
-  if (options.combinePages) {
+  if (combinePages) {
     const combinedPages: Page[] = [];
     for (let i = 0; i < pages.length; i += 2) {
       const leftPage = pages[i];
@@ -248,16 +612,37 @@ export function calculatePageLayout(
         const combinedPage: Page = {
           pageNumber: Math.floor(i / 2) + 1,
           photos: [
-            // Left page photos - keep as is
-            ...leftPage.photos,
-            // Right page photos - shift horizontally by page width
-            ...rightPage.photos.map((photo) => ({
-              ...photo,
-              x: photo.x + pageDimensions.width,
-            })),
+            // Left page photos - keep as is, spread photos as a whole
+            ...leftPage.photos.map((photo) =>
+              photo.spread ? { ...photo, width: photo.spread.width } : photo,
+            ),
+            // Right page photos - shift horizontally by page width, without
+            // the right halves of spread photos
+            ...rightPage.photos
+              .filter((photo) => !photo.spread)
+              .map((photo) => ({
+                ...photo,
+                x: photo.x + pageDimensions.width,
+              })),
           ],
           width: pageDimensions.width * 2,
           height: pageDimensions.height,
+          bleed: 0,
+          stats: [...leftPage.stats, ...rightPage.stats],
+          sections: [
+            ...leftPage.sections,
+            ...rightPage.sections.map((section) => ({
+              ...section,
+              x: section.x + pageDimensions.width,
+            })),
+          ],
+          texts: [
+            ...leftPage.texts,
+            ...rightPage.texts.map((text) => ({
+              ...text,
+              x: text.x + pageDimensions.width,
+            })),
+          ],
         };
         combinedPages.push(combinedPage);
       } else {
@@ -269,8 +654,258 @@ export function calculatePageLayout(
         });
       }
     }
-    return combinedPages;
+    return applyBleed(combinedPages, options.bleed);
+  }
+
+  return applyBleed(pages, options.bleed);
+}
+
+// How a page was filled in the page flow
+interface PageFlow {
+  kind: "justified" | "template" | "inserted" | "spread" | "empty";
+  start: number; // index of the first asset on the page
+  end: number; // index after the last asset on the page
+  continued: boolean; // continues the justified flow of the previous page
+}
+
+// A page inserted before an asset, either a section or a text page
+type InsertedPage =
+  | { section: Section; text?: undefined }
+  | { text: TextBlock; section?: undefined };
+
+interface FillContext {
+  aspectRatios: Float32Array;
+  rowHeight: number;
+  contentWidth: number;
+  contentHeight: number;
+  spacing: number;
+  margin: number;
+}
+
+/**
+ * Lay out the assets of one page in justified rows, using the largest row
+ * height (at least minRowHeight) that still fits the content height.
+ * Returns null if the photos do not fit even with the minimum row height.
+ */
+function fitPage(
+  assets: AssetResponseDto[],
+  start: number,
+  end: number,
+  minRowHeight: number,
+  context: FillContext,
+): { photos: PhotoBox[]; rowHeight: number } | null {
+  const { aspectRatios, contentWidth, contentHeight, spacing, margin } =
+    context;
+  const ratios = aspectRatios.subarray(start, end);
+  const layoutRows = (height: number) =>
+    new JustifiedLayout(ratios, {
+      rowHeight: height,
+      rowWidth: contentWidth,
+      spacing,
+      heightTolerance: 0,
+    });
+
+  let best = layoutRows(minRowHeight);
+  if (best.containerHeight > contentHeight) return null;
+  let bestRowHeight = minRowHeight;
+
+  // Binary search for the largest row height which still fits the page
+  let low = minRowHeight;
+  let high = contentHeight;
+  for (let i = 0; i < 20; i++) {
+    if (contentHeight - best.containerHeight <= contentHeight * FILL_TOLERANCE)
+      break;
+    const middle = (low + high) / 2;
+    const layout = layoutRows(middle);
+    if (layout.containerHeight <= contentHeight) {
+      low = middle;
+      if (layout.containerHeight >= best.containerHeight) {
+        best = layout;
+        bestRowHeight = middle;
+      }
+    } else {
+      high = middle;
+    }
+  }
+
+  const photos: PhotoBox[] = [];
+  for (let i = 0; i < end - start; i++) {
+    const box = best.getPosition(i);
+    photos.push({
+      asset: assets[start + i],
+      x: box.left + margin,
+      y: box.top + margin,
+      width: box.width,
+      height: box.height,
+    });
+  }
+  return { photos, rowHeight: bestRowHeight };
+}
+
+/**
+ * Spread the photos of consecutive justified pages evenly over these pages,
+ * so that no page of a run ends up nearly empty. Photos are distributed by
+ * the sum of their aspect ratios, which is proportional to the area they
+ * take at a common row height. Keep together groups are not split.
+ */
+function balancePages(
+  assets: AssetResponseDto[],
+  flow: PageFlow[],
+  groupRanges: (IndexRange | undefined)[],
+  context: FillContext,
+) {
+  let runStart = 0;
+  while (runStart < flow.length) {
+    let runEnd = runStart + 1;
+    if (flow[runStart].kind === "justified") {
+      while (runEnd < flow.length && flow[runEnd].continued) runEnd++;
+    }
+    const run = flow.slice(runStart, runEnd);
+    if (run.length > 1) {
+      balanceRun(assets, run, groupRanges, context);
+    }
+    runStart = runEnd;
+  }
+}
+
+function balanceRun(
+  assets: AssetResponseDto[],
+  run: PageFlow[],
+  groupRanges: (IndexRange | undefined)[],
+  context: FillContext,
+) {
+  const start = run[0].start;
+  const end = run[run.length - 1].end;
+  const { aspectRatios } = context;
+
+  let total = 0;
+  for (let i = start; i < end; i++) total += aspectRatios[i];
+  const target = total / run.length;
+
+  // Cut where the running sum is closest to the next multiple of the target
+  const cuts = [start];
+  let sum = 0;
+  for (let i = start; i < end && cuts.length < run.length; i++) {
+    const next = sum + aspectRatios[i];
+    const goal = target * cuts.length;
+    if (next >= goal) {
+      let cut = goal - sum < next - goal ? i : i + 1;
+      // Do not split keep together groups
+      const group = groupRanges[cut];
+      if (group && group.start < cut) {
+        cut = group.start > cuts[cuts.length - 1] ? group.start : group.end + 1;
+      }
+      if (cut > cuts[cuts.length - 1] && cut < end) {
+        cuts.push(cut);
+      }
+    }
+    sum = next;
   }
+  if (cuts.length !== run.length) return;
+  cuts.push(end);
+
+  // Only apply if every page still fits, allowing rows to shrink a bit
+  const minRowHeight = context.rowHeight * BALANCE_MIN_ROW_SCALE;
+  const fits = run.every(
+    (_, i) =>
+      fitPage(assets, cuts[i], cuts[i + 1], minRowHeight, context) !== null,
+  );
+  if (!fits) return;
+
+  run.forEach((entry, i) => {
+    entry.start = cuts[i];
+    entry.end = cuts[i + 1];
+  });
+}
+
+interface IndexRange {
+  start: number;
+  end: number;
+}
 
-  return pages;
+// Find the range of indices spanned by each keep together group. Members of
+// a group should be consecutive, otherwise the group spans everything from
+// its first to its last member.
+function keepTogetherRanges(
+  assets: AssetResponseDto[],
+  groups: string[][] | undefined,
+): (IndexRange | undefined)[] {
+  const ranges: (IndexRange | undefined)[] = new Array(assets.length);
+  if (!groups) return ranges;
+
+  const indexById = new Map(assets.map((asset, index) => [asset.id, index]));
+  for (const group of groups) {
+    const indices = group
+      .map((id) => indexById.get(id))
+      .filter((index): index is number => index !== undefined);
+    if (indices.length < 2) continue;
+
+    const range = { start: Math.min(...indices), end: Math.max(...indices) };
+    for (let i = range.start; i <= range.end; i++) {
+      ranges[i] = range;
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Add bleed around each page. Pages grow by the bleed on every side and all
+ * photos are shifted accordingly. Photos touching an edge of the trimmed page
+ * and section pages are extended into the bleed, so they run off the page
+ * after trimming.
+ */
+function applyBleed(pages: Page[], bleed: number | undefined): Page[] {
+  if (!bleed || bleed <= 0) return pages;
+
+  const tolerance = 1; // 1 pixel tolerance for edge detection
+
+  return pages.map((page) => {
+    const extend = <T extends Omit<PhotoBox, "asset">>(box: T): T => {
+      // Spread photos only extend sideways where they are cut at the gutter,
+      // so both halves still show the same whole photo
+      const { spread } = box;
+      const cutLeft = !spread || box.x > spread.x + tolerance;
+      const cutRight =
+        !spread || box.x + box.width < spread.x + spread.width - tolerance;
+
+      const touchesLeft = cutLeft && box.x <= tolerance;
+      const touchesTop = box.y <= tolerance;
+      const touchesRight =
+        cutRight && box.x + box.width >= page.width - tolerance;
+      const touchesBottom = box.y + box.height >= page.height - tolerance;
+
+      const left = touchesLeft ? 0 : box.x + bleed;
+      const top = touchesTop ? 0 : box.y + bleed;
+      const right = touchesRight
+        ? page.width + bleed * 2
+        : box.x + box.width + bleed;
+      const bottom = touchesBottom
+        ? page.height + bleed * 2
+        : box.y + box.height + bleed;
+
+      return {
+        ...box,
+        x: left,
+        y: top,
+        width: right - left,
+        height: bottom - top,
+        ...(spread && { spread: { ...spread, x: spread.x + bleed } }),
+      };
+    };
+
+    return {
+      ...page,
+      width: page.width + bleed * 2,
+      height: page.height + bleed * 2,
+      bleed,
+      photos: page.photos.map(extend),
+      sections: page.sections.map(extend),
+      // Text stays within the trimmed page
+      texts: page.texts.map((text) => ({
+        ...text,
+        x: text.x + bleed,
+        y: text.y + bleed,
+      })),
+    };
+  });
 }
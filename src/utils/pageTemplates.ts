@@ -0,0 +1,178 @@
+import type { AssetResponseDto } from "@immich/sdk";
+import type { PhotoBox } from "./pageLayout";
+
+export type PageTemplateId =
+  | "hero"
+  | "two-side-by-side"
+  | "two-stacked"
+  | "three-large-top"
+  | "three-large-left"
+  | "grid-2x2"
+  | "grid-2x3";
+
+// A slot in a template, in fractions of the content area (0..1)
+export interface TemplateSlot {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PageTemplate {
+  id: PageTemplateId;
+  name: string;
+  slots: TemplateSlot[];
+}
+
+export const PAGE_TEMPLATES: PageTemplate[] = [
+  {
+    id: "hero",
+    name: "Hero",
+    slots: [{ x: 0, y: 0, width: 1, height: 1 }],
+  },
+  {
+    id: "two-side-by-side",
+    name: "2-up side by side",
+    slots: [
+      { x: 0, y: 0, width: 0.5, height: 1 },
+      { x: 0.5, y: 0, width: 0.5, height: 1 },
+    ],
+  },
+  {
+    id: "two-stacked",
+    name: "2-up stacked",
+    slots: [
+      { x: 0, y: 0, width: 1, height: 0.5 },
+      { x: 0, y: 0.5, width: 1, height: 0.5 },
+    ],
+  },
+  {
+    id: "three-large-top",
+    name: "3-up, large top",
+    slots: [
+      { x: 0, y: 0, width: 1, height: 0.6 },
+      { x: 0, y: 0.6, width: 0.5, height: 0.4 },
+      { x: 0.5, y: 0.6, width: 0.5, height: 0.4 },
+    ],
+  },
+  {
+    id: "three-large-left",
+    name: "3-up, large left",
+    slots: [
+      { x: 0, y: 0, width: 0.6, height: 1 },
+      { x: 0.6, y: 0, width: 0.4, height: 0.5 },
+      { x: 0.6, y: 0.5, width: 0.4, height: 0.5 },
+    ],
+  },
+  {
+    id: "grid-2x2",
+    name: "2x2 grid",
+    slots: [
+      { x: 0, y: 0, width: 0.5, height: 0.5 },
+      { x: 0.5, y: 0, width: 0.5, height: 0.5 },
+      { x: 0, y: 0.5, width: 0.5, height: 0.5 },
+      { x: 0.5, y: 0.5, width: 0.5, height: 0.5 },
+    ],
+  },
+  {
+    id: "grid-2x3",
+    name: "2x3 grid",
+    slots: [
+      { x: 0, y: 0, width: 0.5, height: 1 / 3 },
+      { x: 0.5, y: 0, width: 0.5, height: 1 / 3 },
+      { x: 0, y: 1 / 3, width: 0.5, height: 1 / 3 },
+      { x: 0.5, y: 1 / 3, width: 0.5, height: 1 / 3 },
+      { x: 0, y: 2 / 3, width: 0.5, height: 1 / 3 },
+      { x: 0.5, y: 2 / 3, width: 0.5, height: 1 / 3 },
+    ],
+  },
+];
+
+export function getPageTemplate(
+  id: PageTemplateId | undefined,
+): PageTemplate | undefined {
+  return id ? PAGE_TEMPLATES.find((template) => template.id === id) : undefined;
+}
+
+export interface ContentArea {
+  x: number; // in pixels
+  y: number; // in pixels
+  width: number; // in pixels
+  height: number; // in pixels
+}
+
+// Convert a slot to pixels. Slots are scaled to the content area plus one
+// spacing, which is then removed again from each slot, so that neighbouring
+// slots are separated by exactly one spacing.
+export function slotToBox(
+  slot: TemplateSlot,
+  area: ContentArea,
+  spacing: number,
+): Omit<PhotoBox, "asset"> {
+  const scaleX = area.width + spacing;
+  const scaleY = area.height + spacing;
+  return {
+    x: area.x + slot.x * scaleX,
+    y: area.y + slot.y * scaleY,
+    width: slot.width * scaleX - spacing,
+    height: slot.height * scaleY - spacing,
+  };
+}
+
+// How badly an image of the given aspect ratio fits into a box when cropped
+const cropCost = (
+  aspectRatio: number,
+  box: { width: number; height: number },
+) => Math.abs(Math.log(aspectRatio / (box.width / box.height)));
+
+/**
+ * Fill the slots of a template with the given assets
+ *
+ * Assets are assigned to slots such that the total cropping is minimal, i.e.
+ * portrait photos go into portrait slots and landscape photos into landscape
+ * slots. If there are fewer assets than slots, the remaining slots stay empty.
+ * Reserved slots (e.g. for text) are never filled.
+ */
+export function fillTemplate(
+  template: PageTemplate,
+  assets: AssetResponseDto[],
+  aspectRatios: ArrayLike<number>,
+  area: ContentArea,
+  spacing: number,
+  reserved: Set<number> = new Set(),
+): PhotoBox[] {
+  const boxes = template.slots.map((slot) => slotToBox(slot, area, spacing));
+  const count = Math.min(assets.length, boxes.length - reserved.size);
+
+  // Templates are small, so trying all assignments is cheap
+  let bestAssignment: number[] = [];
+  let bestCost = Infinity;
+  const assignment: number[] = [];
+  const used = new Set<number>(reserved);
+  const search = (assetIndex: number, cost: number) => {
+    if (cost >= bestCost) return;
+    if (assetIndex === count) {
+      bestCost = cost;
+      bestAssignment = [...assignment];
+      return;
+    }
+    for (let slotIndex = 0; slotIndex < boxes.length; slotIndex++) {
+      if (used.has(slotIndex)) continue;
+      used.add(slotIndex);
+      assignment.push(slotIndex);
+      search(
+        assetIndex + 1,
+        cost + cropCost(aspectRatios[assetIndex], boxes[slotIndex]),
+      );
+      assignment.pop();
+      used.delete(slotIndex);
+    }
+  };
+  search(0, 0);
+
+  // Keep photos in slot order, so reading order matches the template
+  return bestAssignment
+    .map((slotIndex, assetIndex) => ({ slotIndex, asset: assets[assetIndex] }))
+    .sort((a, b) => a.slotIndex - b.slotIndex)
+    .map(({ slotIndex, asset }) => ({ asset, ...boxes[slotIndex] }));
+}
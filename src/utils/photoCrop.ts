@@ -0,0 +1,107 @@
+import type { AssetResponseDto } from "@immich/sdk";
+
+// How a photo is cropped into its box, instead of always around the centre
+export interface PhotoCrop {
+  focusX: number; // focal point in fractions of the image width (0..1)
+  focusY: number; // focal point in fractions of the image height (0..1)
+  zoom: number; // 1 fills the box (like object-fit: cover), more zooms in
+}
+
+export const CENTER_CROP: PhotoCrop = { focusX: 0.5, focusY: 0.5, zoom: 1 };
+
+export const MAX_ZOOM = 4;
+
+// Visible part of an image, in fractions of the image size
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.max(min, Math.min(max, value));
+
+/**
+ * Calculate the visible part of an image cropped into a box. The image covers
+ * the box at zoom 1 and the focal point is centred as far as the image edges
+ * allow.
+ */
+export function cropRect(
+  imageAspectRatio: number,
+  boxAspectRatio: number,
+  crop: PhotoCrop = CENTER_CROP,
+): CropRect {
+  let width = 1;
+  let height = 1;
+  if (imageAspectRatio > boxAspectRatio) {
+    width = boxAspectRatio / imageAspectRatio;
+  } else {
+    height = imageAspectRatio / boxAspectRatio;
+  }
+  const zoom = clamp(crop.zoom, 1, MAX_ZOOM);
+  width /= zoom;
+  height /= zoom;
+
+  return {
+    x: clamp(crop.focusX - width / 2, 0, 1 - width),
+    y: clamp(crop.focusY - height / 2, 0, 1 - height),
+    width,
+    height,
+  };
+}
+
+/**
+ * Default crop of a photo: centred on the faces Immich detected in it, or on
+ * the image centre if there are none.
+ */
+export function defaultCrop(asset: AssetResponseDto): PhotoCrop {
+  const faces = (asset.people ?? []).flatMap((person) => person.faces);
+  if (faces.length === 0) return CENTER_CROP;
+
+  // Centre of the area spanned by all faces
+  const left = Math.min(
+    ...faces.map((face) => face.boundingBoxX1 / face.imageWidth),
+  );
+  const right = Math.max(
+    ...faces.map((face) => face.boundingBoxX2 / face.imageWidth),
+  );
+  const top = Math.min(
+    ...faces.map((face) => face.boundingBoxY1 / face.imageHeight),
+  );
+  const bottom = Math.max(
+    ...faces.map((face) => face.boundingBoxY2 / face.imageHeight),
+  );
+  return {
+    focusX: clamp((left + right) / 2, 0, 1),
+    focusY: clamp((top + bottom) / 2, 0, 1),
+    zoom: 1,
+  };
+}
+
+/**
+ * Crop of a vertical slice of a box, for a photo split over the two pages of
+ * a spread. start and width are fractions of the box width and the returned
+ * crop fills a box of the slice's aspect ratio with the same part of the
+ * image.
+ */
+export function sliceCrop(
+  imageAspectRatio: number,
+  boxAspectRatio: number,
+  crop: PhotoCrop,
+  start: number,
+  width: number,
+): PhotoCrop {
+  const rect = cropRect(imageAspectRatio, boxAspectRatio, crop);
+  const sliceAspectRatio = boxAspectRatio * width;
+  // Width of the slice in the image at zoom 1
+  const fullWidth =
+    imageAspectRatio > sliceAspectRatio
+      ? sliceAspectRatio / imageAspectRatio
+      : 1;
+  return {
+    focusX: rect.x + rect.width * (start + width / 2),
+    focusY: rect.y + rect.height / 2,
+    zoom: fullWidth / (rect.width * width),
+  };
+}
@@ -0,0 +1,28 @@
+import { PDFDocument } from "pdf-lib";
+import { toPoints, type Page } from "./pageLayout";
+
+/**
+ * Set the TrimBox and BleedBox of every page in a rendered PDF
+ *
+ * react-pdf (and pdfkit underneath) only write a MediaBox, but print services
+ * need to know where the page is cut. The MediaBox covers the page including
+ * bleed, so the BleedBox is the full MediaBox and the TrimBox is inset by the
+ * bleed of the corresponding layout page.
+ */
+export async function applyPrintBoxes(pdf: Blob, pages: Page[]): Promise<Blob> {
+  if (!pages.some((page) => page.bleed > 0)) return pdf;
+
+  const document = await PDFDocument.load(await pdf.arrayBuffer());
+  document.getPages().forEach((pdfPage, index) => {
+    const page = pages[index];
+    if (!page) return;
+
+    const { width, height } = pdfPage.getMediaBox();
+    const bleed = toPoints(page.bleed);
+    pdfPage.setBleedBox(0, 0, width, height);
+    pdfPage.setTrimBox(bleed, bleed, width - bleed * 2, height - bleed * 2);
+  });
+
+  const bytes = await document.save();
+  return new Blob([new Uint8Array(bytes)], { type: "application/pdf" });
+}
@@ -0,0 +1,220 @@
+import type { AssetResponseDto } from "@immich/sdk";
+import type { ImmichConfig } from "../components/ConnectionForm";
+import { CENTER_CROP, cropRect, type PhotoCrop } from "./photoCrop";
+import { createPromiseCache } from "./promiseCache";
+import { captureVideoFrame } from "./videoFrames";
+
+// Which Immich rendition to use as the source for printed images
+// - auto: the preview when it is large enough for the box, otherwise fullsize
+// - preview/fullsize: always use that thumbnail size
+// - original: download the original and downscale it in the browser
+export type PrintImageSource = "auto" | "preview" | "fullsize" | "original";
+
+export interface PixelSize {
+  width: number; // in pixels
+  height: number; // in pixels
+}
+
+// Layout coordinates are already in 300 DPI pixels
+export const PRINT_DPI = 300;
+
+// Longest edge of Immich preview thumbnails (server default)
+export const PREVIEW_MAX_SIZE = 1440;
+
+// JPEG quality used when re-encoding the cropped print images
+const JPEG_QUALITY = 0.92;
+
+/**
+ * Calculate how many image pixels a box of the given layout size needs
+ * to be printed at the given resolution
+ */
+export function requiredPixels(
+  box: PixelSize,
+  dpi: number = PRINT_DPI,
+): PixelSize {
+  const scale = dpi / PRINT_DPI;
+  return {
+    width: Math.max(1, Math.ceil(box.width * scale)),
+    height: Math.max(1, Math.ceil(box.height * scale)),
+  };
+}
+
+// Pick the smallest rendition that still covers the required pixels
+export function chooseImageSource(
+  required: PixelSize,
+  preference: PrintImageSource = "auto",
+): Exclude<PrintImageSource, "auto"> {
+  if (preference !== "auto") {
+    return preference;
+  }
+  const longestEdge = Math.max(required.width, required.height);
+  return longestEdge <= PREVIEW_MAX_SIZE ? "preview" : "fullsize";
+}
+
+export function assetImageUrl(
+  immichConfig: ImmichConfig,
+  assetId: string,
+  source: Exclude<PrintImageSource, "auto">,
+): string {
+  if (source === "original") {
+    return `${immichConfig.baseUrl}/assets/${assetId}/original?apiKey=${immichConfig.apiKey}`;
+  }
+  return `${immichConfig.baseUrl}/assets/${assetId}/thumbnail?size=${source}&apiKey=${immichConfig.apiKey}`;
+}
+
+// Sources to try in order, falling back to smaller renditions when a larger
+// one can not be fetched or decoded (e.g. RAW/HEIC originals)
+const FALLBACKS: Record<
+  Exclude<PrintImageSource, "auto">,
+  Exclude<PrintImageSource, "auto">[]
+> = {
+  original: ["original", "fullsize", "preview"],
+  fullsize: ["fullsize", "preview"],
+  preview: ["preview"],
+};
+
+// Cache of rendered print images, keyed by asset, size, source and crop. The PDF
+// document is re-rendered on every settings change and should not download
+// everything again. Bounded, as every changed size or crop adds an image.
+const MAX_CACHED_PRINT_IMAGES = 500;
+const printImageCache = createPromiseCache<Blob>(MAX_CACHED_PRINT_IMAGES);
+
+// Forget the print images of a book, e.g. when it is closed
+export function clearPrintImageCache() {
+  printImageCache.clear();
+}
+
+/**
+ * Load an image for printing into a box of the given size (in 300 DPI pixels).
+ * The image is fetched from the best matching source, cropped to the aspect
+ * ratio of the box (like object-fit: cover, around the focal point of the
+ * crop) and downscaled to the required resolution, so the PDF embeds exactly
+ * the pixels it needs. For videos a frame at the given time can be used
+ * instead of the thumbnail.
+ */
+export function loadPrintImage(
+  immichConfig: ImmichConfig,
+  asset: AssetResponseDto,
+  box: PixelSize,
+  preference: PrintImageSource = "auto",
+  crop: PhotoCrop = CENTER_CROP,
+  frameTime: number | null = null,
+): Promise<Blob> {
+  const required = requiredPixels(box);
+  // Zooming in needs correspondingly more source pixels
+  const source = chooseImageSource(
+    { width: required.width * crop.zoom, height: required.height * crop.zoom },
+    preference,
+  );
+  const key = `${asset.id}:${required.width}x${required.height}:${source}:${crop.focusX},${crop.focusY},${crop.zoom}:${frameTime}`;
+
+  return printImageCache(key, () =>
+    frameTime === null
+      ? renderPrintImage(immichConfig, asset.id, required, source, crop)
+      : renderPrintFrame(immichConfig, asset.id, required, frameTime, crop),
+  );
+}
+
+async function renderPrintImage(
+  immichConfig: ImmichConfig,
+  assetId: string,
+  required: PixelSize,
+  source: Exclude<PrintImageSource, "auto">,
+  crop: PhotoCrop,
+): Promise<Blob> {
+  let lastError: unknown;
+  for (const candidate of FALLBACKS[source]) {
+    try {
+      const response = await fetch(
+        assetImageUrl(immichConfig, assetId, candidate),
+      );
+      if (!response.ok) {
+        throw new Error(
+          `Failed to load ${candidate} image for asset ${assetId}: ${response.status}`,
+        );
+      }
+      const bitmap = await createImageBitmap(await response.blob(), {
+        imageOrientation: "from-image",
+      });
+      try {
+        return await cropAndResize(bitmap, required, crop);
+      } finally {
+        bitmap.close();
+      }
+    } catch (err) {
+      console.warn(err);
+      lastError = err;
+    }
+  }
+  throw lastError;
+}
+
+async function renderPrintFrame(
+  immichConfig: ImmichConfig,
+  assetId: string,
+  required: PixelSize,
+  time: number,
+  crop: PhotoCrop,
+): Promise<Blob> {
+  const bitmap = await createImageBitmap(
+    await captureVideoFrame(immichConfig, assetId, time),
+  );
+  try {
+    return await cropAndResize(bitmap, required, crop);
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Crop the bitmap to the target aspect ratio and scale it down to the target
+// size. Images are never upscaled; if the source is too small the result
+// keeps the source resolution.
+async function cropAndResize(
+  bitmap: ImageBitmap,
+  target: PixelSize,
+  crop: PhotoCrop,
+): Promise<Blob> {
+  const rect = cropRect(
+    bitmap.width / bitmap.height,
+    target.width / target.height,
+    crop,
+  );
+  const cropX = rect.x * bitmap.width;
+  const cropY = rect.y * bitmap.height;
+  const cropWidth = rect.width * bitmap.width;
+  const cropHeight = rect.height * bitmap.height;
+
+  const scale = Math.min(1, target.width / cropWidth);
+  const width = Math.max(1, Math.round(cropWidth * scale));
+  const height = Math.max(1, Math.round(cropHeight * scale));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Canvas 2D context not available");
+  }
+  context.imageSmoothingEnabled = true;
+  context.imageSmoothingQuality = "high";
+  context.drawImage(
+    bitmap,
+    cropX,
+    cropY,
+    cropWidth,
+    cropHeight,
+    0,
+    0,
+    width,
+    height,
+  );
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Failed to encode image")),
+      "image/jpeg",
+      JPEG_QUALITY,
+    );
+  });
+}
@@ -0,0 +1,179 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_GLOBAL_CONFIG, withConfigDefaults } from "./bookConfig";
+import { EMPTY_BOOK_SOURCE, type Book } from "./bookSource";
+import {
+  PROJECT_FILE_VERSION,
+  createProjectFile,
+  parseProjectFile,
+} from "./projectFile";
+import { fixtureAlbum } from "./__fixtures__/assets";
+
+const book: Book = {
+  id: "album-1",
+  name: "Rome",
+  description: "",
+  thumbnailAssetId: null,
+  source: { ...EMPTY_BOOK_SOURCE, albumIds: ["album-1"] },
+};
+
+const assets = fixtureAlbum(4);
+
+const config = withConfigDefaults(
+  {
+    margin: 10,
+    excludedAssetIds: ["asset-1"],
+    sections: {
+      "asset-2": { title: "Day 2", subtitle: "", photoId: "asset-gone" },
+    },
+    textBlocks: [
+      {
+        id: "text-1",
+        content: "# Rome",
+        align: "center",
+        placement: { kind: "page", beforeAssetId: "asset-0" },
+      },
+    ],
+  },
+  DEFAULT_GLOBAL_CONFIG,
+);
+
+// Project file with the config fields replaced
+const withConfig = (fields: Record<string, unknown>) =>
+  JSON.stringify({
+    ...createProjectFile(book, config),
+    config: { ...config, ...fields },
+  });
+
+describe("parseProjectFile", () => {
+  it("restores an exported project", () => {
+    const text = JSON.stringify(createProjectFile(book, config));
+    const { project, missingAssetIds } = parseProjectFile(text, book, assets);
+
+    expect(project.version).toBe(PROJECT_FILE_VERSION);
+    expect(project.book).toEqual(book);
+    expect(project.config).toEqual(config);
+    expect(project.assetIds).toEqual(
+      expect.arrayContaining(["asset-0", "asset-1", "asset-2", "asset-gone"]),
+    );
+    expect(missingAssetIds).toEqual(["asset-gone"]);
+  });
+
+  it("migrates a bare config of version 0", () => {
+    const text = JSON.stringify({ margin: 20, showDates: false });
+    const { project } = parseProjectFile(text, book, assets);
+
+    expect(project.version).toBe(PROJECT_FILE_VERSION);
+    expect(project.book).toEqual(book);
+    expect(project.config.margin).toBe(20);
+    expect(project.config.showDates).toBe(false);
+    expect(project.config.pageSize).toBe(DEFAULT_GLOBAL_CONFIG.pageSize);
+  });
+
+  it("rejects files of newer versions", () => {
+    const text = JSON.stringify({
+      ...createProjectFile(book, config),
+      version: PROJECT_FILE_VERSION + 1,
+    });
+    expect(() => parseProjectFile(text, book, assets)).toThrow(
+      "is newer than supported",
+    );
+  });
+
+  it.each([-1, 0, 1.5, "1"])("rejects version %j", (version) => {
+    const text = JSON.stringify({
+      ...createProjectFile(book, config),
+      version,
+    });
+    expect(() => parseProjectFile(text, book, assets)).toThrow(
+      'Invalid project file: unexpected value for "version"',
+    );
+  });
+
+  it("rejects files that are no project", () => {
+    expect(() => parseProjectFile("{", book, assets)).toThrow(
+      "Invalid project file: not a JSON file",
+    );
+    expect(() => parseProjectFile("[]", book, assets)).toThrow(
+      'unexpected value for "project"',
+    );
+    expect(() =>
+      parseProjectFile(
+        JSON.stringify({ format: "other", version: 1, config }),
+        book,
+        assets,
+      ),
+    ).toThrow('unexpected value for "format"');
+  });
+
+  it.each([
+    ["pageSize", { pageSize: "A5" }],
+    ["margin", { margin: "10" }],
+    ["showDates", { showDates: "yes" }],
+    ["customOrdering", { customOrdering: [1, 2] }],
+    ["sections", { sections: { "asset-2": { title: "Day 2" } } }],
+    [
+      "sections",
+      {
+        sections: {
+          "asset-2": { title: "Day 2", subtitle: "", photoId: 3 },
+        },
+      },
+    ],
+    [
+      "textBlocks",
+      {
+        textBlocks: [
+          { id: "t", content: "", align: "left", placement: { kind: "page" } },
+        ],
+      },
+    ],
+    [
+      "textBlocks",
+      {
+        textBlocks: [
+          {
+            id: "t",
+            content: "",
+            align: "left",
+            placement: { kind: "slot", pageNumber: "2", slot: 0 },
+          },
+        ],
+      },
+    ],
+    [
+      "textBlocks",
+      {
+        textBlocks: [
+          {
+            id: "t",
+            content: "",
+            align: "middle",
+            placement: { kind: "page", beforeAssetId: null },
+          },
+        ],
+      },
+    ],
+    ["crops", { crops: { "asset-0": { focusX: 0.5 } } }],
+  ])("rejects an invalid %s", (field, fields) => {
+    expect(() => parseProjectFile(withConfig(fields), book, assets)).toThrow(
+      `unexpected value for "${field}"`,
+    );
+  });
+
+  it("accepts text blocks in template slots", () => {
+    const textBlocks = [
+      {
+        id: "t",
+        content: "Slot",
+        align: "justify",
+        placement: { kind: "slot", pageNumber: 2, slot: 1 },
+      },
+    ];
+    const { project } = parseProjectFile(
+      withConfig({ textBlocks }),
+      book,
+      assets,
+    );
+    expect(project.config.textBlocks).toEqual(textBlocks);
+  });
+});
@@ -0,0 +1,357 @@
+import type { AssetResponseDto } from "@immich/sdk";
+import {
+  DEFAULT_GLOBAL_CONFIG,
+  withConfigDefaults,
+  type BookConfig,
+} from "./bookConfig";
+import type { Book } from "./bookSource";
+
+export const PROJECT_FILE_EXTENSION = ".immichbook.json";
+
+// Bump when the layout of the project file or the config changes and add a
+// migration from the previous version below
+export const PROJECT_FILE_VERSION = 1;
+
+// Everything needed to restore a book on another browser or machine
+export interface ProjectFile {
+  format: "immich-book";
+  version: number;
+  exportedAt: string;
+  book: Book;
+  config: BookConfig;
+  assetIds: string[]; // assets the customizations refer to
+}
+
+export interface ImportedProject {
+  project: ProjectFile;
+  missingAssetIds: string[]; // referenced but no longer part of the book
+}
+
+type ProjectData = Record<string, unknown>;
+
+// Migrations from each older version to the next one
+const MIGRATIONS: Partial<Record<number, (data: ProjectData) => ProjectData>> =
+  {
+    // Version 0 is a bare config as stored in localStorage
+    0: (config) => ({
+      format: "immich-book",
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      book: null,
+      config,
+      assetIds: [],
+    }),
+  };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const isNullableString = (value: unknown) =>
+  value === null || typeof value === "string";
+
+const isSectionMarker = (marker: unknown) =>
+  isObject(marker) &&
+  typeof marker.title === "string" &&
+  typeof marker.subtitle === "string" &&
+  isNullableString(marker.photoId);
+
+const isTextPlacement = (placement: unknown) =>
+  isObject(placement) &&
+  ((placement.kind === "page" && isNullableString(placement.beforeAssetId)) ||
+    (placement.kind === "slot" &&
+      Number.isInteger(placement.pageNumber) &&
+      Number.isInteger(placement.slot)));
+
+function check(condition: boolean, field: string): asserts condition {
+  if (!condition) {
+    throw new Error(`Invalid project file: unexpected value for "${field}"`);
+  }
+}
+
+function checkOneOf(value: unknown, options: string[], field: string) {
+  check(typeof value === "string" && options.includes(value), field);
+}
+
+function checkRecord(
+  value: unknown,
+  isValid: (item: unknown) => boolean,
+  field: string,
+) {
+  check(isObject(value) && Object.values(value).every(isValid), field);
+}
+
+// Check the types of a (defaults completed) config
+function validateConfig(config: BookConfig) {
+  checkOneOf(config.pageSize, ["A4", "LETTER", "A3", "CUSTOM"], "pageSize");
+  checkOneOf(config.orientation, ["portrait", "landscape"], "orientation");
+  checkOneOf(
+    config.printImageSource,
+    ["auto", "preview", "fullsize", "original"],
+    "printImageSource",
+  );
+  checkOneOf(config.verticalFill, ["none", "fill", "balance"], "verticalFill");
+  checkOneOf(
+    config.sectionMode,
+    ["none", "gap", "month", "location"],
+    "sectionMode",
+  );
+  checkOneOf(
+    config.sortStrategy,
+    [
+      "fileCreatedAt",
+      "localDateTime",
+      "dateTimeOriginal",
+      "filename",
+      "rating",
+      "album",
+    ],
+    "sortStrategy",
+  );
+  checkOneOf(
+    config.dateFormat,
+    ["short", "medium", "long", "full", "iso"],
+    "dateFormat",
+  );
+  for (const field of [
+    "pageWidth",
+    "pageHeight",
+    "margin",
+    "bleed",
+    "rowHeight",
+    "spacing",
+    "sectionGapDays",
+    "fontSize",
+  ] as const) {
+    check(Number.isFinite(config[field]), field);
+  }
+  for (const field of [
+    "combinePages",
+    "filterVideos",
+    "showDates",
+    "showDescriptions",
+  ] as const) {
+    check(typeof config[field] === "boolean", field);
+  }
+  for (const field of [
+    "captionTemplate",
+    "dateTemplate",
+    "captionLocale",
+  ] as const) {
+    check(typeof config[field] === "string", field);
+  }
+
+  checkRecord(
+    config.customAspectRatios,
+    (ratio) => typeof ratio === "number" && ratio > 0,
+    "customAspectRatios",
+  );
+  check(
+    config.customOrdering === null || isStringArray(config.customOrdering),
+    "customOrdering",
+  );
+  checkRecord(
+    config.descriptionPositions,
+    (position) =>
+      typeof position === "string" &&
+      ["bottom", "top", "left", "right"].includes(position),
+    "descriptionPositions",
+  );
+  checkRecord(
+    config.pageAlignments,
+    (alignment) => typeof alignment === "string",
+    "pageAlignments",
+  );
+  checkRecord(
+    config.pageTemplates,
+    (template) => typeof template === "string",
+    "pageTemplates",
+  );
+  checkRecord(
+    config.pageBreaks,
+    (pageBreak) => pageBreak === "page" || pageBreak === "spread",
+    "pageBreaks",
+  );
+  check(
+    Array.isArray(config.keepTogether) &&
+      config.keepTogether.every(isStringArray),
+    "keepTogether",
+  );
+  checkRecord(
+    config.sections,
+    (marker) => marker === null || isSectionMarker(marker),
+    "sections",
+  );
+  check(
+    Array.isArray(config.textBlocks) &&
+      config.textBlocks.every(
+        (block) =>
+          isObject(block) &&
+          typeof block.id === "string" &&
+          typeof block.content === "string" &&
+          typeof block.align === "string" &&
+          ["left", "center", "right", "justify"].includes(block.align) &&
+          isTextPlacement(block.placement),
+      ),
+    "textBlocks",
+  );
+  checkRecord(
+    config.crops,
+    (crop) =>
+      isObject(crop) &&
+      typeof crop.focusX === "number" &&
+      typeof crop.focusY === "number" &&
+      typeof crop.zoom === "number",
+    "crops",
+  );
+  checkRecord(
+    config.videoFrames,
+    (frame) =>
+      isObject(frame) &&
+      (frame.time === null || typeof frame.time === "number"),
+    "videoFrames",
+  );
+  checkRecord(
+    config.captionTemplates,
+    (template) => typeof template === "string",
+    "captionTemplates",
+  );
+  check(isStringArray(config.excludedAssetIds), "excludedAssetIds");
+  check(isStringArray(config.hiddenAssetIds), "hiddenAssetIds");
+  check(isStringArray(config.spreadPhotos), "spreadPhotos");
+  checkRecord(config.cameraOffsets, Number.isFinite, "cameraOffsets");
+  check(isObject(config.cover), "cover");
+  check(
+    isObject(config.sharedLink) &&
+      (config.sharedLink.url === null ||
+        typeof config.sharedLink.url === "string") &&
+      Array.isArray(config.sharedLink.assetIds),
+    "sharedLink",
+  );
+}
+
+/**
+ * Collect the IDs of all assets a config refers to, like reordered or
+ * cropped photos and section backgrounds
+ */
+export function referencedAssetIds(config: BookConfig): string[] {
+  const ids = new Set<string>([
+    ...Object.keys(config.customAspectRatios),
+    ...(config.customOrdering ?? []),
+    ...Object.keys(config.descriptionPositions),
+    ...Object.keys(config.pageBreaks),
+    ...config.keepTogether.flat(),
+    ...Object.keys(config.sections),
+    ...Object.keys(config.crops),
+    ...Object.keys(config.videoFrames),
+    ...Object.keys(config.captionTemplates),
+    ...config.excludedAssetIds,
+    ...config.hiddenAssetIds,
+    ...config.spreadPhotos,
+    ...config.sharedLink.assetIds,
+  ]);
+  for (const marker of Object.values(config.sections)) {
+    if (marker?.photoId) ids.add(marker.photoId);
+  }
+  for (const block of config.textBlocks) {
+    if (block.placement.kind === "page" && block.placement.beforeAssetId) {
+      ids.add(block.placement.beforeAssetId);
+    }
+  }
+  if (config.cover.photoId) ids.add(config.cover.photoId);
+  if (config.cover.backPhotoId) ids.add(config.cover.backPhotoId);
+  return [...ids];
+}
+
+export function createProjectFile(book: Book, config: BookConfig): ProjectFile {
+  return {
+    format: "immich-book",
+    version: PROJECT_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    book,
+    config,
+    assetIds: referencedAssetIds(config),
+  };
+}
+
+export function downloadProjectFile(project: ProjectFile) {
+  const blob = new Blob([JSON.stringify(project, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${project.book.name.replace(/[^\w-]+/g, "_") || "book"}${PROJECT_FILE_EXTENSION}`;
+  link.click();
+  // Revoking right away cancels the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Parse and validate a project file, migrating it from older versions, and
+ * find the referenced assets missing from the book it is imported into.
+ * Throws if the file is not a valid project.
+ */
+export function parseProjectFile(
+  text: string,
+  book: Book,
+  assets: AssetResponseDto[],
+): ImportedProject {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Invalid project file: not a JSON file");
+  }
+  check(isObject(parsed), "project");
+  let data = parsed;
+
+  // Files without format are bare configs, wrapped ones start at version 1
+  const fileVersion = data.format === undefined ? 0 : data.version;
+  check(
+    typeof fileVersion === "number" &&
+      Number.isInteger(fileVersion) &&
+      (data.format === undefined || fileVersion > 0),
+    "version",
+  );
+  let version = fileVersion;
+  if (version > PROJECT_FILE_VERSION) {
+    throw new Error(
+      `Project file version ${version} is newer than supported (${PROJECT_FILE_VERSION}), please update Immich Book`,
+    );
+  }
+  while (version < PROJECT_FILE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    check(migrate !== undefined, "version");
+    data = migrate(data);
+    check(
+      typeof data.version === "number" && data.version > version,
+      "version",
+    );
+    version = data.version;
+  }
+
+  check(data.format === "immich-book", "format");
+  check(isObject(data.config), "config");
+  // Defaults don't depend on this browser, so a file renders the same anywhere
+  const config = withConfigDefaults(data.config, DEFAULT_GLOBAL_CONFIG);
+  validateConfig(config);
+
+  const project: ProjectFile = {
+    format: "immich-book",
+    version,
+    exportedAt:
+      typeof data.exportedAt === "string" ? data.exportedAt : "unknown",
+    book: isObject(data.book) ? { ...book, ...data.book } : book,
+    config,
+    assetIds: referencedAssetIds(config),
+  };
+
+  const existing = new Set(assets.map((asset) => asset.id));
+  return {
+    project,
+    missingAssetIds: project.assetIds.filter((id) => !existing.has(id)),
+  };
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from "vitest";
+import { createPromiseCache } from "./promiseCache";
+
+describe("createPromiseCache", () => {
+  it("shares the promise of a key between callers", async () => {
+    const cache = createPromiseCache<number>();
+    const create = vi.fn(async () => 42);
+    const first = cache("a", create);
+    expect(cache("a", create)).toBe(first);
+    expect(await first).toBe(42);
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  it("forgets failures so a retry can succeed", async () => {
+    const cache = createPromiseCache<number>();
+    await expect(
+      cache("a", async () => {
+        throw new Error("offline");
+      }),
+    ).rejects.toThrow("offline");
+    expect(await cache("a", async () => 42)).toBe(42);
+  });
+
+  it("drops the least recently used entries beyond its size", async () => {
+    const cache = createPromiseCache<string>(2);
+    const create = vi.fn(async () => "image");
+    cache("a", create);
+    cache("b", create);
+    cache("a", create);
+    cache("c", create); // drops b
+    expect(create).toHaveBeenCalledTimes(3);
+    cache("a", create);
+    expect(create).toHaveBeenCalledTimes(3);
+    cache("b", create);
+    expect(create).toHaveBeenCalledTimes(4);
+  });
+
+  it("starts over when cleared", () => {
+    const cache = createPromiseCache<number>();
+    const create = vi.fn(async () => 42);
+    cache("a", create);
+    cache.clear();
+    cache("a", create);
+    expect(create).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Cache of pending and finished work by key, so callers asking for the same
+ * result share one promise. Failures are not kept, so a retry can succeed.
+ * Beyond maxSize entries, the least recently used ones are dropped.
+ */
+export function createPromiseCache<T>(maxSize = Infinity) {
+  const cache = new Map<string, Promise<T>>();
+  const get = (key: string, create: () => Promise<T>): Promise<T> => {
+    const cached = cache.get(key);
+    if (cached) {
+      // Maps keep insertion order, the most recently used go last
+      cache.delete(key);
+      cache.set(key, cached);
+      return cached;
+    }
+
+    const created = create();
+    created.catch(() => {
+      if (cache.get(key) === created) cache.delete(key);
+    });
+    cache.set(key, created);
+    if (cache.size > maxSize) {
+      cache.delete(cache.keys().next().value!);
+    }
+    return created;
+  };
+  return Object.assign(get, { clear: () => cache.clear() });
+}
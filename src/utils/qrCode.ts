@@ -0,0 +1,32 @@
+import qrcode from "qrcode-generator";
+
+// Dark modules of a QR code as an SVG path, usable in the browser and in
+// react-pdf alike
+export interface QrCodePath {
+  size: number; // in modules, including the quiet zone
+  path: string;
+}
+
+// Light modules around the code, required by scanners
+const QUIET_ZONE = 2;
+
+/**
+ * Encode text as QR code with medium error correction, which still scans
+ * well when printed small. Generated locally, no network needed.
+ */
+export function qrCodePath(text: string): QrCodePath {
+  const code = qrcode(0, "M");
+  code.addData(text);
+  code.make();
+
+  const count = code.getModuleCount();
+  const parts: string[] = [];
+  for (let row = 0; row < count; row++) {
+    for (let col = 0; col < count; col++) {
+      if (code.isDark(row, col)) {
+        parts.push(`M${col + QUIET_ZONE} ${row + QUIET_ZONE}h1v1h-1z`);
+      }
+    }
+  }
+  return { size: count + QUIET_ZONE * 2, path: parts.join("") };
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import {
+  assetRange,
+  moveAssets,
+  moveAssetsBy,
+  pageOfIndex,
+  sectionBounds,
+} from "./reordering";
+
+const order = ["a", "b", "c", "d", "e", "f"];
+
+describe("moveAssets", () => {
+  it("moves a selection in front of the target keeping its order", () => {
+    expect(moveAssets(order, ["e", "b"], 1)).toEqual([
+      "a",
+      "b",
+      "e",
+      "c",
+      "d",
+      "f",
+    ]);
+    expect(moveAssets(order, ["a", "c"], 5)).toEqual([
+      "b",
+      "d",
+      "e",
+      "a",
+      "c",
+      "f",
+    ]);
+    expect(moveAssets(order, ["b"], order.length)).toEqual([
+      "a",
+      "c",
+      "d",
+      "e",
+      "f",
+      "b",
+    ]);
+  });
+
+  it("keeps the order when dropped onto the selection", () => {
+    expect(moveAssets(order, ["b", "c"], 2)).toEqual(order);
+  });
+});
+
+describe("moveAssetsBy", () => {
+  it("moves a selection by one photo as a block", () => {
+    expect(moveAssetsBy(order, ["c", "d"], -1)).toEqual([
+      "a",
+      "c",
+      "d",
+      "b",
+      "e",
+      "f",
+    ]);
+    expect(moveAssetsBy(order, ["b", "d"], 1)).toEqual([
+      "a",
+      "c",
+      "e",
+      "b",
+      "d",
+      "f",
+    ]);
+    expect(moveAssetsBy(order, ["a"], -1)).toBe(order);
+    expect(moveAssetsBy(order, ["f"], 1)).toBe(order);
+  });
+});
+
+describe("assetRange", () => {
+  it("selects in both directions", () => {
+    expect(assetRange(order, "b", "d")).toEqual(["b", "c", "d"]);
+    expect(assetRange(order, "e", "c")).toEqual(["c", "d", "e"]);
+    expect(assetRange(order, "x", "c")).toEqual(["c"]);
+  });
+});
+
+describe("sectionBounds", () => {
+  it("finds the photos of the section around an index", () => {
+    const starts = (id: string) => id === "c" || id === "e";
+    expect(sectionBounds(order, 3, starts)).toEqual({ start: 2, end: 4 });
+    expect(sectionBounds(order, 1, starts)).toEqual({ start: 0, end: 2 });
+    expect(sectionBounds(order, 5, starts)).toEqual({ start: 4, end: 6 });
+  });
+});
+
+describe("pageOfIndex", () => {
+  it("skips pages without photos", () => {
+    // The second page is a section page
+    const pageStarts = [0, 3, 3, 5, 6];
+    expect(pageOfIndex(pageStarts, 2)).toBe(0);
+    expect(pageOfIndex(pageStarts, 3)).toBe(2);
+    expect(pageOfIndex(pageStarts, 5)).toBe(3);
+  });
+});
@@ -0,0 +1,87 @@
+// Reordering of the photos of a book by asset ID, for moving several photos
+// at once. The order is the complete list of asset IDs of the book.
+
+/**
+ * Move the given assets in front of the asset at targetIndex of the current
+ * order (the end for order.length), keeping their order. Selected assets at
+ * the target are skipped, so a selection can be dropped onto itself.
+ */
+export function moveAssets(
+  order: string[],
+  assetIds: Iterable<string>,
+  targetIndex: number,
+): string[] {
+  const moved = new Set(assetIds);
+  let anchor = Math.max(0, targetIndex);
+  while (anchor < order.length && moved.has(order[anchor])) anchor++;
+
+  const rest = order.filter((id) => !moved.has(id));
+  const selection = order.filter((id) => moved.has(id));
+  const insertAt =
+    anchor < order.length ? rest.indexOf(order[anchor]) : rest.length;
+  return [...rest.slice(0, insertAt), ...selection, ...rest.slice(insertAt)];
+}
+
+// Move the assets one photo earlier (-1) or later (1) as a block
+export function moveAssetsBy(
+  order: string[],
+  assetIds: Iterable<string>,
+  step: -1 | 1,
+): string[] {
+  const moved = new Set(assetIds);
+  const indices = order
+    .map((id, index) => (moved.has(id) ? index : -1))
+    .filter((index) => index >= 0);
+  if (indices.length === 0) return order;
+
+  if (step < 0) {
+    // In front of the first other photo before the selection
+    const first = indices[0];
+    return first === 0 ? order : moveAssets(order, moved, first - 1);
+  }
+  // Behind the first other photo after the selection
+  const last = indices[indices.length - 1];
+  return last === order.length - 1 ? order : moveAssets(order, moved, last + 2);
+}
+
+// IDs from one asset to another, inclusive, in the order of the book
+export function assetRange(
+  order: string[],
+  from: string,
+  to: string,
+): string[] {
+  const start = order.indexOf(from);
+  const end = order.indexOf(to);
+  if (start < 0 || end < 0) return end < 0 ? [] : [to];
+  return order.slice(Math.min(start, end), Math.max(start, end) + 1);
+}
+
+/**
+ * Bounds of the section containing the asset at index, as the index of its
+ * first photo and the index after its last photo. sectionStarts tells if a
+ * photo starts a new section.
+ */
+export function sectionBounds(
+  order: string[],
+  index: number,
+  sectionStarts: (assetId: string) => boolean,
+): { start: number; end: number } {
+  let start = index;
+  while (start > 0 && !sectionStarts(order[start])) start--;
+  let end = index + 1;
+  while (end < order.length && !sectionStarts(order[end])) end++;
+  return { start, end };
+}
+
+/**
+ * Page (counted from 0) with the photo at index. pageStarts holds the index of
+ * the first photo on or after each page, so pages without photos share the
+ * start of the next page.
+ */
+export function pageOfIndex(pageStarts: number[], index: number): number {
+  let page = 0;
+  pageStarts.forEach((start, pageIndex) => {
+    if (start <= index) page = pageIndex;
+  });
+  return page;
+}
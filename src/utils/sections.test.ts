@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import type { AssetResponseDto } from "@immich/sdk";
+import { sortAssets } from "./assetSort";
+import { defaultSectionMarker, generateSections } from "./sections";
+
+const asset = (id: string, time: string, make = "Sony") =>
+  ({
+    id,
+    fileCreatedAt: time,
+    originalFileName: `${id}.jpg`,
+    exifInfo: { make, model: "" },
+  }) as AssetResponseDto;
+
+const assets = [
+  asset("a", "2024-05-20T12:00:00.000Z"),
+  // Taken with a camera whose clock is a day behind
+  asset("b", "2024-05-31T12:00:00.000Z", "Canon"),
+  asset("c", "2024-06-03T12:00:00.000Z"),
+];
+
+// Section starts of the photos in the order of the book
+function sectionStarts(
+  mode: "gap" | "month",
+  cameraOffsets: Record<string, number>,
+) {
+  const ordered = sortAssets(assets, "fileCreatedAt", cameraOffsets);
+  return [
+    ...generateSections(
+      ordered,
+      mode,
+      2,
+      "fileCreatedAt",
+      cameraOffsets,
+    ).keys(),
+  ];
+}
+
+describe("generateSections", () => {
+  it("moves a photo into the month of its corrected time", () => {
+    expect(sectionStarts("month", {})).toEqual(["a", "c"]);
+    expect(sectionStarts("month", { Canon: 24 * 3600 })).toEqual(["a", "b"]);
+  });
+
+  it("measures gaps between corrected times", () => {
+    expect(sectionStarts("gap", {})).toEqual(["a", "b", "c"]);
+    // A day later, b is only two days before c
+    expect(sectionStarts("gap", { Canon: 24 * 3600 })).toEqual(["a", "b"]);
+  });
+});
+
+describe("defaultSectionMarker", () => {
+  it("is titled with the month of the corrected time", () => {
+    const marker = (offsets: Record<string, number>) =>
+      defaultSectionMarker(assets[1], "fileCreatedAt", offsets).title;
+    expect(marker({})).toBe(
+      new Date(2024, 4, 15).toLocaleDateString(undefined, {
+        month: "long",
+        year: "numeric",
+      }),
+    );
+    expect(marker({ Canon: 24 * 3600 })).not.toBe(marker({}));
+  });
+});
@@ -0,0 +1,146 @@
+import type { AssetResponseDto } from "@immich/sdk";
+import { assetDate, type SortStrategy } from "./assetSort";
+
+// How section pages are generated automatically
+// - none: only manually inserted sections
+// - gap: a new section after a gap of more than gapDays between photos
+// - month: a new section for each month
+// - location: a new section when the city (or country) changes
+export type SectionMode = "none" | "gap" | "month" | "location";
+
+// A section as stored in the album config, placed before an asset
+export interface SectionMarker {
+  title: string;
+  subtitle: string;
+  photoId: string | null; // background photo, none if null
+}
+
+// A section ready for layout, with the background photo resolved
+export interface Section {
+  title: string;
+  subtitle: string;
+  photo?: AssetResponseDto;
+}
+
+// Font sizes of section pages in points
+export const SECTION_TITLE_FONT_SIZE = 32;
+export const SECTION_SUBTITLE_FONT_SIZE = 14;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const monthTitle = (date: Date) =>
+  date.toLocaleDateString(undefined, { month: "long", year: "numeric" });
+
+const dayTitle = (date: Date) =>
+  date.toLocaleDateString(undefined, {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+
+// Default section for a photo, used when inserting a section by hand
+export function defaultSectionMarker(
+  asset: AssetResponseDto,
+  strategy: SortStrategy,
+  cameraOffsets: Record<string, number> = {},
+): SectionMarker {
+  return {
+    title: monthTitle(assetDate(asset, strategy, cameraOffsets)),
+    subtitle: "",
+    photoId: null,
+  };
+}
+
+/**
+ * Generate sections from the photos in their current order. A section starts
+ * on a date gap, a new month or a new location depending on the mode. For
+ * dates, the first photo always starts a section. Dates are taken like the
+ * photos are sorted, with the clock offsets of their cameras.
+ */
+export function generateSections(
+  assets: AssetResponseDto[],
+  mode: SectionMode,
+  gapDays: number,
+  strategy: SortStrategy,
+  cameraOffsets: Record<string, number> = {},
+): Map<string, SectionMarker> {
+  const sections = new Map<string, SectionMarker>();
+  if (mode === "none") return sections;
+
+  let previousDate: Date | null = null;
+  let previousPlace: string | null = null;
+  for (const asset of assets) {
+    const date = assetDate(asset, strategy, cameraOffsets);
+    const { city, country } = asset.exifInfo ?? {};
+
+    if (mode === "gap") {
+      if (
+        !previousDate ||
+        date.getTime() - previousDate.getTime() > gapDays * DAY
+      ) {
+        sections.set(asset.id, {
+          title: dayTitle(date),
+          subtitle: [city, country].filter(Boolean).join(", "),
+          photoId: null,
+        });
+      }
+    } else if (mode === "month") {
+      if (
+        !previousDate ||
+        date.getFullYear() !== previousDate.getFullYear() ||
+        date.getMonth() !== previousDate.getMonth()
+      ) {
+        sections.set(asset.id, {
+          title: monthTitle(date),
+          subtitle: "",
+          photoId: null,
+        });
+      }
+    } else {
+      // Photos without location stay in the current section
+      const place = city || country || null;
+      if (place && place !== previousPlace) {
+        sections.set(asset.id, {
+          title: place,
+          subtitle: city && country ? country : "",
+          photoId: null,
+        });
+        previousPlace = place;
+      }
+    }
+    previousDate = date;
+  }
+  return sections;
+}
+
+/**
+ * Combine generated sections with manual ones and resolve background photos.
+ * Manual entries replace generated ones before the same asset, null entries
+ * remove a generated section.
+ */
+export function resolveSections(
+  assets: AssetResponseDto[],
+  generated: Map<string, SectionMarker>,
+  manual: Map<string, SectionMarker | null>,
+): Map<string, Section> {
+  const markers = new Map(generated);
+  for (const [assetId, marker] of manual) {
+    if (marker) {
+      markers.set(assetId, marker);
+    } else {
+      markers.delete(assetId);
+    }
+  }
+
+  const assetsById = new Map(assets.map((asset) => [asset.id, asset]));
+  const sections = new Map<string, Section>();
+  for (const [assetId, marker] of markers) {
+    if (!assetsById.has(assetId)) continue;
+    sections.set(assetId, {
+      title: marker.title,
+      subtitle: marker.subtitle,
+      photo: marker.photoId ? assetsById.get(marker.photoId) : undefined,
+    });
+  }
+  return sections;
+}
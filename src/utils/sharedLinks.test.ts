@@ -0,0 +1,147 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  Permission,
+  SharedLinkType,
+  type SharedLinkResponseDto,
+} from "@immich/sdk";
+import {
+  albumSharedLinkUrl,
+  linkCard,
+  missingSharedLinkPermissions,
+  sharedLinkSlug,
+  urlLines,
+} from "./sharedLinks";
+
+const immichConfig = {
+  serverUrl: "https://immich.example.com/",
+  apiKey: "key",
+  baseUrl: "/api",
+};
+
+const sharedLink = (
+  overrides: Partial<SharedLinkResponseDto>,
+): SharedLinkResponseDto => ({
+  album: { id: "album-1" } as SharedLinkResponseDto["album"],
+  allowDownload: true,
+  allowUpload: false,
+  assets: [],
+  createdAt: "2024-01-01T00:00:00.000Z",
+  description: null,
+  expiresAt: null,
+  id: "link-1",
+  key: "secret-key",
+  password: null,
+  showMetadata: true,
+  slug: null,
+  type: SharedLinkType.Album,
+  userId: "user-1",
+  ...overrides,
+});
+
+const fakeSdk = (links: SharedLinkResponseDto[], externalDomain = "") => ({
+  getAllSharedLinks: vi.fn(async () => links),
+  createSharedLink: vi.fn(async () =>
+    sharedLink({ id: "created", slug: "created-slug" }),
+  ),
+  getServerConfig: vi.fn(async () => ({ externalDomain }) as never),
+});
+
+describe("albumSharedLinkUrl", () => {
+  it("reuses an open link of the album", async () => {
+    const sdk = fakeSdk([sharedLink({})]);
+    await expect(
+      albumSharedLinkUrl(immichConfig, "album-1", "Book", sdk),
+    ).resolves.toBe("https://immich.example.com/share/secret-key");
+    expect(sdk.createSharedLink).not.toHaveBeenCalled();
+  });
+
+  it("prefers links with a short URL on the external domain", async () => {
+    const sdk = fakeSdk(
+      [sharedLink({}), sharedLink({ id: "link-2", slug: "rome" })],
+      "https://photos.example.com",
+    );
+    await expect(
+      albumSharedLinkUrl(immichConfig, "album-1", "Book", sdk),
+    ).resolves.toBe("https://photos.example.com/s/rome");
+  });
+
+  it("creates a link if none can be opened by anyone", async () => {
+    const sdk = fakeSdk([
+      sharedLink({ password: "secret" }),
+      sharedLink({ expiresAt: "2000-01-01T00:00:00.000Z" }),
+    ]);
+    await expect(
+      albumSharedLinkUrl(immichConfig, "album-1", "Summer in Rome", sdk),
+    ).resolves.toBe("https://immich.example.com/s/created-slug");
+    expect(sdk.createSharedLink).toHaveBeenCalledWith({
+      sharedLinkCreateDto: expect.objectContaining({
+        type: SharedLinkType.Album,
+        albumId: "album-1",
+        slug: expect.stringMatching(/^summer-in-rome-[a-z0-9]+$/),
+      }),
+    });
+  });
+});
+
+describe("missingSharedLinkPermissions", () => {
+  it("accepts keys with all permissions", async () => {
+    const getMyApiKey = vi.fn(
+      async () => ({ permissions: [Permission.All] }) as never,
+    );
+    await expect(
+      missingSharedLinkPermissions({ getMyApiKey }),
+    ).resolves.toEqual([]);
+  });
+
+  it("reports the missing permissions", async () => {
+    const getMyApiKey = vi.fn(
+      async () =>
+        ({
+          permissions: [Permission.AlbumRead, Permission.SharedLinkRead],
+        }) as never,
+    );
+    await expect(
+      missingSharedLinkPermissions({ getMyApiKey }),
+    ).resolves.toEqual([Permission.SharedLinkCreate]);
+  });
+});
+
+describe("sharedLinkSlug", () => {
+  it("makes a readable slug from the book name", () => {
+    expect(sharedLinkSlug("Été à Zürich 2024!")).toMatch(
+      /^ete-a-zurich-2024-[a-z0-9]+$/,
+    );
+    expect(sharedLinkSlug("???")).toMatch(/^book-[a-z0-9]+$/);
+  });
+});
+
+describe("urlLines", () => {
+  it("breaks after slashes and dots and cuts long parts", () => {
+    expect(
+      urlLines("https://photos.example.com/share/abcdefghijklmnop", 12),
+    ).toEqual(["photos.", "example.com/", "share/", "abcdefghijkl", "mnop"]);
+  });
+
+  it("keeps short URLs on one line", () => {
+    expect(urlLines("https://example.com/s/rome/", 30)).toEqual([
+      "example.com/s/rome",
+    ]);
+  });
+});
+
+describe("linkCard", () => {
+  it("stays inside the area and shrinks on small photos", () => {
+    const large = linkCard({ width: 2000, height: 1500 }, "bottom-right");
+    const small = linkCard({ width: 400, height: 300 }, "top-right");
+    expect(small.qrSize).toBeLessThan(large.qrSize);
+    for (const [card, area] of [
+      [large, { width: 2000, height: 1500 }],
+      [small, { width: 400, height: 300 }],
+    ] as const) {
+      expect(card.x).toBeGreaterThanOrEqual(0);
+      expect(card.y).toBeGreaterThanOrEqual(0);
+      expect(card.x + card.width).toBeLessThanOrEqual(area.width);
+      expect(card.y + card.height).toBeLessThanOrEqual(area.height);
+    }
+  });
+});
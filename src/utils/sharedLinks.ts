@@ -0,0 +1,213 @@
+import {
+  createSharedLink,
+  getAllSharedLinks,
+  getMyApiKey,
+  getServerConfig,
+  Permission,
+  SharedLinkType,
+  type SharedLinkResponseDto,
+} from "@immich/sdk";
+import type { ImmichConfig } from "../components/ConnectionForm";
+import type { Position } from "./bookConfig";
+import { mmToPixels } from "./pageLayout";
+import type { PixelSize } from "./printImages";
+
+// Immich shared link of the book album, printed as QR code and short URL
+export interface SharedLinkConfig {
+  url: string | null; // public URL of the link, null until it is created
+  onCover: boolean; // on the back of the cover
+  onSections: boolean; // on all section pages
+  assetIds: string[]; // photos with the link next to them
+}
+
+export const DEFAULT_SHARED_LINK_CONFIG: SharedLinkConfig = {
+  url: null,
+  onCover: true,
+  onSections: false,
+  assetIds: [],
+};
+
+// API key permissions needed to find and create shared links
+export const SHARED_LINK_PERMISSIONS = [
+  Permission.SharedLinkRead,
+  Permission.SharedLinkCreate,
+];
+
+// A printed link: QR code with the short URL next to it on a white card
+export interface LinkCard {
+  x: number; // in pixels, relative to the area it is placed in
+  y: number; // in pixels
+  width: number; // in pixels
+  height: number; // in pixels
+  qrSize: number; // in pixels
+  padding: number; // in pixels, around and between QR code and URL
+  fontSize: number; // in points
+  lineLength: number; // characters of the URL per line
+}
+
+export type LinkCardPosition = "top-right" | "bottom-right" | "bottom-center";
+
+const LINK_QR_SIZE = mmToPixels(15);
+const LINK_TEXT_WIDTH = mmToPixels(28);
+const LINK_PADDING = mmToPixels(1.5);
+const LINK_INSET = mmToPixels(3);
+const LINK_FONT_SIZE = 6;
+// Characters of the URL that fit on a line, Roboto averages about 0.55 em
+const LINK_LINE_LENGTH = Math.floor(
+  (LINK_TEXT_WIDTH * 72) / 300 / (LINK_FONT_SIZE * 0.6),
+);
+
+// Readable part of a shared link URL, e.g. "summer-in-rome-x3k9"
+export function sharedLinkSlug(name: string): string {
+  const base = name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40)
+    .replace(/-+$/, "");
+  const suffix = Math.random().toString(36).slice(2, 6);
+  return base ? `${base}-${suffix}` : `book-${suffix}`;
+}
+
+/**
+ * Find a shared link of the album that anyone can open (no password, not
+ * expired), or create one with a short URL from the book name. Returns its
+ * public URL, on the external domain of the server if one is configured.
+ * The SDK functions can be replaced for testing.
+ */
+export async function albumSharedLinkUrl(
+  immichConfig: ImmichConfig,
+  albumId: string,
+  name: string,
+  sdk: {
+    getAllSharedLinks: typeof getAllSharedLinks;
+    createSharedLink: typeof createSharedLink;
+    getServerConfig: typeof getServerConfig;
+  } = { getAllSharedLinks, createSharedLink, getServerConfig },
+): Promise<string> {
+  const now = Date.now();
+  const isOpen = (link: SharedLinkResponseDto) =>
+    link.type === SharedLinkType.Album &&
+    link.album?.id === albumId &&
+    !link.password &&
+    (!link.expiresAt || new Date(link.expiresAt).getTime() > now);
+
+  // Prefer links with a short URL
+  const open = (await sdk.getAllSharedLinks({ albumId })).filter(isOpen);
+  const link =
+    open.find((link) => link.slug) ??
+    open[0] ??
+    (await sdk.createSharedLink({
+      sharedLinkCreateDto: {
+        type: SharedLinkType.Album,
+        albumId,
+        allowDownload: true,
+        showMetadata: true,
+        description: "Immich Book",
+        slug: sharedLinkSlug(name),
+      },
+    }));
+
+  const { externalDomain } = await sdk.getServerConfig();
+  const base = (externalDomain || immichConfig.serverUrl).replace(/\/$/, "");
+  return link.slug ? `${base}/s/${link.slug}` : `${base}/share/${link.key}`;
+}
+
+/**
+ * Permissions for shared links the current API key lacks. Keys created with
+ * "all" permissions (or before permissions existed) have all of them.
+ */
+export async function missingSharedLinkPermissions(
+  sdk: { getMyApiKey: typeof getMyApiKey } = { getMyApiKey },
+): Promise<Permission[]> {
+  const { permissions } = await sdk.getMyApiKey();
+  if (permissions.includes(Permission.All)) return [];
+  return SHARED_LINK_PERMISSIONS.filter(
+    (permission) => !permissions.includes(permission),
+  );
+}
+
+// URL as printed, without the protocol
+export function shortUrl(url: string): string {
+  return url.replace(/^https?:\/\//, "").replace(/\/$/, "");
+}
+
+/**
+ * Split the printed URL into lines of at most maxChars, preferably after a
+ * slash or dot. Long parts are cut, as breaking them with a hyphen would change the
+ * URL.
+ */
+export function urlLines(url: string, maxChars: number): string[] {
+  const parts = shortUrl(url).match(/[^/.]*[/.]|[^/.]+$/g) ?? [];
+  const lines: string[] = [];
+  let line = "";
+  for (const part of parts) {
+    if (line.length + part.length <= maxChars) {
+      line += part;
+      continue;
+    }
+    if (line) lines.push(line);
+    line = "";
+    for (let i = 0; i < part.length; i += maxChars) {
+      const chunk = part.slice(i, i + maxChars);
+      if (chunk.length === maxChars && i + maxChars < part.length) {
+        lines.push(chunk);
+      } else {
+        line = chunk;
+      }
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+/**
+ * Place a link card in an area (a photo, section page or cover panel). The
+ * card shrinks on small areas so it keeps a margin and never covers more
+ * than half of the height.
+ */
+export function linkCard(
+  area: PixelSize,
+  position: LinkCardPosition,
+): LinkCard {
+  const fullWidth = LINK_QR_SIZE + LINK_TEXT_WIDTH + LINK_PADDING * 3;
+  const fullHeight = LINK_QR_SIZE + LINK_PADDING * 2;
+  const scale = Math.max(
+    0,
+    Math.min(
+      1,
+      (area.width - LINK_INSET * 2) / fullWidth,
+      area.height / 2 / fullHeight,
+    ),
+  );
+  const width = fullWidth * scale;
+  const height = fullHeight * scale;
+  const inset = LINK_INSET * scale;
+
+  return {
+    x:
+      position === "bottom-center"
+        ? (area.width - width) / 2
+        : area.width - inset - width,
+    y: position === "top-right" ? inset : area.height - inset - height,
+    width,
+    height,
+    qrSize: LINK_QR_SIZE * scale,
+    padding: LINK_PADDING * scale,
+    fontSize: LINK_FONT_SIZE * scale,
+    lineLength: LINK_LINE_LENGTH,
+  };
+}
+
+// Link card on a photo, in the corner away from the date
+export function photoLinkCard(
+  image: PixelSize,
+  descriptionPosition: Position,
+): LinkCard {
+  return linkCard(
+    image,
+    descriptionPosition === "top" ? "top-right" : "bottom-right",
+  );
+}
@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_GLOBAL_CONFIG, withConfigDefaults } from "./bookConfig";
+import { DEFAULT_COVER_CONFIG } from "./coverLayout";
+import { diffConfigs, loadSnapshots } from "./snapshots";
+
+const config = withConfigDefaults({}, DEFAULT_GLOBAL_CONFIG);
+const order = ["a", "b", "c", "d"];
+
+describe("diffConfigs", () => {
+  it("finds no changes between equal configs", () => {
+    expect(diffConfigs(config, { ...config }, order)).toEqual({
+      settings: [],
+      movedPhotos: 0,
+      customizations: [],
+    });
+  });
+
+  it("lists changed settings with both values", () => {
+    const diff = diffConfigs(
+      config,
+      { ...config, margin: config.margin + 5, showDates: !config.showDates },
+      order,
+    );
+    expect(diff.settings).toEqual([
+      { field: "margin", from: config.margin, to: config.margin + 5 },
+      { field: "showDates", from: config.showDates, to: !config.showDates },
+    ]);
+  });
+
+  it("counts photos moved from the default order", () => {
+    const diff = diffConfigs(
+      config,
+      { ...config, customOrdering: ["b", "a", "c", "d"] },
+      order,
+    );
+    expect(diff.movedPhotos).toBe(2);
+    expect(diffConfigs(config, config, ["b", "a"]).movedPhotos).toBe(0);
+  });
+
+  it("counts changed customizations of each kind", () => {
+    const from = {
+      ...config,
+      crops: { a: { focusX: 0.5, focusY: 0.5, zoom: 1 } },
+      excludedAssetIds: ["a", "b"],
+    };
+    const to = {
+      ...config,
+      crops: { a: { focusX: 0.2, focusY: 0.5, zoom: 1 } },
+      excludedAssetIds: ["b", "c"],
+      cameraOffsets: { "Canon EOS R6": 3600 },
+      cover: { ...DEFAULT_COVER_CONFIG, title: "Rome" },
+    };
+    expect(diffConfigs(from, to, order).customizations).toEqual([
+      { field: "crops", changed: 1 },
+      { field: "cameraOffsets", changed: 1 },
+      { field: "excludedAssetIds", changed: 2 },
+      { field: "cover", changed: 1 },
+    ]);
+  });
+});
+
+describe("loadSnapshots", () => {
+  let stored: Record<string, string>;
+
+  beforeEach(() => {
+    stored = {};
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => stored[key] ?? null,
+    });
+  });
+
+  it("starts without snapshots", () => {
+    expect(loadSnapshots("book-1")).toEqual({ snapshots: [], activeId: null });
+  });
+
+  it("completes snapshots saved by older versions", () => {
+    stored["immich-book-snapshots-book-1"] = JSON.stringify({
+      snapshots: [
+        {
+          id: "snapshot-1",
+          name: "Before",
+          createdAt: "2024-06-01T12:00:00.000Z",
+          config: {
+            margin: 10,
+            crops: { a: { focusX: 0, focusY: 0, zoom: 2 } },
+          },
+        },
+      ],
+      activeId: "snapshot-1",
+    });
+
+    const { snapshots, activeId } = loadSnapshots("book-1");
+    expect(activeId).toBe("snapshot-1");
+    const [snapshot] = snapshots;
+    expect(snapshot.name).toBe("Before");
+    expect(snapshot.config.margin).toBe(10);
+    expect(snapshot.config.crops).toEqual({
+      a: { focusX: 0, focusY: 0, zoom: 2 },
+    });
+    expect(snapshot.config.cameraOffsets).toEqual({});
+    expect(snapshot.config.captionTemplates).toEqual({});
+    expect(snapshot.config.cover).toEqual(DEFAULT_COVER_CONFIG);
+
+    // Old and current configs can be compared
+    expect(
+      diffConfigs(snapshot.config, { ...snapshot.config, margin: 20 }, order)
+        .settings,
+    ).toEqual([{ field: "margin", from: 10, to: 20 }]);
+  });
+});
@@ -0,0 +1,180 @@
+import {
+  DEFAULT_GLOBAL_CONFIG,
+  withConfigDefaults,
+  type BookConfig,
+  type GlobalConfig,
+} from "./bookConfig";
+
+// Named version of a book config to try variants side by side
+export interface Snapshot {
+  id: string;
+  name: string;
+  createdAt: string;
+  config: BookConfig;
+}
+
+export interface SnapshotStore {
+  snapshots: Snapshot[];
+  activeId: string | null; // snapshot the current config belongs to
+}
+
+export interface SettingChange {
+  field: keyof GlobalConfig;
+  from: unknown;
+  to: unknown;
+}
+
+export type CustomizationField = Exclude<keyof BookConfig, keyof GlobalConfig>;
+
+export interface ConfigDiff {
+  settings: SettingChange[];
+  movedPhotos: number; // photos at a different position in the ordering
+  customizations: { field: CustomizationField; changed: number }[];
+}
+
+// Customizations compared by the number of changed entries
+const CUSTOMIZATION_FIELDS = [
+  "customAspectRatios",
+  "descriptionPositions",
+  "pageAlignments",
+  "pageTemplates",
+  "pageBreaks",
+  "sections",
+  "crops",
+  "videoFrames",
+  "captionTemplates",
+  "cameraOffsets",
+] as const;
+
+// Snapshots saved by older versions lack the fields added since, they are
+// completed like the current config
+export function loadSnapshots(bookId: string): SnapshotStore {
+  try {
+    const stored = localStorage.getItem(`immich-book-snapshots-${bookId}`);
+    if (stored) {
+      const store: SnapshotStore = JSON.parse(stored);
+      return {
+        ...store,
+        snapshots: store.snapshots.map((snapshot) => ({
+          ...snapshot,
+          config: withConfigDefaults(snapshot.config),
+        })),
+      };
+    }
+  } catch (e) {
+    console.error("Failed to load snapshots:", e);
+  }
+  return { snapshots: [], activeId: null };
+}
+
+export function saveSnapshots(bookId: string, store: SnapshotStore) {
+  try {
+    localStorage.setItem(
+      `immich-book-snapshots-${bookId}`,
+      JSON.stringify(store),
+    );
+  } catch (e) {
+    console.error("Failed to save snapshots:", e);
+  }
+}
+
+export function createSnapshot(name: string, config: BookConfig): Snapshot {
+  return {
+    id: `snapshot-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    createdAt: new Date().toISOString(),
+    config,
+  };
+}
+
+// Number of keys with a different value in two records
+function countChanged(a: object, b: object): number {
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+  return [...keys].filter(
+    (key) => JSON.stringify(left[key]) !== JSON.stringify(right[key]),
+  ).length;
+}
+
+// Set of IDs as record, to count the added and removed ones
+const idRecord = (ids: string[]) =>
+  Object.fromEntries(ids.map((id) => [id, true]));
+
+/**
+ * Compare two book configs: changed settings, photos moved in the ordering
+ * and the number of changed customizations of each kind. The default order
+ * is used for configs without custom ordering.
+ */
+export function diffConfigs(
+  from: BookConfig,
+  to: BookConfig,
+  defaultOrder: string[],
+): ConfigDiff {
+  const settings = (
+    Object.keys(DEFAULT_GLOBAL_CONFIG) as (keyof GlobalConfig)[]
+  )
+    .filter((field) => from[field] !== to[field])
+    .map((field) => ({ field, from: from[field], to: to[field] }));
+
+  const fromOrder = from.customOrdering ?? defaultOrder;
+  const toIndex = new Map(
+    (to.customOrdering ?? defaultOrder).map((id, index) => [id, index]),
+  );
+  const movedPhotos = fromOrder.filter(
+    (id, index) => toIndex.has(id) && toIndex.get(id) !== index,
+  ).length;
+
+  const customizations: ConfigDiff["customizations"] = [
+    ...CUSTOMIZATION_FIELDS.map((field) => ({
+      field,
+      changed: countChanged(from[field], to[field]),
+    })),
+    {
+      field: "keepTogether",
+      changed:
+        JSON.stringify(from.keepTogether) === JSON.stringify(to.keepTogether)
+          ? 0
+          : Math.max(from.keepTogether.length, to.keepTogether.length),
+    },
+    {
+      field: "textBlocks",
+      changed: countChanged(
+        Object.fromEntries(from.textBlocks.map((block) => [block.id, block])),
+        Object.fromEntries(to.textBlocks.map((block) => [block.id, block])),
+      ),
+    },
+    {
+      field: "excludedAssetIds",
+      changed: countChanged(
+        idRecord(from.excludedAssetIds),
+        idRecord(to.excludedAssetIds),
+      ),
+    },
+    {
+      field: "hiddenAssetIds",
+      changed: countChanged(
+        idRecord(from.hiddenAssetIds),
+        idRecord(to.hiddenAssetIds),
+      ),
+    },
+    {
+      field: "spreadPhotos",
+      changed: countChanged(
+        idRecord(from.spreadPhotos),
+        idRecord(to.spreadPhotos),
+      ),
+    },
+    { field: "cover", changed: countChanged(from.cover, to.cover) },
+    {
+      field: "sharedLink",
+      changed: countChanged(from.sharedLink, to.sharedLink),
+    },
+  ];
+
+  return {
+    settings,
+    movedPhotos,
+    customizations: customizations.filter(({ changed }) => changed > 0),
+  };
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import type { AssetResponseDto } from "@immich/sdk";
+import { cropRect, sliceCrop } from "./photoCrop";
+import type { Page, PhotoBox } from "./pageLayout";
+import {
+  endsPhoto,
+  gutterFaces,
+  photoBoxCrop,
+  spreadGutter,
+} from "./spreadPhotos";
+import { fixtureAsset } from "./__fixtures__/assets";
+
+describe("sliceCrop", () => {
+  it("shows each half of the cropped image", () => {
+    const crop = { focusX: 0.4, focusY: 0.3, zoom: 1.5 };
+    const whole = cropRect(1.5, 2, crop);
+    const left = cropRect(1.5, 1, sliceCrop(1.5, 2, crop, 0, 0.5));
+    const right = cropRect(1.5, 1, sliceCrop(1.5, 2, crop, 0.5, 0.5));
+
+    expect(left.x).toBeCloseTo(whole.x);
+    expect(left.width).toBeCloseTo(whole.width / 2);
+    expect(right.x).toBeCloseTo(whole.x + whole.width / 2);
+    expect(right.y).toBeCloseTo(whole.y);
+    expect(right.height).toBeCloseTo(whole.height);
+  });
+});
+
+// A 3:2 photo of 3000 pixels spread over two pages of 2000 pixels
+const asset = {
+  ...fixtureAsset("asset-0", 6000, 4000),
+  people: [
+    {
+      faces: [
+        // A face in the middle of the photo
+        {
+          boundingBoxX1: 2900,
+          boundingBoxX2: 3100,
+          boundingBoxY1: 1000,
+          boundingBoxY2: 1200,
+          imageWidth: 6000,
+          imageHeight: 4000,
+        },
+      ],
+    },
+  ],
+} as AssetResponseDto;
+const spread = { x: 500, width: 3000 };
+const left: PhotoBox = {
+  asset,
+  x: 500,
+  y: 0,
+  width: 1500,
+  height: 2000,
+  spread,
+};
+const right: PhotoBox = {
+  asset,
+  x: 0,
+  y: 0,
+  width: 1500,
+  height: 2000,
+  spread: { x: -1500, width: 3000 },
+};
+const page = { width: 2000, bleed: 0 } as Page;
+const crop = { focusX: 0.5, focusY: 0.5, zoom: 1 };
+
+describe("spread photo boxes", () => {
+  it("puts overlays on the right half and crops each half", () => {
+    expect(endsPhoto(left)).toBe(false);
+    expect(endsPhoto(right)).toBe(true);
+    expect(photoBoxCrop({ ...left, width: 3000 }, crop)).toBe(crop);
+    expect(photoBoxCrop(left, crop)).toEqual({
+      focusX: 0.25,
+      focusY: 0.5,
+      zoom: 1,
+    });
+  });
+
+  it("finds faces near the gutter", () => {
+    expect(spreadGutter(page, left)).toBe(2000);
+    expect(spreadGutter(page, right)).toBe(0);
+    expect(gutterFaces(left, crop, 2000, 50)).toBe(1);
+    expect(gutterFaces(right, crop, 0, 50)).toBe(1);
+    // The face moves away from the gutter
+    expect(
+      gutterFaces(left, { focusX: 0.3, focusY: 0.5, zoom: 2 }, 2000, 50),
+    ).toBe(0);
+  });
+});
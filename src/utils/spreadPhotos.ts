@@ -0,0 +1,76 @@
+import { assetAspectRatio } from "./aspectRatio";
+import type { Page, PhotoBox } from "./pageLayout";
+import { cropRect, sliceCrop, type PhotoCrop } from "./photoCrop";
+
+// Width on each side of the gutter where faces may disappear in the binding
+export const GUTTER_SAFE_ZONE_MM = 10;
+
+// Pixels from a box edge still counted as the edge
+const TOLERANCE = 1;
+
+// Whether the box shows the right end of its photo, where captions and
+// overlays of spread photos go
+export function endsPhoto(box: PhotoBox): boolean {
+  return (
+    !box.spread ||
+    box.x + box.width >= box.spread.x + box.spread.width - TOLERANCE
+  );
+}
+
+// Whether the box shows only part of a spread photo, on single pages
+export function isSpreadHalf(box: PhotoBox): boolean {
+  return !!box.spread && box.width < box.spread.width - TOLERANCE;
+}
+
+// Crop of the part of a photo shown in the box, from the crop of the photo
+export function photoBoxCrop(box: PhotoBox, crop: PhotoCrop): PhotoCrop {
+  const { spread } = box;
+  if (!spread || !isSpreadHalf(box)) return crop;
+  return sliceCrop(
+    assetAspectRatio(box.asset),
+    spread.width / box.height,
+    crop,
+    (box.x - spread.x) / spread.width,
+    box.width / spread.width,
+  );
+}
+
+// Position of the gutter on the page of a spread photo box, null for others
+export function spreadGutter(page: Page, box: PhotoBox): number | null {
+  const { spread } = box;
+  if (!spread) return null;
+  const startsPhoto = box.x <= spread.x + TOLERANCE;
+  if (startsPhoto && endsPhoto(box)) return page.width / 2; // combined pages
+  return startsPhoto ? page.width - page.bleed : page.bleed;
+}
+
+/**
+ * Number of faces Immich detected in a spread photo that are visible within
+ * safeZone pixels of the gutter
+ */
+export function gutterFaces(
+  box: PhotoBox,
+  crop: PhotoCrop,
+  gutterX: number,
+  safeZone: number,
+): number {
+  if (!box.spread) return 0;
+  const { x, width } = box.spread;
+  const rect = cropRect(assetAspectRatio(box.asset), width / box.height, crop);
+  const toPageX = (fraction: number) =>
+    x + ((fraction - rect.x) / rect.width) * width;
+
+  const faces = (box.asset.people ?? []).flatMap((person) => person.faces);
+  return faces.filter((face) => {
+    const top = face.boundingBoxY1 / face.imageHeight;
+    const bottom = face.boundingBoxY2 / face.imageHeight;
+    const left = toPageX(face.boundingBoxX1 / face.imageWidth);
+    const right = toPageX(face.boundingBoxX2 / face.imageWidth);
+    return (
+      bottom > rect.y &&
+      top < rect.y + rect.height &&
+      left < gutterX + safeZone &&
+      right > gutterX - safeZone
+    );
+  }).length;
+}
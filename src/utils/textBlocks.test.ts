@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { parseRichText } from "./textBlocks";
+
+const plain = (text: string) => ({ text, bold: false, italic: false });
+
+describe("parseRichText", () => {
+  it("parses headings of both levels", () => {
+    expect(parseRichText("# Summer\n## In Rome")).toEqual([
+      { kind: "heading1", runs: [plain("Summer")] },
+      { kind: "heading2", runs: [plain("In Rome")] },
+    ]);
+  });
+
+  it("splits paragraphs at blank lines and keeps single line breaks", () => {
+    expect(parseRichText("First line\nsecond line\n\n  \n\nNext")).toEqual([
+      { kind: "paragraph", runs: [plain("First line\nsecond line")] },
+      { kind: "paragraph", runs: [plain("Next")] },
+    ]);
+  });
+
+  it("ends a paragraph at a heading", () => {
+    expect(parseRichText("Intro\n# Title\nText")).toEqual([
+      { kind: "paragraph", runs: [plain("Intro")] },
+      { kind: "heading1", runs: [plain("Title")] },
+      { kind: "paragraph", runs: [plain("Text")] },
+    ]);
+  });
+
+  it("has no paragraphs for blank content", () => {
+    expect(parseRichText("")).toEqual([]);
+    expect(parseRichText("\n\n  \n")).toEqual([]);
+  });
+
+  it("toggles bold and italic", () => {
+    expect(
+      parseRichText("a **bold** and *italic* and ***both***")[0].runs,
+    ).toEqual([
+      plain("a "),
+      { text: "bold", bold: true, italic: false },
+      plain(" and "),
+      { text: "italic", bold: false, italic: true },
+      plain(" and "),
+      { text: "both", bold: true, italic: true },
+    ]);
+  });
+
+  it("styles headings like paragraphs", () => {
+    expect(parseRichText("## A *day* out")[0]).toEqual({
+      kind: "heading2",
+      runs: [
+        plain("A "),
+        { text: "day", bold: false, italic: true },
+        plain(" out"),
+      ],
+    });
+  });
+
+  it("keeps # as text unless it starts a heading", () => {
+    expect(parseRichText("#hashtag\n### Deep\nRoom #4")).toEqual([
+      { kind: "paragraph", runs: [plain("#hashtag\n### Deep\nRoom #4")] },
+    ]);
+  });
+
+  it("keeps escaped markup characters as text", () => {
+    expect(parseRichText("\\# 1\n\n2 \\* 3 \\*\\* *4*")).toEqual([
+      { kind: "paragraph", runs: [plain("# 1")] },
+      {
+        kind: "paragraph",
+        runs: [plain("2 * 3 ** "), { text: "4", bold: false, italic: true }],
+      },
+    ]);
+  });
+
+  it("keeps other backslashes", () => {
+    expect(parseRichText("C:\\photos\\")).toEqual([
+      { kind: "paragraph", runs: [plain("C:\\photos\\")] },
+    ]);
+  });
+});
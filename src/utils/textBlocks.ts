@@ -0,0 +1,99 @@
+export type TextAlign = "left" | "center" | "right" | "justify";
+
+// Where a text block goes in the book
+// - page: a whole page before an asset, or after the last photo if null
+// - slot: a slot of the template on a page, instead of a photo
+export type TextPlacement =
+  | { kind: "page"; beforeAssetId: string | null }
+  | { kind: "slot"; pageNumber: number; slot: number };
+
+export interface TextBlock {
+  id: string;
+  content: string; // "# " and "## " headings, **bold** and *italic*, \* for *
+  align: TextAlign;
+  placement: TextPlacement;
+}
+
+export interface RichTextRun {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+}
+
+export interface RichTextParagraph {
+  kind: "heading1" | "heading2" | "paragraph";
+  runs: RichTextRun[];
+}
+
+export function createTextBlock(placement: TextPlacement): TextBlock {
+  return {
+    id: `text-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    content: "",
+    align: "left",
+    placement,
+  };
+}
+
+// Split text into runs, where each * toggles italic, ** bold and *** both.
+// A backslash keeps the following * or # as text.
+function parseRuns(text: string): RichTextRun[] {
+  const runs: RichTextRun[] = [];
+  let bold = false;
+  let italic = false;
+  const push = (value: string) => {
+    const last = runs[runs.length - 1];
+    if (last && last.bold === bold && last.italic === italic) {
+      last.text += value;
+    } else {
+      runs.push({ text: value, bold, italic });
+    }
+  };
+  for (const token of text.split(/(\\[*#]|\*{1,3})/)) {
+    if (token === "***") {
+      bold = !bold;
+      italic = !italic;
+    } else if (token === "**") {
+      bold = !bold;
+    } else if (token === "*") {
+      italic = !italic;
+    } else if (/^\\[*#]$/.test(token)) {
+      push(token[1]);
+    } else if (token) {
+      push(token);
+    }
+  }
+  return runs;
+}
+
+/**
+ * Parse the content of a text block into paragraphs. Paragraphs are separated
+ * by blank lines, lines starting with "# " or "## " are headings, unless the
+ * # is escaped as \#. Single line breaks within a paragraph are kept.
+ */
+export function parseRichText(content: string): RichTextParagraph[] {
+  const paragraphs: RichTextParagraph[] = [];
+  let lines: string[] = [];
+  const flush = () => {
+    if (lines.length > 0) {
+      paragraphs.push({ kind: "paragraph", runs: parseRuns(lines.join("\n")) });
+      lines = [];
+    }
+  };
+
+  for (const line of content.split("\n")) {
+    const heading = /^(#{1,2})\s+(.*)$/.exec(line);
+    if (heading) {
+      flush();
+      paragraphs.push({
+        kind: heading[1].length === 1 ? "heading1" : "heading2",
+        runs: parseRuns(heading[2]),
+      });
+    } else if (line.trim() === "") {
+      flush();
+    } else {
+      lines.push(line);
+    }
+  }
+  flush();
+  return paragraphs;
+}
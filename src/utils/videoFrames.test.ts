@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { mmToPixels } from "./pageLayout";
+import { videoDuration, videoOverlay } from "./videoFrames";
+import { fixtureAsset } from "./__fixtures__/assets";
+
+describe("videoDuration", () => {
+  it("parses the Immich duration", () => {
+    const asset = { ...fixtureAsset("a", 1920, 1080), duration: "1:02:03.5" };
+    expect(videoDuration(asset)).toBe(3723.5);
+  });
+
+  it("is 0 for a missing duration", () => {
+    const asset = { ...fixtureAsset("a", 1920, 1080), duration: "" };
+    expect(videoDuration(asset)).toBe(0);
+  });
+});
+
+describe("videoOverlay", () => {
+  it("keeps the QR code large enough to scan on large photos", () => {
+    const { qrCode, badge } = videoOverlay(
+      { width: 2000, height: 1500 },
+      "bottom",
+    );
+    expect(qrCode.size).toBeCloseTo(mmToPixels(20));
+    expect(qrCode.x).toBe(qrCode.y);
+    expect(badge.x + badge.size / 2).toBe(1000);
+    expect(badge.y + badge.size / 2).toBe(750);
+  });
+
+  it("never covers more than half of a small photo", () => {
+    const { qrCode } = videoOverlay({ width: 200, height: 100 }, "bottom");
+    expect(qrCode.size).toBe(50);
+  });
+
+  it("moves the QR code to the bottom when the description is on top", () => {
+    const { qrCode } = videoOverlay({ width: 2000, height: 1500 }, "top");
+    expect(qrCode.y + qrCode.size).toBeCloseTo(1500 - mmToPixels(2));
+  });
+});
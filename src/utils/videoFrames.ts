@@ -0,0 +1,156 @@
+import type { AssetResponseDto } from "@immich/sdk";
+import type { ImmichConfig } from "../components/ConnectionForm";
+import type { Position } from "./bookConfig";
+import { mmToPixels } from "./pageLayout";
+import type { PixelSize } from "./printImages";
+import { createPromiseCache } from "./promiseCache";
+
+// A video printed as a still frame with a play badge and a QR code linking
+// to the video. Videos without one are printed as their plain thumbnail.
+export interface VideoFrame {
+  time: number | null; // position of the frame in seconds, null for the Immich thumbnail
+}
+
+// A square on the image, in 300 DPI pixels relative to its top left corner
+export interface OverlayBox {
+  x: number;
+  y: number;
+  size: number;
+}
+
+export interface VideoOverlay {
+  badge: OverlayBox; // play badge in the centre
+  qrCode: OverlayBox;
+}
+
+// QR codes below about 12mm don't scan reliably from paper
+const QR_CODE_MIN_SIZE = mmToPixels(12);
+const QR_CODE_MAX_SIZE = mmToPixels(20);
+const OVERLAY_INSET = mmToPixels(2);
+
+// JPEG quality of captured frames, like the print images
+const JPEG_QUALITY = 0.92;
+
+// Link printed as QR code: the asset page on the Immich server
+export function assetPageUrl(
+  immichConfig: ImmichConfig,
+  assetId: string,
+): string {
+  return `${immichConfig.serverUrl.replace(/\/$/, "")}/photos/${assetId}`;
+}
+
+export function videoPlaybackUrl(
+  immichConfig: ImmichConfig,
+  assetId: string,
+): string {
+  return `${immichConfig.baseUrl}/assets/${assetId}/video/playback?apiKey=${immichConfig.apiKey}`;
+}
+
+// Duration of a video in seconds, Immich reports it as "H:MM:SS.ffffff"
+export function videoDuration(asset: AssetResponseDto): number {
+  const [hours, minutes, seconds] = asset.duration.split(":").map(Number);
+  const duration = (hours * 60 + minutes) * 60 + seconds;
+  return Number.isFinite(duration) ? duration : 0;
+}
+
+/**
+ * Place the overlays on a video frame of the given size. The QR code goes
+ * into the top left corner, or the bottom left one if the description is on
+ * top, and shrinks on small photos so it never covers more than half of it.
+ */
+export function videoOverlay(
+  image: PixelSize,
+  descriptionPosition: Position,
+): VideoOverlay {
+  const shortSide = Math.min(image.width, image.height);
+  const qrSize = Math.min(
+    shortSide / 2,
+    Math.max(QR_CODE_MIN_SIZE, Math.min(QR_CODE_MAX_SIZE, shortSide * 0.25)),
+  );
+  const inset = Math.min(OVERLAY_INSET, shortSide * 0.05);
+  const badgeSize = shortSide * 0.2;
+
+  return {
+    badge: {
+      x: (image.width - badgeSize) / 2,
+      y: (image.height - badgeSize) / 2,
+      size: badgeSize,
+    },
+    qrCode: {
+      x: inset,
+      y: descriptionPosition === "top" ? image.height - inset - qrSize : inset,
+      size: qrSize,
+    },
+  };
+}
+
+function waitFor(video: HTMLVideoElement, event: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    video.addEventListener(event, () => resolve(), { once: true });
+    video.addEventListener(
+      "error",
+      () => reject(new Error(`Failed to load video: ${video.error?.message}`)),
+      { once: true },
+    );
+  });
+}
+
+async function renderVideoFrame(
+  immichConfig: ImmichConfig,
+  assetId: string,
+  time: number,
+): Promise<Blob> {
+  const video = document.createElement("video");
+  // Needed to read the pixels of a video from another origin
+  video.crossOrigin = "anonymous";
+  video.muted = true;
+  video.preload = "auto";
+  const loaded = waitFor(video, "loadeddata");
+  video.src = videoPlaybackUrl(immichConfig, assetId);
+
+  try {
+    await loaded;
+    const seeked = waitFor(video, "seeked");
+    video.currentTime = Math.min(time, video.duration || time);
+    await seeked;
+
+    const canvas = document.createElement("canvas");
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("Canvas 2D context not available");
+    }
+    context.drawImage(video, 0, 0);
+
+    return await new Promise((resolve, reject) => {
+      canvas.toBlob(
+        (blob) =>
+          blob ? resolve(blob) : reject(new Error("Failed to encode frame")),
+        "image/jpeg",
+        JPEG_QUALITY,
+      );
+    });
+  } finally {
+    // Stop downloading the video
+    video.removeAttribute("src");
+    video.load();
+  }
+}
+
+// Captured frames, shared by the preview and the PDF
+const frameCache = createPromiseCache<Blob>();
+
+/**
+ * Capture a frame of a video in full resolution as JPEG, in the browser.
+ * Requires CORS headers on the Immich server when not using the proxy.
+ */
+export function captureVideoFrame(
+  immichConfig: ImmichConfig,
+  assetId: string,
+  time: number,
+): Promise<Blob> {
+  return frameCache(`${assetId}:${time}`, () =>
+    renderVideoFrame(immichConfig, assetId, time),
+  );
+}
@@ -0,0 +1,20 @@
+import { defineConfig } from "vite";
+
+// Node build of the command line renderer (npm run build:cli)
+export default defineConfig({
+  build: {
+    ssr: "src/cli/index.tsx",
+    outDir: "dist/cli",
+    target: "node20",
+    rollupOptions: {
+      output: {
+        entryFileNames: "index.js",
+        banner: "#!/usr/bin/env node",
+      },
+    },
+  },
+  ssr: {
+    // Published as TypeScript sources, bundle it instead of importing
+    noExternal: ["@immich/justified-layout-wasm"],
+  },
+});
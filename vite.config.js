@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react";
 
@@ -18,5 +19,13 @@ export default defineConfig(({ mode }) => {
         },
       },
     },
+    test: {
+      server: {
+        deps: {
+          // Published as TypeScript sources, which Node can't import
+          inline: ["@immich/justified-layout-wasm"],
+        },
+      },
+    },
   };
 });